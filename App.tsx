@@ -1,237 +1,601 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { AppMode, GeneratedImage, MockupPreset, AspectRatio } from './types';
-import { generateMockup, generateImage } from './services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { AppMode, GeneratedImage, PromptComposition } from './types';
+import { listProviders, getProvider, hasProvider } from './services/providers/registry';
 import { Spinner } from './components/Spinner';
+import { JobCard } from './components/JobCard';
+import { PresetManager } from './components/PresetManager';
+import { GalleryCard } from './components/GalleryCard';
+import { GroupCard } from './components/GroupCard';
+import { CompareView } from './components/CompareView';
+import { RefineDialog } from './components/RefineDialog';
+import { LineageView } from './components/LineageView';
+import { LogoPreprocessPanel } from './components/LogoPreprocessPanel';
+import { PromptComposer } from './components/PromptComposer';
+import { ReferenceImagesPanel } from './components/ReferenceImagesPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { GalleryToolbar } from './components/GalleryToolbar';
+import { Lightbox } from './components/Lightbox';
+import { ToastStack } from './components/ToastStack';
+import { CompositorEditor } from './components/CompositorEditor';
+import { RegenerateDialog } from './components/RegenerateDialog';
+import { UsageDashboard } from './components/UsageDashboard';
+import { ShareDialog } from './components/ShareDialog';
+import { EnhanceDialog } from './components/EnhanceDialog';
+import { ShortcutsDialog } from './components/ShortcutsDialog';
+import { useGallery } from './hooks/useGallery';
+import { useGalleryActions } from './hooks/useGalleryActions';
+import { useGallerySelection } from './hooks/useGallerySelection';
+import { useProjects } from './hooks/useProjects';
+import { useProjectLogos } from './hooks/useProjectLogos';
+import { usePresetLibrary } from './hooks/usePresetLibrary';
+import { useToasts } from './hooks/useToasts';
+import { useProviderSettings } from './hooks/useProviderSettings';
+import { useGenerationQueue } from './hooks/useGenerationQueue';
+import { useActiveLogo } from './hooks/useActiveLogo';
+import { useMockupMode } from './hooks/useMockupMode';
+import { useImageGenMode } from './hooks/useImageGenMode';
+import { useCompositeMode } from './hooks/useCompositeMode';
+import { useLogoPlacement } from './hooks/useLogoPlacement';
+import { useImageRevisions } from './hooks/useImageRevisions';
+import { useSetupSharing } from './hooks/useSetupSharing';
+import { Shortcut, formatShortcut, useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useImageDrop, usePasteImage } from './hooks/useImageDrop';
+import { describeError } from './services/errors';
+import { getImageBlob } from './services/galleryStore';
+import { EMPTY_COMPOSITION, compilePrompt } from './services/promptComposer';
+import { StudioState } from './services/studioState';
+import { DEFAULT_GALLERY_QUERY, GalleryQuery, groupGalleryItems, isFiltered } from './utils/gallery';
+import { formatBytes } from './utils/format';
+import { focusFirstControl, moveGridFocus } from './utils/gridFocus';
 
-const MOCKUP_PRESETS: MockupPreset[] = [
-  { id: 'mug', name: 'Ceramic Mug', icon: '☕', promptTemplate: 'Place this logo realistically on a clean white ceramic coffee mug sitting on a wooden table. Professional product photography.' },
-  { id: 'tshirt', name: 'T-Shirt', icon: '👕', promptTemplate: 'A high quality photo of a folded black cotton t-shirt with this design printed on the center chest. Studio lighting.' },
-  { id: 'hoodie', name: 'Hoodie', icon: '🧥', promptTemplate: 'A model wearing a grey streetwear hoodie featuring this logo prominently on the front. Urban setting.' },
-  { id: 'tote', name: 'Tote Bag', icon: '👜', promptTemplate: 'A canvas tote bag hanging on a coat rack with this logo printed on the side. Natural lighting.' },
-  { id: 'sticker', name: 'Laptop Sticker', icon: '💻', promptTemplate: 'A die-cut vinyl sticker of this image stuck on a silver laptop cover. Close up macro shot.' },
-  { id: 'sign', name: 'Neon Sign', icon: '✨', promptTemplate: 'A glowing neon sign on a brick wall in the shape and style of this image. Night time atmosphere.' },
+const MODES: { mode: AppMode; label: string }[] = [
+  { mode: AppMode.MOCKUP, label: 'Logo Mockup' },
+  { mode: AppMode.IMAGE_GEN, label: 'Image Gen' },
+  { mode: AppMode.COMPOSITE, label: 'Co-brand' },
+  { mode: AppMode.PLACE, label: 'Place' },
 ];
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.MOCKUP);
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  const [uploadedMimeType, setUploadedMimeType] = useState<string>('image/png');
-  const [prompt, setPrompt] = useState('');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [gallery, setGallery] = useState<GeneratedImage[]>([]);
-  const [selectedPreset, setSelectedPreset] = useState<string>('mug');
-  const [selectedAspectRatio, setSelectedAspectRatio] = useState<AspectRatio>(AspectRatio.SQUARE);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // --- Handlers ---
-
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        // Extract the actual base64 data part for the API if needed, 
-        // but for display and generic usage, keeping the full data URI is often easier.
-        // The API service will parse it.
-        // However, the Gemini API expects raw base64 without the prefix for `inlineData`.
-        // We will handle stripping in the service call or here. 
-        // Let's store the full string for display, and strip for service.
-        setUploadedImage(base64String);
-        setUploadedMimeType(file.type);
-      };
-      reader.readAsDataURL(file);
+  const [composition, setComposition] = useState<PromptComposition>(EMPTY_COMPOSITION);
+  const projects = useProjects();
+  const projectId = projects.activeProject?.id ?? null;
+  const [galleryQuery, setGalleryQuery] = useState<GalleryQuery>(DEFAULT_GALLERY_QUERY);
+  const gallery = useGallery(projectId, galleryQuery);
+  const projectLogos = useProjectLogos(projectId);
+  const { toasts, pushToast, dismissToast } = useToasts();
+  const presetLibrary = usePresetLibrary();
+  const presets = presetLibrary.presets;
+  const providerSettings = useProviderSettings();
+  const { providerId, provider, selectProvider, numberOfImages, setNumberOfImages, selectedAspectRatio, setSelectedAspectRatio } = providerSettings;
+  const [isPresetManagerOpen, setIsPresetManagerOpen] = useState(false);
+  const [compareGroupId, setCompareGroupId] = useState<string | null>(null);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [lineageTarget, setLineageTarget] = useState<{ rootId: string; focusId: string } | null>(null);
+  const [exportItems, setExportItems] = useState<GeneratedImage[] | null>(null);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const galleryGridRef = useRef<HTMLDivElement>(null);
+
+  // --- Features ---
+
+  const generation = useGenerationQueue(gallery, pushToast, () => setIsUsageOpen(true));
+  const { queue, enqueueJobs, activeJobs, failedJobs, visibleJobs } = generation;
+  const composite = useCompositeMode({ projectId, projectLogos, composition, providerSettings, enqueueJobs, pushToast });
+  const activeLogo = useActiveLogo(projects, projectLogos, pushToast, composite.forgetLogo);
+  const { uploadedImage, logoPreprocessor } = activeLogo;
+  const mockup = useMockupMode({ projects, presets, composition, providerSettings, logo: activeLogo, enqueueJobs });
+  const imageGen = useImageGenMode({ projectId, composition, setComposition, providerSettings, enqueueJobs, pushToast });
+  const place = useLogoPlacement({ projectId, gallery, logo: activeLogo, pushToast, onBaseChosen: () => setMode(AppMode.PLACE) });
+  const selection = useGallerySelection(gallery, projects, pushToast);
+  const galleryActions = useGalleryActions(gallery, projects, pushToast);
+  const revisions = useImageRevisions({ projectId, providerSettings, logo: activeLogo, enqueueJobs, pushToast });
+
+  const logoDrop = useImageDrop(activeLogo.adoptLogo, () => pushToast({ tone: 'error', title: "That's not an image", message: 'Drop a PNG, JPG, WebP, SVG or GIF file.' }));
+  // Pasting replaces the logo only where the logo input is on screen.
+  usePasteImage(activeLogo.adoptLogo, mode === AppMode.MOCKUP || mode === AppMode.PLACE);
+
+  useEffect(() => {
+    setLightboxIndex(null);
+    // Tags and presets differ between projects; only the sort order carries over.
+    setGalleryQuery(prev => ({ ...DEFAULT_GALLERY_QUERY, sort: prev.sort }));
+  }, [projectId]);
+
+  const hasSubject = Boolean(composition.subject.trim());
+
+  const compareItems = compareGroupId
+    ? gallery.items.filter(item => item.group?.id === compareGroupId).sort((a, b) => a.group!.index - b.group!.index)
+    : [];
+
+  // Roots that have at least one loaded descendant, so their cards offer the lineage view.
+  const lineageRoots = new Set(gallery.items.map(item => item.rootId).filter(Boolean));
+
+  // Restore the sidebar to exactly what produced `item`.
+  const copySettingsToPanel = async (item: GeneratedImage) => {
+    const { settings } = item;
+    if (!settings) return;
+    setMode(settings.mode);
+    if (hasProvider(settings.providerId)) selectProvider(settings.providerId);
+    setComposition(settings.composition);
+
+    if (settings.mode === AppMode.IMAGE_GEN) {
+      if (settings.aspectRatio) setSelectedAspectRatio(settings.aspectRatio);
+      if (settings.numberOfImages) setNumberOfImages(settings.numberOfImages);
+    } else if (settings.mode === AppMode.COMPOSITE) {
+      const available = new Set(projectLogos.logos.map(logo => logo.id));
+      composite.setReferenceSlots((item.sources ?? []).filter(source => available.has(source.logoId))
+        .map(({ logoId, role }) => ({ logoId, role })));
+    } else {
+      mockup.setMockupPromptMode(settings.promptMode ?? 'replace');
+      if (settings.presetId && presets.some(preset => preset.id === settings.presetId)) mockup.setSelectedPresets([settings.presetId]);
+      if (settings.templateValues) mockup.setTemplateValues(prev => ({ ...prev, ...settings.templateValues }));
+      if (settings.preprocess) logoPreprocessor.setOptions(settings.preprocess);
+      try {
+        if (item.input?.kind === 'logo' && item.input.id) {
+          await activeLogo.selectLogo(item.input.id);
+        } else if (item.input?.kind === 'image' && item.input.id) {
+          const blob = await getImageBlob(item.input.id);
+          if (blob) logoPreprocessor.setFile(blob);
+        }
+      } catch (err) {
+        console.error(err);
+      }
     }
+    pushToast({ tone: 'success', title: 'Settings copied to the panel' });
   };
 
-  const triggerFileUpload = () => {
-    fileInputRef.current?.click();
+  // The sidebar settings kept in the URL and in shared setup files.
+  const studioState: StudioState = {
+    mode,
+    providerId,
+    composition,
+    presetIds: mockup.selectedPresets,
+    promptMode: mockup.mockupPromptMode,
+    templateValues: mockup.templateValues,
+    aspectRatio: selectedAspectRatio,
+    numberOfImages,
   };
 
-  const handleMockupGenerate = async () => {
-    if (!uploadedImage) return;
-    
-    setIsGenerating(true);
-    try {
-      // Strip data:image/xyz;base64, prefix
-      const base64Data = uploadedImage.split(',')[1];
-      
-      // Determine final prompt: custom or preset?
-      // If user typed something, append it or use it. 
-      // Let's assume if user typed in the box, they want to override or augment.
-      // For simplicity: if prompt is empty, use preset. If not empty, use prompt + " utilizing the input image".
-      let finalPrompt = prompt.trim();
-      if (!finalPrompt) {
-         const preset = MOCKUP_PRESETS.find(p => p.id === selectedPreset);
-         finalPrompt = preset ? preset.promptTemplate : "Place this design on a product.";
-      }
-
-      const resultImage = await generateMockup(base64Data, uploadedMimeType, finalPrompt);
-      
-      const newImage: GeneratedImage = {
-        id: Date.now().toString(),
-        url: resultImage,
-        prompt: finalPrompt,
-        createdAt: Date.now(),
-        type: 'mockup'
-      };
-      
-      setGallery(prev => [newImage, ...prev]);
-    } catch (err) {
-      console.error(err);
-      alert("Failed to generate mockup. Please try again.");
-    } finally {
-      setIsGenerating(false);
-    }
+  const applyStudioState = (state: StudioState) => {
+    const target = hasProvider(state.providerId) ? getProvider(state.providerId) : provider;
+    setMode(state.mode);
+    if (target !== provider) selectProvider(target.id);
+    setComposition(state.composition);
+    mockup.setSelectedPresets(state.presetIds);
+    mockup.setMockupPromptMode(state.promptMode);
+    mockup.setTemplateValues(state.templateValues);
+    setSelectedAspectRatio(state.aspectRatio);
+    setNumberOfImages(Math.min(state.numberOfImages, target.capabilities.maxImagesPerRequest));
   };
 
-  const handleImageGenerate = async () => {
-    if (!prompt.trim()) return;
+  const sharing = useSetupSharing({ studioState, applyStudioState, ready: Boolean(projectId), presetLibrary, logo: activeLogo, pushToast });
 
-    setIsGenerating(true);
-    try {
-      const resultImage = await generateImage(prompt, selectedAspectRatio);
-      
-      const newImage: GeneratedImage = {
-        id: Date.now().toString(),
-        url: resultImage,
-        prompt: prompt,
-        createdAt: Date.now(),
-        type: 'generation'
-      };
-      
-      setGallery(prev => [newImage, ...prev]);
-    } catch (err) {
-      console.error(err);
-      alert("Failed to generate image. Please try again.");
-    } finally {
-      setIsGenerating(false);
-    }
+  const switchMode = (next: AppMode) => {
+    setMode(next);
+    setComposition(prev => ({ ...prev, subject: '' }));
   };
 
-  const downloadImage = (url: string, id: string) => {
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `mockup-ai-${id}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // The panel's main action, when it's enabled.
+  const generateInCurrentMode = () => {
+    if (mode === AppMode.MOCKUP && mockup.canGenerateMockup) mockup.handleMockupGenerate();
+    if (mode === AppMode.IMAGE_GEN && imageGen.canGenerateImage) imageGen.handleImageGenerate();
+    if (mode === AppMode.COMPOSITE) composite.handleCompositeGenerate();
+    if (mode === AppMode.PLACE && place.canPlaceLogo) place.openCompositor();
   };
 
+  const shortcuts: Shortcut[] = [
+    { key: 'Enter', mod: true, inFields: true, description: 'Generate (or place the logo)', run: generateInCurrentMode },
+    ...MODES.map(({ mode: target, label }, index) => ({
+      key: `Digit${index + 1}`, alt: true, inFields: true, description: `Switch to ${label}`, run: () => switchMode(target),
+    })),
+    { key: 'u', description: 'Upload a logo', run: () => { if (mode === AppMode.MOCKUP || mode === AppMode.PLACE) activeLogo.triggerFileUpload(); } },
+    { key: 'g', description: 'Jump to the gallery', run: () => { focusFirstControl(galleryGridRef.current?.firstElementChild); } },
+    { key: '?', description: 'Show keyboard shortcuts', run: () => setIsShortcutsOpen(true) },
+  ];
+  useKeyboardShortcuts(shortcuts);
+
+  const shortcutHelp = [
+    ...shortcuts.map(shortcut => ({ keys: formatShortcut(shortcut), description: shortcut.description })),
+    { keys: '← ↑ → ↓', description: 'Move between gallery cards' },
+    { keys: formatShortcut({ key: 'v', mod: true }), description: 'Paste an image as the logo' },
+    { keys: 'Esc', description: 'Close a dialog' },
+  ];
+
   // --- Render Helpers ---
 
-  const renderMockupPanel = () => (
-    <div className="space-y-6 animate-fade-in">
+  const renderQueueStatus = () => {
+    if (queue.jobs.length === 0) return null;
+    const count = (status: string) => queue.jobs.filter(job => job.status === status).length;
+
+    return (
+      <div className="p-4 bg-slate-800/50 rounded-xl border border-slate-700 space-y-3">
+        <div className="flex items-center justify-between text-xs text-slate-400">
+          <span className="font-semibold text-slate-300 text-sm">Queue</span>
+          <span>
+            {count('done')} done · {count('running')} running · {count('pending')} pending · {failedJobs.length} failed
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {failedJobs.length > 0 && (
+            <button onClick={queue.retryFailed} className="text-xs px-3 py-1.5 rounded-lg border border-slate-600 text-slate-200 hover:bg-slate-700">
+              Retry failed ({failedJobs.length})
+            </button>
+          )}
+          {activeJobs.length > 0 && (
+            <button onClick={queue.cancelAll} className="text-xs px-3 py-1.5 rounded-lg border border-slate-600 text-slate-400 hover:border-red-500/60 hover:text-red-300">
+              Cancel all
+            </button>
+          )}
+          {activeJobs.length === 0 && (
+            <button onClick={queue.clearFinished} className="text-xs px-3 py-1.5 rounded-lg border border-slate-600 text-slate-400 hover:bg-slate-700">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Logo upload, project logo strip and preprocessing, shared by the
+  // AI mockup and local placement panels.
+  const renderLogoInput = () => (
+    <>
       {/* Upload Area */}
-      <div 
-        className={`border-2 border-dashed rounded-2xl p-8 text-center transition-colors cursor-pointer
-          ${uploadedImage ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 hover:border-slate-500 hover:bg-slate-800'}`}
-        onClick={triggerFileUpload}
+      <input 
+        type="file" 
+        ref={activeLogo.fileInputRef} 
+        onChange={activeLogo.handleFileUpload} 
+        accept="image/*, .svg, .heic, .heif" 
+        className="hidden" 
+        tabIndex={-1}
+      />
+      <button
+        type="button"
+        onClick={activeLogo.triggerFileUpload}
+        {...logoDrop.dropProps}
+        aria-describedby="logo-upload-hint"
+        className={`w-full border-2 border-dashed rounded-2xl p-8 text-center transition-colors cursor-pointer
+          ${logoDrop.isDragging ? 'border-indigo-400 bg-indigo-500/20'
+            : uploadedImage ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 hover:border-slate-500 hover:bg-slate-800'}`}
       >
-        <input 
-          type="file" 
-          ref={fileInputRef} 
-          onChange={handleFileUpload} 
-          accept="image/png, image/jpeg, image/webp" 
-          className="hidden" 
-        />
-        
         {uploadedImage ? (
-          <div className="flex flex-col items-center">
-            <img src={uploadedImage} alt="Uploaded" className="h-32 object-contain mb-4 rounded shadow-lg" />
-            <p className="text-indigo-300 font-medium">Logo Uploaded! Click to change.</p>
-          </div>
+          <span className="flex flex-col items-center">
+            <img src={uploadedImage} alt="Current logo" className="h-32 object-contain mb-4 rounded shadow-lg" />
+            <span className="text-indigo-300 font-medium">Logo Uploaded! Click to change.</span>
+          </span>
         ) : (
-          <div className="flex flex-col items-center text-slate-400">
-            <svg className="w-12 h-12 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <span className="flex flex-col items-center text-slate-400">
+            <svg className="w-12 h-12 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
             </svg>
-            <p className="text-lg font-medium">Upload your Logo / Design</p>
-            <p className="text-sm mt-2 opacity-70">PNG, JPG supported</p>
-          </div>
+            <span className="text-lg font-medium">Upload your Logo / Design</span>
+            <span className="text-sm mt-2 opacity-70">PNG, JPG, WebP, SVG, GIF supported</span>
+          </span>
         )}
-      </div>
+        <span id="logo-upload-hint" className="block text-xs mt-3 text-slate-500">
+          {logoDrop.isDragging ? 'Drop to use this image' : `Or drop a file here, or paste one with ${formatShortcut({ key: 'v', mod: true })}`}
+        </span>
+      </button>
+
+      {/* Project Logos */}
+      {projectLogos.logos.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Project Logos <span className="text-slate-500 text-xs font-normal">({projectLogos.logos.length})</span>
+          </label>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {projectLogos.logos.map(logo => {
+              const isActive = projects.activeProject?.activeLogoId === logo.id;
+              return (
+                <div key={logo.id} className="relative group/logo shrink-0">
+                  <button
+                    onClick={() => activeLogo.selectLogo(logo.id)}
+                    aria-pressed={isActive}
+                    title={logo.name}
+                    className={`w-16 h-16 rounded-lg border bg-slate-800/50 p-1.5 transition-colors
+                      ${isActive ? 'border-indigo-500 ring-2 ring-indigo-500/40' : 'border-slate-700 hover:border-slate-500'}`}
+                  >
+                    <img src={logo.url} alt={logo.name} className="w-full h-full object-contain" />
+                  </button>
+                  <button
+                    onClick={() => activeLogo.removeLogo(logo.id)}
+                    className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-slate-700 text-slate-300 text-xs leading-none opacity-0 group-hover/logo:opacity-100 focus:opacity-100 hover:bg-red-600 hover:text-white transition-opacity"
+                    aria-label={`Remove ${logo.name}`}
+                  >
+                    ×
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Preprocessing */}
+      {logoPreprocessor.file && (
+        <LogoPreprocessPanel
+          options={logoPreprocessor.options}
+          onChange={logoPreprocessor.setOptions}
+          originalUrl={logoPreprocessor.originalUrl}
+          result={logoPreprocessor.result}
+          isProcessing={logoPreprocessor.isProcessing}
+        />
+      )}
+
+    </>
+  );
+
+  const renderMockupPanel = () => (
+    <div className="space-y-6 animate-fade-in">
+      {renderLogoInput()}
 
       {/* Presets */}
       <div>
-        <label className="block text-sm font-medium text-slate-300 mb-3">Select Product Preset</label>
-        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-          {MOCKUP_PRESETS.map(preset => (
+        <div className="flex items-center justify-between mb-3">
+          <label className="block text-sm font-medium text-slate-300">
+            Select Product Presets <span className="text-slate-500 text-xs font-normal">({mockup.chosenPresets.length} selected)</span>
+          </label>
+          <div className="flex gap-3 text-xs">
+            <button onClick={() => mockup.setSelectedPresets(presets.map(p => p.id))} className="text-indigo-400 hover:text-indigo-300">All</button>
+            <button onClick={() => mockup.setSelectedPresets([])} className="text-slate-500 hover:text-slate-300">None</button>
+            <button onClick={() => setIsPresetManagerOpen(true)} className="text-slate-400 hover:text-slate-200">Manage</button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3" role="group" aria-label="Product presets">
+          {presets.map(preset => (
             <button
               key={preset.id}
+              aria-pressed={mockup.selectedPresets.includes(preset.id)}
               onClick={() => {
-                setSelectedPreset(preset.id);
-                setPrompt(''); // Clear custom prompt when preset is clicked to encourage preset usage
+                mockup.togglePreset(preset.id);
+                // Clear a replacing prompt when a preset is clicked to encourage preset usage
+                if (mockup.mockupPromptMode === 'replace') setComposition(prev => ({ ...prev, subject: '' }));
               }}
               className={`p-3 rounded-xl border text-left transition-all flex items-center gap-3
-                ${selectedPreset === preset.id 
+                ${mockup.selectedPresets.includes(preset.id) 
                   ? 'border-indigo-500 bg-indigo-500/20 text-white' 
                   : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-600 hover:bg-slate-800'}`}
             >
-              <span className="text-2xl">{preset.icon}</span>
+              <span className="text-2xl" aria-hidden="true">{preset.icon}</span>
               <span className="font-medium text-sm">{preset.name}</span>
             </button>
           ))}
         </div>
       </div>
 
-      {/* Custom Prompt Override */}
-      <div>
-        <label className="block text-sm font-medium text-slate-300 mb-2">
-          Or Describe Custom Edit <span className="text-slate-500 text-xs font-normal">(Overrides preset)</span>
-        </label>
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="E.g., 'Add a vintage filter to this image' or 'Place this logo on a red sports car'"
-          className="w-full bg-slate-900 border border-slate-700 rounded-xl p-3 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all resize-none h-24"
+      {/* Template Fields */}
+      {mockup.templateFields.length > 0 && !mockup.isReplacingPresets && (
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-slate-300">Template Fields</label>
+          {mockup.templateFields.map(name => (
+            <div key={name} className="flex items-center gap-3">
+              <label htmlFor={`field-${name}`} className="w-28 text-xs font-mono text-slate-400 shrink-0">{`{${name}}`}</label>
+              <input
+                id={`field-${name}`}
+                value={mockup.templateValues[name] ?? ''}
+                onChange={(e) => mockup.setTemplateValues(prev => ({ ...prev, [name]: e.target.value }))}
+                placeholder={name}
+                className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Prompt Composer */}
+      <div className="space-y-3">
+        <div className="flex bg-slate-800 p-1 rounded-lg text-xs" role="group" aria-label="Custom text">
+          {(['augment', 'replace'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => mockup.setMockupPromptMode(value)}
+              aria-pressed={mockup.mockupPromptMode === value}
+              className={`flex-1 py-1.5 rounded-md font-medium transition-all
+                ${mockup.mockupPromptMode === value ? 'bg-indigo-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+            >
+              {value === 'augment' ? 'Add to presets' : 'Replace presets'}
+            </button>
+          ))}
+        </div>
+        <PromptComposer
+          composition={composition}
+          onChange={setComposition}
+          subjectLabel={mockup.mockupPromptMode === 'augment'
+            ? <>Extra Details <span className="text-slate-500 text-xs font-normal">(Added to each preset)</span></>
+            : <>Or Describe Custom Edit <span className="text-slate-500 text-xs font-normal">(Overrides presets)</span></>}
+          subjectPlaceholder={mockup.mockupPromptMode === 'augment'
+            ? "E.g., 'The mug is matte sage green'"
+            : "E.g., 'Add a vintage filter to this image' or 'Place this logo on a red sports car'"}
+          preview={!mockup.isReplacingPresets && mockup.chosenPresets.length > 1
+            ? `${mockup.mockupPromptPreview}\n\n(+${mockup.chosenPresets.length - 1} more preset${mockup.chosenPresets.length > 2 ? 's' : ''}, each with the same additions)`
+            : mockup.mockupPromptPreview}
+          accent="indigo"
         />
       </div>
 
+      {/* Concurrency */}
+      <div className="flex items-center justify-between">
+        <label htmlFor="concurrency" className="text-sm font-medium text-slate-300">Parallel jobs</label>
+        <select
+          id="concurrency"
+          value={generation.concurrency}
+          onChange={(e) => generation.setConcurrency(Number(e.target.value))}
+          className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          {[1, 2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+      </div>
+
       {/* Generate Button */}
       <button
-        onClick={handleMockupGenerate}
-        disabled={!uploadedImage || isGenerating}
+        onClick={mockup.handleMockupGenerate}
+        disabled={!mockup.canGenerateMockup}
+        aria-keyshortcuts="Control+Enter Meta+Enter"
         className={`w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all
-          ${!uploadedImage || isGenerating 
+          ${!mockup.canGenerateMockup 
             ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
             : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white shadow-lg shadow-indigo-500/25'}`}
       >
-        {isGenerating ? (
+        {activeJobs.length > 0 ? (
           <>
             <Spinner />
-            Processing Mockup...
+            Add {mockup.mockupJobCount} to Queue
           </>
         ) : (
           <>
-            <span>✨</span> Generate Mockup
+            <span>✨</span> Generate {mockup.mockupJobCount === 1 ? 'Mockup' : `${mockup.mockupJobCount} Mockups`}
           </>
         )}
       </button>
+
+      {renderQueueStatus()}
     </div>
   );
 
-  const renderImageGenPanel = () => (
+  const renderCompositePanel = () => (
     <div className="space-y-6 animate-fade-in">
-      {/* Prompt Input */}
+      <ReferenceImagesPanel
+        slots={composite.referenceSlots}
+        logos={projectLogos.logos}
+        maxImages={composite.maxReferenceImages}
+        problems={composite.referenceProblems}
+        onUpload={composite.handleReferenceUpload}
+        onAdd={composite.addReference}
+        onRoleChange={(index, role) => composite.setReferenceSlots(prev => prev.map((slot, i) => (i === index ? { ...slot, role } : slot)))}
+        onRemove={(index) => composite.setReferenceSlots(prev => prev.filter((_, i) => i !== index))}
+      />
+
+      <PromptComposer
+        composition={composition}
+        onChange={setComposition}
+        subjectLabel="Describe the Mockup"
+        subjectPlaceholder="E.g., 'Both logos side by side on the chest of a navy hoodie'"
+        preview={hasSubject ? compilePrompt(composition) : ''}
+        accent="indigo"
+      />
+
+      <button
+        onClick={composite.handleCompositeGenerate}
+        disabled={!composite.canGenerateComposite}
+        aria-keyshortcuts="Control+Enter Meta+Enter"
+        className={`w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all
+          ${!composite.canGenerateComposite
+            ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
+            : 'bg-gradient-to-r from-indigo-600 to-pink-600 hover:from-indigo-500 hover:to-pink-500 text-white shadow-lg shadow-indigo-500/25'}`}
+      >
+        {activeJobs.length > 0 ? (
+          <>
+            <Spinner />
+            Add Co-brand Mockup to Queue
+          </>
+        ) : (
+          <>
+            <span>🤝</span> Generate Co-brand Mockup
+          </>
+        )}
+      </button>
+
+      {!provider.capabilities.compose && (
+        <p className="text-xs text-slate-500">{provider.name} can't combine several images. Pick another provider.</p>
+      )}
+
+      {renderQueueStatus()}
+    </div>
+  );
+
+  const renderPlacePanel = () => (
+    <div className="space-y-6 animate-fade-in">
+      {renderLogoInput()}
+
+      {/* Base Photo */}
       <div>
-        <label className="block text-sm font-medium text-slate-300 mb-2">Describe the Image</label>
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="E.g., 'A futuristic city skyline at sunset with flying cars, cyberpunk style'"
-          className="w-full bg-slate-900 border border-slate-700 rounded-xl p-4 text-white focus:ring-2 focus:ring-pink-500 focus:border-transparent outline-none transition-all resize-none h-32 text-base"
-        />
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-slate-300">Base Photo</label>
+          <button onClick={() => place.baseInputRef.current?.click()} className="text-xs text-emerald-400 hover:text-emerald-300">
+            Upload photo
+          </button>
+          <input type="file" ref={place.baseInputRef} onChange={place.handleBaseUpload} accept="image/*" className="hidden" />
+        </div>
+        {place.compositorBase ? (
+          <div className="flex items-center gap-3 p-2 rounded-xl border border-emerald-500/60 bg-emerald-500/10">
+            <img src={place.compositorBase.dataUrl} alt={place.compositorBase.name} className="w-16 h-16 object-cover rounded-lg shrink-0" />
+            <p className="text-sm text-slate-300 line-clamp-2 flex-1 min-w-0" title={place.compositorBase.name}>{place.compositorBase.name}</p>
+            <button onClick={place.clearBase} className="text-xs text-slate-500 hover:text-slate-300 px-2" aria-label="Clear base photo">✕</button>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">Upload a product photo, or pick an Image Gen result below.</p>
+        )}
+        {place.baseCandidates.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto pb-1 mt-3">
+            {place.baseCandidates.map(item => (
+              <button
+                key={item.id}
+                onClick={() => place.handleUseAsBase(item)}
+                aria-pressed={place.compositorBase?.imageId === item.id}
+                title={item.prompt}
+                className={`w-16 h-16 rounded-lg overflow-hidden border shrink-0 transition-colors
+                  ${place.compositorBase?.imageId === item.id ? 'border-emerald-500 ring-2 ring-emerald-500/40' : 'border-slate-700 hover:border-slate-500'}`}
+              >
+                <img src={item.url} alt={item.prompt} className="w-full h-full object-cover" />
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
+      <button
+        onClick={place.openCompositor}
+        disabled={!place.canPlaceLogo}
+        aria-keyshortcuts="Control+Enter Meta+Enter"
+        className={`w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all
+          ${!place.canPlaceLogo
+            ? 'bg-slate-800 text-slate-500 cursor-not-allowed'
+            : 'bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white shadow-lg shadow-emerald-500/25'}`}
+      >
+        <span>📐</span> Place Logo
+      </button>
+
+      <div className="p-4 bg-slate-800/50 rounded-xl border border-slate-700">
+        <h4 className="text-slate-300 text-sm font-semibold mb-2">No AI involved</h4>
+        <p className="text-slate-400 text-xs">
+          The logo is drawn onto the photo in your browser, so colors and edges stay exactly as uploaded. Use it for print proofs and brand-approved placements.
+        </p>
+      </div>
+    </div>
+  );
+
+  const renderImageGenPanel = () => (
+    <div className="space-y-6 animate-fade-in">
+      {/* Prompt Composer */}
+      <PromptComposer
+        composition={composition}
+        onChange={setComposition}
+        subjectLabel="Describe the Image"
+        subjectPlaceholder="E.g., 'A futuristic city skyline at sunset with flying cars'"
+        subjectAction={provider.capabilities.enhancePrompt && (
+          <button
+            onClick={imageGen.handleEnhance}
+            disabled={!hasSubject || imageGen.isEnhancing}
+            title="Rewrite the description as a detailed, photography-grade prompt"
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg border border-slate-700 text-xs font-medium text-pink-300 hover:bg-slate-800 disabled:opacity-40 transition-colors"
+          >
+            {imageGen.isEnhancing ? <><Spinner /> Enhancing…</> : '✨ Enhance'}
+          </button>
+        )}
+        preview={hasSubject ? compilePrompt(composition) : ''}
+        accent="pink"
+      />
+
       {/* Aspect Ratio Selection */}
       <div>
-        <label className="block text-sm font-medium text-slate-300 mb-3">Aspect Ratio</label>
-        <div className="flex flex-wrap gap-2">
-          {Object.values(AspectRatio).map((ratio) => (
+        <label id="aspect-ratio-label" className="block text-sm font-medium text-slate-300 mb-3">Aspect Ratio</label>
+        <div className="flex flex-wrap gap-2" role="group" aria-labelledby="aspect-ratio-label">
+          {provider.capabilities.aspectRatios.map((ratio) => (
             <button
               key={ratio}
               onClick={() => setSelectedAspectRatio(ratio)}
+              aria-pressed={selectedAspectRatio === ratio}
               className={`px-4 py-2 rounded-lg border text-sm font-medium transition-all
                 ${selectedAspectRatio === ratio
                   ? 'border-pink-500 bg-pink-500/20 text-white'
@@ -243,31 +607,54 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {/* Variant Count */}
+      <div>
+        <label id="variant-count-label" className="block text-sm font-medium text-slate-300 mb-3">Variants per prompt</label>
+        <div className="flex gap-2" role="group" aria-labelledby="variant-count-label">
+          {Array.from({ length: provider.capabilities.maxImagesPerRequest }, (_, i) => i + 1).map(count => (
+            <button
+              key={count}
+              onClick={() => setNumberOfImages(count)}
+              aria-pressed={numberOfImages === count}
+              className={`w-12 py-2 rounded-lg border text-sm font-medium transition-all
+                ${numberOfImages === count
+                  ? 'border-pink-500 bg-pink-500/20 text-white'
+                  : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:bg-slate-800'}`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Generate Button */}
       <button
-        onClick={handleImageGenerate}
-        disabled={!prompt.trim() || isGenerating}
+        onClick={imageGen.handleImageGenerate}
+        disabled={!imageGen.canGenerateImage}
+        aria-keyshortcuts="Control+Enter Meta+Enter"
         className={`w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all
-          ${!prompt.trim() || isGenerating 
+          ${!imageGen.canGenerateImage
             ? 'bg-slate-800 text-slate-500 cursor-not-allowed' 
             : 'bg-gradient-to-r from-pink-600 to-rose-600 hover:from-pink-500 hover:to-rose-500 text-white shadow-lg shadow-pink-500/25'}`}
       >
-        {isGenerating ? (
+        {activeJobs.length > 0 ? (
           <>
             <Spinner />
-            Creating Image...
+            Add Image to Queue
           </>
         ) : (
           <>
-            <span>🎨</span> Generate Image
+            <span>🎨</span> Generate {numberOfImages > 1 ? `${numberOfImages} Images` : 'Image'}
           </>
         )}
       </button>
+
+      {renderQueueStatus()}
       
       <div className="p-4 bg-slate-800/50 rounded-xl border border-slate-700">
-        <h4 className="text-slate-300 text-sm font-semibold mb-2">Powered by Imagen 4</h4>
+        <h4 className="text-slate-300 text-sm font-semibold mb-2">Powered by {provider.name}</h4>
         <p className="text-slate-400 text-xs">
-          Create photorealistic assets, backgrounds for your mockups, or just explore ideas. 
+          {provider.description}
         </p>
       </div>
     </div>
@@ -284,29 +671,80 @@ const App: React.FC = () => {
             <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-indigo-500 to-pink-500 flex items-center justify-center text-xl">
               M
             </div>
-            <h1 className="text-xl font-bold text-white tracking-tight">MockupAI Studio</h1>
+            <h1 className="text-xl font-bold text-white tracking-tight shrink-0">MockupAI Studio</h1>
+            <div className="ml-auto min-w-0">
+              <ProjectSwitcher
+                library={projects}
+                onError={(title, err) => {
+                  console.error(err);
+                  pushToast({ tone: 'error', title, message: describeError(err).detail });
+                }}
+                onNotice={(title) => pushToast({ tone: 'success', title })}
+              />
+            </div>
           </div>
 
           {/* Mode Switcher */}
-          <div className="flex p-1 bg-slate-950 rounded-xl border border-slate-800">
+          <div className="flex p-1 bg-slate-950 rounded-xl border border-slate-800" role="group" aria-label="Mode">
+            {MODES.map(({ mode: value, label }, index) => (
+              <button
+                key={value}
+                onClick={() => switchMode(value)}
+                aria-pressed={mode === value}
+                aria-keyshortcuts={`Alt+${index + 1}`}
+                title={`${label} (${formatShortcut({ key: `Digit${index + 1}`, alt: true })})`}
+                className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${mode === value ? 'bg-slate-800 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Provider Selector */}
+          <div className="mt-4 flex items-center gap-3">
+            <label htmlFor="provider" className="text-xs font-medium text-slate-500 uppercase tracking-wider shrink-0">Provider</label>
+            <select
+              id="provider"
+              value={providerId}
+              onChange={(e) => selectProvider(e.target.value)}
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {listProviders().map(p => (
+                <option key={p.id} value={p.id} disabled={!p.isAvailable()}>
+                  {p.name}{p.isAvailable() ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              className="px-3 py-2 rounded-lg border border-slate-800 text-slate-400 text-sm hover:text-white hover:bg-slate-800 transition-colors shrink-0"
+            >
+              Usage
+            </button>
             <button
-              onClick={() => { setMode(AppMode.MOCKUP); setPrompt(''); }}
-              className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${mode === AppMode.MOCKUP ? 'bg-slate-800 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}
+              onClick={sharing.openShare}
+              className="px-3 py-2 rounded-lg border border-slate-800 text-slate-400 text-sm hover:text-white hover:bg-slate-800 transition-colors shrink-0"
             >
-              Logo Mockup
+              Share
             </button>
             <button
-              onClick={() => { setMode(AppMode.IMAGE_GEN); setPrompt(''); }}
-              className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${mode === AppMode.IMAGE_GEN ? 'bg-slate-800 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}
+              onClick={() => setIsShortcutsOpen(true)}
+              aria-label="Keyboard shortcuts"
+              aria-keyshortcuts="?"
+              title="Keyboard shortcuts (?)"
+              className="px-3 py-2 rounded-lg border border-slate-800 text-slate-400 text-sm hover:text-white hover:bg-slate-800 transition-colors shrink-0"
             >
-              Image Gen
+              ?
             </button>
           </div>
         </div>
 
         {/* Dynamic Content Area */}
         <div className="p-6 flex-1">
-          {mode === AppMode.MOCKUP ? renderMockupPanel() : renderImageGenPanel()}
+          {mode === AppMode.MOCKUP && renderMockupPanel()}
+          {mode === AppMode.IMAGE_GEN && renderImageGenPanel()}
+          {mode === AppMode.COMPOSITE && renderCompositePanel()}
+          {mode === AppMode.PLACE && renderPlacePanel()}
         </div>
       </div>
 
@@ -314,67 +752,283 @@ const App: React.FC = () => {
       <div className="flex-1 bg-[#0f172a] h-screen overflow-y-auto relative">
         <header className="p-6 md:p-8 flex justify-between items-center max-w-7xl mx-auto w-full">
           <h2 className="text-2xl font-semibold text-slate-200">Gallery</h2>
-          <span className="text-slate-500 text-sm">{gallery.length} generated items</span>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <span className="block text-slate-500 text-sm">
+                {gallery.total} {isFiltered(galleryQuery) ? 'matching' : 'generated'} items
+              </span>
+              {gallery.storage && (
+                <span className="block text-slate-600 text-xs">
+                  {formatBytes(gallery.storage.usedBytes)} of {formatBytes(gallery.storage.quotaBytes)} used
+                </span>
+              )}
+            </div>
+            {selection.isSelecting ? (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-slate-400">{selection.selectedIds.size} selected</span>
+                <button
+                  onClick={selection.selectAll}
+                  className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 text-sm hover:bg-slate-800 transition-colors"
+                >
+                  All
+                </button>
+                {selection.otherProjects.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => selection.handleTransfer(e.target.value)}
+                    disabled={selection.selectedIds.size === 0}
+                    aria-label="Move or copy to project"
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-300 disabled:opacity-40 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  >
+                    <option value="">Move / copy…</option>
+                    <optgroup label="Move to">
+                      {selection.otherProjects.map(p => <option key={p.id} value={`move:${p.id}`}>{p.name}</option>)}
+                    </optgroup>
+                    <optgroup label="Copy to">
+                      {selection.otherProjects.map(p => <option key={p.id} value={`copy:${p.id}`}>{p.name}</option>)}
+                    </optgroup>
+                  </select>
+                )}
+                <button
+                  onClick={() => setExportItems(selection.selectedItems)}
+                  disabled={selection.selectedIds.size === 0}
+                  className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm hover:bg-indigo-500 disabled:opacity-40 transition-colors"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={selection.stopSelecting}
+                  className="px-3 py-1.5 rounded-lg text-slate-400 text-sm hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : gallery.total > 0 && (
+              <>
+                <button
+                  onClick={selection.startSelecting}
+                  className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 text-sm hover:bg-slate-800 transition-colors"
+                >
+                  Select
+                </button>
+                {!isFiltered(galleryQuery) && (
+                  <button
+                    onClick={galleryActions.handleClearGallery}
+                    className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-400 text-sm hover:border-red-500/60 hover:text-red-300 transition-colors"
+                  >
+                    Clear all
+                  </button>
+                )}
+              </>
+            )}
+          </div>
         </header>
 
         <div className="p-6 md:p-8 pt-0 max-w-7xl mx-auto w-full">
-          {gallery.length === 0 ? (
+          {(gallery.total > 0 || isFiltered(galleryQuery)) && (
+            <div className="mb-6">
+              <GalleryToolbar
+                query={galleryQuery}
+                onChange={setGalleryQuery}
+                presets={presets}
+                tags={gallery.tags}
+                resultCount={gallery.total}
+              />
+            </div>
+          )}
+
+          {gallery.items.length === 0 && visibleJobs.length === 0 && gallery.isLoading ? (
+            <div className="h-[60vh] flex items-center justify-center text-slate-500">
+              <Spinner />
+            </div>
+          ) : gallery.items.length === 0 && visibleJobs.length === 0 ? (
             <div className="h-[60vh] flex flex-col items-center justify-center text-slate-600 border-2 border-dashed border-slate-800 rounded-3xl bg-slate-900/30">
               <div className="w-20 h-20 mb-4 rounded-full bg-slate-800 flex items-center justify-center text-4xl opacity-50">
                 🖼️
               </div>
-              <p className="text-lg font-medium">No images yet</p>
+              <p className="text-lg font-medium">{isFiltered(galleryQuery) ? 'No matching images' : 'No images yet'}</p>
               <p className="text-sm mt-2 opacity-70 max-w-xs text-center">
-                Upload a logo and select a preset on the left to get started.
+                {isFiltered(galleryQuery)
+                  ? 'Try a different search or clear the filters.'
+                  : 'Upload a logo and select a preset on the left to get started.'}
               </p>
             </div>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-              {gallery.map((item) => (
-                <div key={item.id} className="group relative bg-slate-900 rounded-2xl overflow-hidden border border-slate-800 shadow-xl transition-all hover:border-slate-600 hover:shadow-2xl animate-fade-in-up">
-                  
-                  {/* Image Container */}
-                  <div className="aspect-square w-full overflow-hidden bg-slate-950 relative">
-                     <img 
-                      src={item.url} 
-                      alt={item.prompt}
-                      className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
-                    />
-                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-3 backdrop-blur-[2px]">
-                      <button 
-                        onClick={() => downloadImage(item.url, item.id)}
-                        className="p-3 bg-white text-slate-900 rounded-full hover:bg-indigo-50 transition-colors transform hover:scale-110 shadow-lg"
-                        title="Download"
-                      >
-                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                        </svg>
-                      </button>
-                    </div>
-                  </div>
-
-                  {/* Info */}
-                  <div className="p-4">
-                    <div className="flex items-start justify-between mb-2">
-                      <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded 
-                        ${item.type === 'mockup' ? 'bg-indigo-900/50 text-indigo-300' : 'bg-pink-900/50 text-pink-300'}`}>
-                        {item.type === 'mockup' ? 'Gemini Flash' : 'Imagen 4'}
-                      </span>
-                      <span className="text-xs text-slate-500">
-                        {new Date(item.createdAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
-                      </span>
-                    </div>
-                    <p className="text-sm text-slate-300 line-clamp-2" title={item.prompt}>
-                      {item.prompt}
-                    </p>
-                  </div>
-                </div>
+            <div
+              ref={galleryGridRef}
+              onKeyDown={(e) => { if (moveGridFocus(e.currentTarget, e.key)) e.preventDefault(); }}
+              role="region"
+              aria-label="Generated images"
+              aria-busy={activeJobs.length > 0}
+              className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6"
+            >
+              {visibleJobs.map(job => (
+                <JobCard key={job.id} job={job} onCancel={queue.cancel} onRetry={queue.retry} />
+              ))}
+              {groupGalleryItems(gallery.items).map(entry => entry.kind === 'group' ? (
+                <GroupCard
+                  key={entry.groupId}
+                  items={entry.items}
+                  onCompare={() => setCompareGroupId(entry.groupId)}
+                  onRegenerate={entry.items[0].settings ? () => revisions.regenerate(entry.items[0], entry.items[0].settings!) : undefined}
+                  onTweak={() => revisions.setTweakTarget(entry.items[0])}
+                  onCopySettings={() => copySettingsToPanel(entry.items[0])}
+                  isSelecting={selection.isSelecting}
+                  isSelected={entry.items.every(item => selection.selectedIds.has(item.id))}
+                  onToggleSelect={() => selection.toggleSelected(entry.items.map(item => item.id))}
+                />
+              ) : (
+                <GalleryCard
+                  key={entry.item.id}
+                  item={entry.item}
+                  onOpen={() => setLightboxIndex(gallery.items.indexOf(entry.item))}
+                  onToggleFavorite={() => galleryActions.handleToggleFavorite(entry.item)}
+                  onDownload={() => setExportItems([entry.item])}
+                  isSelecting={selection.isSelecting}
+                  isSelected={selection.selectedIds.has(entry.item.id)}
+                  onToggleSelect={() => selection.toggleSelected([entry.item.id])}
+                  onDelete={() => galleryActions.handleDeleteImage(entry.item.id)}
+                  onRefine={() => revisions.openRefine(entry.item)}
+                  onRegenerate={entry.item.settings ? () => revisions.regenerate(entry.item, entry.item.settings!) : undefined}
+                  onTweak={() => revisions.setTweakTarget(entry.item)}
+                  onCopySettings={() => copySettingsToPanel(entry.item)}
+                  onUseAsBase={entry.item.type === 'generation' ? () => place.handleUseAsBase(entry.item) : undefined}
+                  onShowLineage={entry.item.rootId || lineageRoots.has(entry.item.id)
+                    ? () => setLineageTarget({ rootId: entry.item.rootId ?? entry.item.id, focusId: entry.item.id })
+                    : undefined}
+                />
               ))}
             </div>
           )}
+
+          {gallery.hasMore && (
+            <div className="flex justify-center mt-8">
+              <button
+                onClick={gallery.loadMore}
+                disabled={gallery.isLoading}
+                className="px-6 py-2 rounded-xl border border-slate-700 text-slate-300 text-sm font-medium hover:bg-slate-800 transition-colors flex items-center gap-2 disabled:opacity-50"
+              >
+                {gallery.isLoading && <Spinner />}
+                Load more ({gallery.total - gallery.items.length} remaining)
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
+      {isPresetManagerOpen && (
+        <PresetManager library={presetLibrary} onClose={() => setIsPresetManagerOpen(false)} />
+      )}
+
+      {compareItems.length > 0 && (
+        <CompareView
+          items={compareItems}
+          onDiscard={galleryActions.handleDiscardVariants}
+          onDownload={(item) => setExportItems([item])}
+          onClose={() => setCompareGroupId(null)}
+        />
+      )}
+
+      {lineageTarget && (
+        <LineageView
+          rootId={lineageTarget.rootId}
+          focusId={lineageTarget.focusId}
+          refreshKey={gallery.total}
+          onBranch={(item) => { setLineageTarget(null); revisions.openRefine(item); }}
+          onClose={() => setLineageTarget(null)}
+        />
+      )}
+
+      {revisions.refineTarget && (
+        <RefineDialog
+          item={revisions.refineTarget.item}
+          imageUrl={revisions.refineTarget.dataUrl}
+          canEdit={provider.capabilities.edit}
+          onSubmit={revisions.handleRefineSubmit}
+          onClose={revisions.closeRefine}
+        />
+      )}
+
+      {revisions.tweakTarget?.settings && (
+        <RegenerateDialog
+          item={revisions.tweakTarget}
+          settings={revisions.tweakTarget.settings}
+          onSubmit={(settings) => revisions.regenerate(revisions.tweakTarget, settings)}
+          onClose={() => revisions.setTweakTarget(null)}
+        />
+      )}
+
+      {lightboxIndex !== null && gallery.items[lightboxIndex] && (
+        <Lightbox
+          items={gallery.items}
+          index={lightboxIndex}
+          logos={projectLogos.logos}
+          onIndexChange={setLightboxIndex}
+          onToggleFavorite={galleryActions.handleToggleFavorite}
+          onUpdateTags={galleryActions.handleUpdateTags}
+          onDownload={(item) => setExportItems([item])}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+
+      {place.isCompositorOpen && place.compositorBase && uploadedImage && (
+        <CompositorEditor
+          baseUrl={place.compositorBase.dataUrl}
+          logoUrl={uploadedImage}
+          placement={place.placement}
+          onChange={place.setPlacement}
+          onSave={place.handleSaveComposite}
+          onClose={place.closeCompositor}
+          isSaving={place.isSavingComposite}
+        />
+      )}
+
+      {imageGen.enhanceResult && (
+        <EnhanceDialog
+          draft={imageGen.enhanceResult.draft}
+          enhancement={imageGen.enhanceResult.enhancement}
+          onAccept={imageGen.handleAcceptEnhancement}
+          onClose={imageGen.dismissEnhancement}
+        />
+      )}
+
+      {sharing.isShareOpen && (
+        <ShareDialog
+          link={sharing.link}
+          logoName={sharing.logoName}
+          onDownloadSetup={sharing.handleDownloadSetup}
+          onOpenSetup={sharing.handleOpenSetup}
+          onClose={sharing.closeShare}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsageDashboard
+          projects={projects.projects}
+          activeProjectId={projectId}
+          onClose={() => setIsUsageOpen(false)}
+          onError={(title, err) => {
+            console.error(err);
+            pushToast({ tone: 'error', title, message: describeError(err).detail });
+          }}
+        />
+      )}
+
+      {exportItems && (
+        <ExportDialog
+          items={exportItems}
+          onClose={() => setExportItems(null)}
+          onError={galleryActions.handleExportError}
+        />
+      )}
+
+      {isShortcutsOpen && (
+        <ShortcutsDialog shortcuts={shortcutHelp} onClose={() => setIsShortcutsOpen(false)} />
+      )}
+
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
+      <div className="sr-only" role="status" aria-live="polite">{generation.announcement}</div>
+
       {/* Mobile Warning / Overlay if needed, but responsive handled by flex-col */}
       
       <style>{`
@@ -388,6 +1042,19 @@ const App: React.FC = () => {
         .animate-fade-in-up {
           animation: fade-in 0.5s ease-out forwards;
         }
+        button:focus-visible, a:focus-visible, [tabindex]:focus-visible {
+          outline: 2px solid #818cf8;
+          outline-offset: 2px;
+        }
+        @media (prefers-reduced-motion: reduce) {
+          .animate-fade-in, .animate-fade-in-up {
+            animation: none;
+          }
+          *, *::before, *::after {
+            transition-duration: 0.01ms !important;
+            scroll-behavior: auto !important;
+          }
+        }
       `}</style>
     </div>
   );
@@ -0,0 +1,210 @@
+import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { GenerationError, GenerationErrorKind, toGenerationError } from "../services/errors";
+import { createJobQueue } from "../services/jobQueue";
+import { RetryOptions, withRetry } from "../services/retry";
+import { parseDataUrl } from "../utils/dataUrl";
+import { Upstream } from "../server/upstreams";
+import { ALLOWED_IMAGE_TYPES, sniffImageType } from "../server/validation";
+import { BatchJob } from "./manifest";
+
+/**
+ * Runs batch jobs against an upstream with bounded concurrency, writing
+ * each image to the output directory as it arrives. `results.json` in the
+ * same directory is rewritten after every job, so an interrupted run can
+ * be resumed: jobs already recorded as done (with their file still
+ * present) are skipped.
+ */
+
+export interface BatchResult {
+  id: string;
+  logo: string;
+  presetId?: string;
+  prompt: string;
+  aspectRatio?: string;
+  status: 'done' | 'failed';
+  output?: string; // File name within the output directory
+  model?: string;
+  error?: { kind: GenerationErrorKind; message: string };
+  durationMs: number;
+  completedAt: string;
+}
+
+interface ResultsFile {
+  format: typeof RESULTS_FORMAT;
+  version: number;
+  updatedAt: string;
+  results: BatchResult[];
+}
+
+export interface BatchOptions {
+  outDir: string;
+  upstream: Upstream;
+  concurrency: number;
+  retry?: Omit<RetryOptions, 'signal' | 'onRetry'>;
+  /** Aborting stops the batch; finished jobs stay recorded. */
+  signal?: AbortSignal;
+  onResult?: (result: BatchResult, finished: number, total: number) => void;
+  onRetry?: (job: BatchJob, error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+export interface BatchSummary {
+  skipped: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+}
+
+export const RESULTS_FILE = 'results.json';
+const RESULTS_FORMAT = 'mockupai-batch-results';
+const RESULTS_VERSION = 1;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const exists = (path: string) => access(path).then(() => true, () => false);
+
+/**
+ * Results recorded by earlier runs into `outDir`, keyed by job id. Empty
+ * when there are none or the file can't be read.
+ */
+export const loadResults = async (outDir: string): Promise<Map<string, BatchResult>> => {
+  try {
+    const file = JSON.parse(await readFile(join(outDir, RESULTS_FILE), 'utf8')) as Partial<ResultsFile>;
+    if (file.format !== RESULTS_FORMAT || !Array.isArray(file.results)) return new Map();
+    return new Map(file.results.map(result => [result.id, result]));
+  } catch {
+    return new Map();
+  }
+};
+
+/**
+ * Jobs that still need to run: everything not recorded as done, or whose
+ * output file has since been deleted.
+ */
+export const pendingJobs = async (jobs: BatchJob[], outDir: string, previous: Map<string, BatchResult>): Promise<BatchJob[]> => {
+  const pending: BatchJob[] = [];
+  for (const job of jobs) {
+    const result = previous.get(job.id);
+    if (result?.status === 'done' && result.output && await exists(join(outDir, result.output))) continue;
+    pending.push(job);
+  }
+  return pending;
+};
+
+/**
+ * Read a logo file as base64, taking its type from the file's contents
+ * rather than its extension.
+ */
+const readLogo = async (path: string): Promise<{ base64Image: string; mimeType: string }> => {
+  const bytes = await readFile(path);
+  const mimeType = sniffImageType(bytes);
+  if (!mimeType || !ALLOWED_IMAGE_TYPES.includes(mimeType)) {
+    throw new Error(`${path} is not a PNG, JPEG, WebP or HEIC image`);
+  }
+  return { base64Image: bytes.toString('base64'), mimeType };
+};
+
+export const runBatch = async (jobs: BatchJob[], options: BatchOptions): Promise<BatchSummary> => {
+  const { outDir, upstream, signal } = options;
+  await mkdir(outDir, { recursive: true });
+
+  const results = await loadResults(outDir);
+  const pending = await pendingJobs(jobs, outDir, results);
+  const summary: BatchSummary = { skipped: jobs.length - pending.length, done: 0, failed: 0, cancelled: 0 };
+
+  // Writes are chained so concurrent jobs never interleave them, and go
+  // through a temporary file so an interruption can't truncate the log.
+  let saving = Promise.resolve();
+  const saveResults = () => {
+    saving = saving.then(async () => {
+      const file: ResultsFile = {
+        format: RESULTS_FORMAT,
+        version: RESULTS_VERSION,
+        updatedAt: new Date().toISOString(),
+        results: jobs.map(job => results.get(job.id)).filter((result): result is BatchResult => Boolean(result)),
+      };
+      const path = join(outDir, RESULTS_FILE);
+      await writeFile(`${path}.tmp`, JSON.stringify(file, null, 2));
+      await rename(`${path}.tmp`, path);
+    });
+    return saving;
+  };
+
+  // Several jobs usually share a logo; read each file once.
+  const logos = new Map<string, ReturnType<typeof readLogo>>();
+  const logoFor = (path: string) => {
+    if (!logos.has(path)) logos.set(path, readLogo(path));
+    return logos.get(path)!;
+  };
+
+  const run = async (job: BatchJob, jobSignal: AbortSignal): Promise<BatchResult> => {
+    const startedAt = performance.now();
+    const base = { id: job.id, logo: job.logoPath, presetId: job.presetId, prompt: job.prompt, aspectRatio: job.aspectRatio };
+    try {
+      const { base64Image, mimeType } = await logoFor(job.logoPath);
+      const image = await withRetry(
+        attemptSignal => upstream.editImage(base64Image, mimeType, job.prompt, attemptSignal),
+        {
+          ...options.retry,
+          signal: jobSignal,
+          onRetry: options.onRetry && ((error, attempt, delayMs) => options.onRetry!(job, error, attempt, delayMs)),
+        }
+      );
+      const { base64 } = parseDataUrl(image.dataUrl);
+      const output = `${job.id}.${EXTENSIONS[image.mimeType] ?? 'png'}`;
+      await writeFile(join(outDir, output), Buffer.from(base64, 'base64'));
+      return {
+        ...base,
+        status: 'done',
+        output,
+        model: image.model,
+        durationMs: Math.round(performance.now() - startedAt),
+        completedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      // Cancelled jobs are dropped by the queue and stay pending for the next run.
+      const { kind, message } = toGenerationError(error);
+      return {
+        ...base,
+        status: 'failed',
+        error: { kind, message },
+        durationMs: Math.round(performance.now() - startedAt),
+        completedAt: new Date().toISOString(),
+      };
+    }
+  };
+
+  let finished = 0;
+  const queue = createJobQueue<BatchJob, BatchResult>({
+    concurrency: options.concurrency,
+    run,
+    onDone: async (result) => {
+      results.set(result.id, result);
+      summary[result.status]++;
+      finished++;
+      options.onResult?.(result, finished, pending.length);
+      await saveResults();
+    },
+  });
+
+  const onAbort = () => queue.cancelAll();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  await new Promise<void>(resolve => {
+    const unsubscribe = queue.subscribe(() => {
+      if (queue.getJobs().some(job => job.status === 'pending' || job.status === 'running')) return;
+      unsubscribe();
+      resolve();
+    });
+    queue.enqueue(pending.map(job => ({ label: job.id, input: job })));
+  });
+
+  signal?.removeEventListener('abort', onAbort);
+  await saving;
+  summary.cancelled = pending.length - finished;
+  return summary;
+};
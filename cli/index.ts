@@ -0,0 +1,135 @@
+import { readFile } from "node:fs/promises";
+import { relative, resolve } from "node:path";
+import { loadEnvFile } from "node:process";
+import { parseArgs } from "node:util";
+import { MockupPreset } from "../types";
+import { BUILT_IN_PRESETS, mergePresets, parsePresetFile } from "../services/presetLibrary";
+import { Upstream, createGeminiUpstream, createStubUpstream } from "../server/upstreams";
+import { RESULTS_FILE, loadResults, pendingJobs, runBatch } from "./batch";
+import { expandManifest, readManifest } from "./manifest";
+
+/**
+ * Headless batch mockups: renders every logo × prompt × aspect ratio
+ * combination in a manifest (see cli/manifest.ts) and writes the images
+ * plus a results manifest to an output directory. Rerunning with the same
+ * output directory only runs what hasn't finished yet.
+ *
+ * Uses the same upstreams as the studio server, so GEMINI_API_KEY,
+ * GEMINI_BASE_URL and UPSTREAM (environment or .env.local) apply here too.
+ */
+
+const USAGE = `Usage: npm run batch -- <manifest.json|manifest.csv> [options]
+
+Options:
+  -o, --out <dir>          Output directory (default: batch-output)
+  -c, --concurrency <n>    Jobs run at once (default: 2)
+      --presets <file>     Preset catalog exported from the app, added to the built-ins
+      --upstream <name>    'gemini' or 'stub' (default: $UPSTREAM or gemini)
+      --retries <n>        Extra attempts for transient failures (default: 2)
+      --dry-run            Print the resolved prompts without generating anything
+  -h, --help               Show this help`;
+
+const wholeNumber = (value: string, flag: string, min: number): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new Error(`${flag} must be a whole number of at least ${min}.`);
+  }
+  return number;
+};
+
+const loadPresets = async (path?: string): Promise<MockupPreset[]> => {
+  if (!path) return BUILT_IN_PRESETS;
+  return mergePresets(BUILT_IN_PRESETS, parsePresetFile(await readFile(path, 'utf8')));
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'batch-output' },
+      concurrency: { type: 'string', short: 'c', default: '2' },
+      presets: { type: 'string' },
+      upstream: { type: 'string' },
+      retries: { type: 'string', default: '2' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  try {
+    loadEnvFile('.env.local');
+  } catch {
+    // No .env.local; use the process environment as is.
+  }
+
+  const outDir = resolve(values.out);
+  const concurrency = wholeNumber(values.concurrency, '--concurrency', 1);
+  const retries = wholeNumber(values.retries, '--retries', 0);
+  const presets = await loadPresets(values.presets);
+  const jobs = expandManifest(await readManifest(positionals[0]), presets);
+
+  if (values['dry-run']) {
+    const pending = new Set(await pendingJobs(jobs, outDir, await loadResults(outDir)));
+    jobs.forEach(job => {
+      console.log(`${job.id}${pending.has(job) ? '' : '  (done, will skip)'}`);
+      console.log(`  logo:   ${relative(process.cwd(), job.logoPath)}`);
+      console.log(`  prompt: ${job.prompt}\n`);
+    });
+    console.log(`${jobs.length} job${jobs.length === 1 ? '' : 's'}, ${pending.size} to run.`);
+    return;
+  }
+
+  const upstreamName = values.upstream ?? process.env.UPSTREAM ?? 'gemini';
+  if (upstreamName !== 'gemini' && upstreamName !== 'stub') {
+    throw new Error(`Unknown upstream "${upstreamName}". Use gemini or stub.`);
+  }
+  const upstream: Upstream = upstreamName === 'stub'
+    ? createStubUpstream()
+    : createGeminiUpstream(process.env.GEMINI_API_KEY, process.env.GEMINI_BASE_URL);
+  if (!upstream.isConfigured()) {
+    throw new Error("GEMINI_API_KEY is not set. Add it to .env.local or the environment, or use --upstream stub.");
+  }
+
+  // First Ctrl+C stops starting new jobs and records what finished; a second one quits at once.
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.log('\nStopping. Rerun the same command to resume.');
+    controller.abort();
+  });
+
+  console.log(`${jobs.length} job${jobs.length === 1 ? '' : 's'} in the manifest, running on ${upstream.name}, ${concurrency} at a time. Output: ${outDir}`);
+  const summary = await runBatch(jobs, {
+    outDir,
+    upstream,
+    concurrency,
+    retry: { retries },
+    signal: controller.signal,
+    onResult: (result, finished, total) => {
+      const progress = `[${finished}/${total}]`;
+      const seconds = `${(result.durationMs / 1000).toFixed(1)}s`;
+      console.log(result.status === 'done'
+        ? `${progress} done    ${result.output} (${seconds})`
+        : `${progress} failed  ${result.id}: ${result.error?.kind}: ${result.error?.message}`);
+    },
+    onRetry: (job, error, attempt, delayMs) => {
+      console.log(`        retry   ${job.id}: attempt ${attempt} failed (${error.kind}), retrying in ${(delayMs / 1000).toFixed(1)}s`);
+    },
+  });
+
+  console.log(
+    `\n${summary.done} done, ${summary.failed} failed, ${summary.skipped} skipped (already done)` +
+    `${summary.cancelled ? `, ${summary.cancelled} not run` : ''}. Results: ${resolve(outDir, RESULTS_FILE)}`
+  );
+  if (summary.failed || summary.cancelled) process.exitCode = 1;
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,132 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AspectRatio, MockupPreset } from '../types';
+import { ManifestEntry, expandManifest, readManifest } from './manifest';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'manifest-'));
+});
+
+afterEach(() => rm(dir, { recursive: true, force: true }));
+
+const manifest = async (name: string, text: string) => {
+  const path = join(dir, name);
+  await writeFile(path, text);
+  return path;
+};
+
+describe('readManifest', () => {
+  it('reads quoted CSV cells with commas, escaped quotes and line breaks', async () => {
+    const path = await manifest('jobs.csv', [
+      'logo,prompt',
+      'acme.png,"On a mug, ""matte"" finish"',
+      'acme.png,"Line one',
+      'line two"',
+    ].join('\n'));
+
+    const entries = await readManifest(path);
+    expect(entries.map(entry => entry.prompts)).toEqual([
+      ['On a mug, "matte" finish'],
+      ['Line one\nline two'],
+    ]);
+  });
+
+  it('accepts a byte order mark and CRLF line endings', async () => {
+    const path = await manifest('jobs.csv', '\uFEFFlogo,preset\r\nacme.png,mug\r\n\r\n');
+
+    const entries = await readManifest(path);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].presets).toEqual(['mug']);
+  });
+
+  it('splits cells on | except in the prompt column', async () => {
+    const path = await manifest('jobs.csv', 'logo,preset,prompt,aspect_ratio\na.png|b.png,mug|tote,Left | right,1:1|16:9\n');
+
+    const [entry] = await readManifest(path);
+    expect(entry.logos).toEqual([join(dir, 'a.png'), join(dir, 'b.png')]);
+    expect(entry.presets).toEqual(['mug', 'tote']);
+    expect(entry.prompts).toEqual(['Left | right']);
+    expect(entry.aspectRatios).toEqual(['1:1', '16:9']);
+  });
+
+  it('rejects unknown CSV columns', async () => {
+    const path = await manifest('jobs.csv', 'logo,preset,colour\nacme.png,mug,navy\n');
+
+    await expect(readManifest(path)).rejects.toThrow('Unknown CSV column: colour.');
+  });
+
+  it('resolves logo paths relative to the manifest and accepts single strings', async () => {
+    const path = await manifest('jobs.json', JSON.stringify({ logos: 'logos/acme.png', presets: 'mug' }));
+
+    const [entry] = await readManifest(path);
+    expect(entry.logos).toEqual([join(dir, 'logos/acme.png')]);
+    expect(entry.presets).toEqual(['mug']);
+  });
+
+  it('rejects unsupported aspect ratios', async () => {
+    const path = await manifest('jobs.json', JSON.stringify([{ logos: ['acme.png'], presets: ['mug'], aspectRatios: ['2:1'] }]));
+
+    await expect(readManifest(path)).rejects.toThrow('Entry 1: unsupported aspect ratio "2:1"');
+  });
+});
+
+const PRESETS: MockupPreset[] = [
+  { id: 'mug', name: 'Mug', icon: '☕', builtIn: true, promptTemplate: 'A {color} mug with this logo.' },
+  { id: 'tote', name: 'Tote', icon: '👜', builtIn: true, promptTemplate: 'A tote bag with this logo.' },
+];
+
+const entry = (overrides: Partial<ManifestEntry> = {}): ManifestEntry => ({
+  logos: ['/logos/acme.png'],
+  presets: [],
+  prompts: [],
+  aspectRatios: [],
+  values: {},
+  ...overrides,
+});
+
+describe('expandManifest', () => {
+  it('expands each entry into the cross product of its lists', () => {
+    const jobs = expandManifest([entry({
+      presets: ['mug', 'tote'],
+      aspectRatios: [AspectRatio.SQUARE, AspectRatio.WIDE],
+      values: { color: 'navy' },
+    })], PRESETS);
+
+    expect(jobs).toHaveLength(4);
+    expect(jobs[0]).toMatchObject({
+      logoPath: '/logos/acme.png',
+      presetId: 'mug',
+      prompt: 'A navy mug with this logo. Frame the image in a 1:1 aspect ratio.',
+      aspectRatio: '1:1',
+    });
+    expect(jobs[0].id).toMatch(/^acme-mug-1x1-[0-9a-f]{8}$/);
+  });
+
+  it('fails when a preset placeholder has no value', () => {
+    expect(() => expandManifest([entry({ presets: ['mug'] })], PRESETS))
+      .toThrow('Entry 1: preset "mug" needs a value for {color} in "values".');
+  });
+
+  it('fails on an unknown preset', () => {
+    expect(() => expandManifest([entry({ presets: ['hat'] })], PRESETS)).toThrow('unknown preset "hat"');
+  });
+
+  it('runs a combination listed twice only once', () => {
+    const jobs = expandManifest([entry({ presets: ['tote'] }), entry({ presets: ['tote'] })], PRESETS);
+    expect(jobs).toHaveLength(1);
+  });
+
+  it('gives the same job the same id on every run, and a changed prompt a new one', () => {
+    const first = expandManifest([entry({ prompts: ['On a billboard'] })], PRESETS);
+    const again = expandManifest([entry({ prompts: ['On a billboard'] })], PRESETS);
+    const changed = expandManifest([entry({ prompts: ['On a bus'] })], PRESETS);
+
+    expect(again[0].id).toBe(first[0].id);
+    expect(changed[0].id).not.toBe(first[0].id);
+    expect(first[0].id).toMatch(/^acme-custom-[0-9a-f]{8}$/);
+  });
+});
@@ -0,0 +1,231 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { basename, dirname, extname, resolve } from "node:path";
+import { AspectRatio, MockupPreset } from "../types";
+import { extractPlaceholders, fillTemplate } from "../services/presetLibrary";
+
+/**
+ * Batch manifests: which logos to render with which presets or custom
+ * prompts, at which aspect ratios. Each manifest entry expands into the
+ * cross product of its lists, one job per combination.
+ *
+ * JSON: an entry object, or an array of them:
+ *   { "logos": ["acme.png"], "presets": ["mug", "tshirt"], "prompts": [],
+ *     "aspectRatios": ["1:1", "16:9"], "values": { "color": "navy" } }
+ * Any list may also be given as a single string.
+ *
+ * CSV: a header row naming the columns `logo`, `preset`, `prompt` and
+ * `aspect_ratio`, then one entry per row. A cell may list several values
+ * separated by `|`.
+ *
+ * Logo paths are relative to the manifest file.
+ */
+
+export interface ManifestEntry {
+  logos: string[];
+  presets: string[];
+  prompts: string[];
+  aspectRatios: AspectRatio[];
+  /** Values for `{placeholder}` fields in preset templates. */
+  values: Record<string, string>;
+}
+
+export interface BatchJob {
+  /** Stable across runs for the same logo, prompt and ratio; used to resume. */
+  id: string;
+  logoPath: string;
+  presetId?: string;
+  prompt: string; // Exactly what the provider receives
+  aspectRatio?: AspectRatio;
+}
+
+const ASPECT_RATIOS = Object.values(AspectRatio) as string[];
+
+const toList = (value: unknown, field: string, entryNumber: number): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every(item => typeof item === 'string')) {
+    throw new Error(`Entry ${entryNumber}: "${field}" must be a string or a list of strings.`);
+  }
+  return list.map(item => item.trim()).filter(Boolean);
+};
+
+const toEntry = (raw: Record<string, unknown>, entryNumber: number): ManifestEntry => {
+  const aspectRatios = toList(raw.aspectRatios, 'aspectRatios', entryNumber);
+  const unknownRatio = aspectRatios.find(ratio => !ASPECT_RATIOS.includes(ratio));
+  if (unknownRatio) {
+    throw new Error(`Entry ${entryNumber}: unsupported aspect ratio "${unknownRatio}". Use one of ${ASPECT_RATIOS.join(', ')}.`);
+  }
+  const values = raw.values ?? {};
+  if (typeof values !== 'object' || Array.isArray(values) || !Object.values(values).every(v => typeof v === 'string')) {
+    throw new Error(`Entry ${entryNumber}: "values" must map placeholder names to strings.`);
+  }
+  const entry: ManifestEntry = {
+    logos: toList(raw.logos, 'logos', entryNumber),
+    presets: toList(raw.presets, 'presets', entryNumber),
+    prompts: toList(raw.prompts, 'prompts', entryNumber),
+    aspectRatios: aspectRatios as AspectRatio[],
+    values: values as Record<string, string>,
+  };
+  if (entry.logos.length === 0) {
+    throw new Error(`Entry ${entryNumber}: no logos listed.`);
+  }
+  if (entry.presets.length === 0 && entry.prompts.length === 0) {
+    throw new Error(`Entry ${entryNumber}: list at least one preset or prompt.`);
+  }
+  return entry;
+};
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded
+ * commas, quotes and line breaks.
+ */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+const CSV_COLUMNS: Record<string, keyof ManifestEntry> = {
+  logo: 'logos',
+  preset: 'presets',
+  prompt: 'prompts',
+  aspect_ratio: 'aspectRatios',
+};
+
+const parseCsvManifest = (text: string): Record<string, unknown>[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const columns = header.map(name => CSV_COLUMNS[name.trim().toLowerCase()]);
+  const unknown = header.filter((_, index) => !columns[index]);
+  if (unknown.length) {
+    throw new Error(`Unknown CSV column${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}. Expected ${Object.keys(CSV_COLUMNS).join(', ')}.`);
+  }
+  return rows.map(cells => {
+    const raw: Record<string, unknown> = {};
+    columns.forEach((field, index) => {
+      // Prompts may contain '|', so only the other columns are split.
+      const cell = cells[index]?.trim() ?? '';
+      raw[field] = field === 'prompts' ? cell : cell.split('|');
+    });
+    return raw;
+  });
+};
+
+/**
+ * Read a `.json` or `.csv` manifest. Logo paths in the result are absolute.
+ */
+export const readManifest = async (path: string): Promise<ManifestEntry[]> => {
+  const text = await readFile(path, 'utf8');
+  let raws: unknown[];
+  if (extname(path).toLowerCase() === '.csv') {
+    raws = parseCsvManifest(text);
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`${path} is not valid JSON.`);
+    }
+    raws = Array.isArray(parsed) ? parsed : [parsed];
+  }
+  if (raws.length === 0) {
+    throw new Error(`${path} lists no jobs.`);
+  }
+
+  const root = dirname(resolve(path));
+  return raws.map((raw, index) => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error(`Entry ${index + 1}: expected an object.`);
+    }
+    const entry = toEntry(raw as Record<string, unknown>, index + 1);
+    return { ...entry, logos: entry.logos.map(logo => resolve(root, logo)) };
+  });
+};
+
+/**
+ * Mockups have no aspect-ratio setting, so the ratio is asked for in the
+ * prompt.
+ */
+const withAspectRatio = (prompt: string, aspectRatio?: AspectRatio): string =>
+  aspectRatio ? `${prompt.trim()} Frame the image in a ${aspectRatio} aspect ratio.` : prompt.trim();
+
+const slug = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'job';
+
+/**
+ * Expand the entries into jobs, resolving preset templates. Throws when an
+ * entry leaves a preset's placeholder unfilled. Combinations listed more
+ * than once are only run once.
+ */
+export const expandManifest = (entries: ManifestEntry[], presets: MockupPreset[]): BatchJob[] => {
+  const jobs = new Map<string, BatchJob>();
+
+  entries.forEach((entry, index) => {
+    const sources = [
+      ...entry.presets.map(presetId => {
+        const preset = presets.find(p => p.id === presetId);
+        if (!preset) {
+          throw new Error(`Entry ${index + 1}: unknown preset "${presetId}". Available: ${presets.map(p => p.id).join(', ')}.`);
+        }
+        // An unfilled placeholder would reach the model as literal text.
+        const missing = extractPlaceholders(preset.promptTemplate).filter(name => !entry.values[name]?.trim());
+        if (missing.length) {
+          throw new Error(`Entry ${index + 1}: preset "${presetId}" needs ${missing.length === 1 ? 'a value' : 'values'} for ${missing.map(name => `{${name}}`).join(', ')} in "values".`);
+        }
+        return { presetId, label: presetId, text: fillTemplate(preset.promptTemplate, entry.values) };
+      }),
+      ...entry.prompts.map(text => ({ presetId: undefined, label: 'custom', text })),
+    ];
+    const ratios: (AspectRatio | undefined)[] = entry.aspectRatios.length ? entry.aspectRatios : [undefined];
+
+    for (const logoPath of entry.logos) {
+      for (const source of sources) {
+        for (const aspectRatio of ratios) {
+          const prompt = withAspectRatio(source.text, aspectRatio);
+          const hash = createHash('sha256').update(`${logoPath}\n${prompt}`).digest('hex').slice(0, 8);
+          const ratioLabel = aspectRatio ? `-${aspectRatio.replace(':', 'x')}` : '';
+          const id = `${slug(basename(logoPath, extname(logoPath)))}-${slug(source.label)}${ratioLabel}-${hash}`;
+          if (!jobs.has(id)) {
+            jobs.set(id, { id, logoPath, presetId: source.presetId, prompt, aspectRatio });
+          }
+        }
+      }
+    }
+  });
+
+  return Array.from(jobs.values());
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { Spinner } from './Spinner';
+
+interface CompareViewProps {
+  items: GeneratedImage[];
+  onDiscard: (ids: string[]) => Promise<void>;
+  onDownload: (item: GeneratedImage) => void;
+  onClose: () => void;
+}
+
+/**
+ * Side-by-side view of a variant set. Every variant starts as a keeper;
+ * the user unticks the ones they don't want and discards them in one go.
+ */
+export const CompareView: React.FC<CompareViewProps> = ({ items, onDiscard, onDownload, onClose }) => {
+  const [keepers, setKeepers] = useState<Set<string>>(() => new Set(items.map(item => item.id)));
+  const [isDiscarding, setIsDiscarding] = useState(false);
+  const [first] = items;
+  const discardIds = items.filter(item => !keepers.has(item.id)).map(item => item.id);
+
+  const toggle = (id: string) => {
+    setKeepers(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDiscard = async () => {
+    setIsDiscarding(true);
+    try {
+      await onDiscard(discardIds);
+      onClose();
+    } catch {
+      // The caller reports the failure; keep the view open so the user can retry.
+    } finally {
+      setIsDiscarding(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex flex-col p-4 md:p-8" onClick={onClose}>
+      <div
+        className="flex-1 min-h-0 flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compare-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 id="compare-title" className="text-lg font-semibold text-white">Compare variants</h3>
+            <p className="text-sm text-slate-400 line-clamp-2">{first.group?.prompt ?? first.prompt}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {first.modelLabel} · {first.group?.aspectRatio} · {items.length} variants
+            </p>
+          </div>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className={`flex-1 min-h-0 p-5 grid gap-4 overflow-y-auto ${items.length > 2 ? 'grid-cols-2 xl:grid-cols-4' : 'grid-cols-2'}`}>
+          {items.map((item, index) => {
+            const kept = keepers.has(item.id);
+            return (
+              <div
+                key={item.id}
+                className={`flex flex-col rounded-xl border-2 overflow-hidden transition-all ${kept ? 'border-emerald-500/70' : 'border-slate-800 opacity-50'}`}
+              >
+                <div className="flex-1 min-h-[200px] bg-slate-950 flex items-center justify-center">
+                  <img src={item.url} alt={`Variant ${index + 1}`} className="max-w-full max-h-[60vh] object-contain" />
+                </div>
+                <div className="p-3 flex items-center justify-between bg-slate-900">
+                  <label className="flex items-center gap-2 text-sm text-slate-200 cursor-pointer">
+                    <input type="checkbox" checked={kept} onChange={() => toggle(item.id)} className="accent-emerald-500" />
+                    Variant {index + 1} {kept ? '· keep' : '· discard'}
+                  </label>
+                  <button onClick={() => onDownload(item)} className="text-xs px-2 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">
+                    Download
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-5 border-t border-slate-800 flex items-center justify-end gap-3">
+          <span className="text-sm text-slate-400 mr-auto">
+            Keeping {keepers.size} of {items.length}
+          </span>
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg text-slate-400 hover:text-white">
+            Done
+          </button>
+          <button
+            onClick={handleDiscard}
+            disabled={discardIds.length === 0 || isDiscarding}
+            className="px-4 py-2 text-sm rounded-lg bg-red-600 text-white hover:bg-red-500 disabled:opacity-40 flex items-center gap-2"
+          >
+            {isDiscarding && <Spinner />}
+            Discard {discardIds.length} unselected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
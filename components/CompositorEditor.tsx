@@ -0,0 +1,327 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BlendMode, NormalizedPoint, Placement } from '../types';
+import { BLEND_MODES, DEFAULT_PLACEMENT, loadImage, placementCorners, renderComposite } from '../services/compositor';
+import { Spinner } from './Spinner';
+
+interface CompositorEditorProps {
+  baseUrl: string;
+  logoUrl: string;
+  placement: Placement;
+  onChange: (placement: Placement) => void;
+  onSave: () => void;
+  onClose: () => void;
+  isSaving: boolean;
+}
+
+type DragKind = 'move' | 'scale' | 'rotate' | 0 | 1 | 2 | 3;
+
+interface DragState {
+  kind: DragKind;
+  start: NormalizedPoint;
+  placement: Placement;
+}
+
+// Distance in pixels between the top edge of the logo and the rotate handle.
+const ROTATE_HANDLE_OFFSET = 28;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Interactive placement of a logo on a base photo. The preview is the real
+ * compositor output at display size, so what you see is what gets saved.
+ */
+export const CompositorEditor: React.FC<CompositorEditorProps> = ({
+  baseUrl, logoUrl, placement, onChange, onSave, onClose, isSaving,
+}) => {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [images, setImages] = useState<{ base: HTMLImageElement; logo: HTMLImageElement } | null>(null);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    setImages(null);
+    Promise.all([loadImage(baseUrl), loadImage(logoUrl)])
+      .then(([base, logo]) => { if (!cancelled) setImages({ base, logo }); })
+      .catch(err => console.error("Failed to load compositor images:", err));
+    return () => { cancelled = true; };
+  }, [baseUrl, logoUrl]);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(() => setStageSize({ width: stage.clientWidth, height: stage.clientHeight }));
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, [images]);
+
+  // Re-render the preview at most once per frame while dragging.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!images || !canvas || !stageSize.width) return;
+    const frame = requestAnimationFrame(() => {
+      const width = Math.round(stageSize.width * window.devicePixelRatio);
+      const rendered = renderComposite(images.base, images.logo, placement, width);
+      canvas.width = rendered.width;
+      canvas.height = rendered.height;
+      canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [images, placement, stageSize]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const corners = images ? placementCorners(placement, images.base, images.logo) : null;
+  const toPixels = (p: NormalizedPoint) => ({ x: p.x * stageSize.width, y: p.y * stageSize.height });
+
+  const pointerPosition = (e: React.PointerEvent): NormalizedPoint => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const startDrag = (kind: DragKind) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    stageRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { kind, start: pointerPosition(e), placement };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !images) return;
+    const point = pointerPosition(e);
+    const start = drag.placement;
+    const dx = point.x - drag.start.x;
+    const dy = point.y - drag.start.y;
+
+    if (drag.kind === 'move') {
+      onChange(start.mode === 'perspective'
+        ? { ...start, corners: start.corners.map(c => ({ x: c.x + dx, y: c.y + dy })) as Placement['corners'] }
+        : { ...start, x: start.x + dx, y: start.y + dy });
+    } else if (drag.kind === 'scale') {
+      // Scale by how much further the pointer is from the centre than at the start.
+      const centre = toPixels(start);
+      const from = toPixels(drag.start);
+      const to = toPixels(point);
+      const ratio = Math.hypot(to.x - centre.x, to.y - centre.y) / (Math.hypot(from.x - centre.x, from.y - centre.y) || 1);
+      onChange({ ...start, scale: clamp(start.scale * ratio, 0.02, 3) });
+    } else if (drag.kind === 'rotate') {
+      const centre = toPixels(start);
+      const to = toPixels(point);
+      const degrees = (Math.atan2(to.y - centre.y, to.x - centre.x) * 180) / Math.PI + 90;
+      onChange({ ...start, rotation: Math.round(((degrees + 540) % 360) - 180) });
+    } else {
+      const next = [...start.corners] as Placement['corners'];
+      next[drag.kind] = point;
+      onChange({ ...start, corners: next });
+    }
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    stageRef.current?.releasePointerCapture(e.pointerId);
+  };
+
+  const setMode = (mode: Placement['mode']) => {
+    if (mode === placement.mode || !images) return;
+    // Start the perspective quad from wherever the logo currently is.
+    onChange(mode === 'perspective'
+      ? { ...placement, mode, corners: placementCorners(placement, images.base, images.logo) }
+      : { ...placement, mode });
+  };
+
+  const rotateHandle = (() => {
+    if (!corners || placement.mode !== 'transform' || !stageSize.width) return null;
+    const [p0, p1] = corners.map(toPixels);
+    const centre = toPixels(placement);
+    const mid = { x: (p0.x + p1.x) / 2, y: (p0.y + p1.y) / 2 };
+    const length = Math.hypot(mid.x - centre.x, mid.y - centre.y) || 1;
+    return {
+      x: mid.x + ((mid.x - centre.x) / length) * ROTATE_HANDLE_OFFSET,
+      y: mid.y + ((mid.y - centre.y) / length) * ROTATE_HANDLE_OFFSET,
+      mid,
+    };
+  })();
+
+  const handleClass = 'absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-emerald-500 shadow touch-none';
+  const blendHint = BLEND_MODES.find(mode => mode.value === placement.blendMode)?.hint;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-6xl max-h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="compositor-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <div>
+            <h3 id="compositor-title" className="text-lg font-semibold text-white">Place logo</h3>
+            <p className="text-sm text-slate-400">Drag to move. Rendered locally, pixel for pixel.</p>
+          </div>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col lg:flex-row gap-6">
+          <div className="flex-1 min-w-0 flex items-center justify-center bg-slate-950 rounded-xl p-4">
+            {images ? (
+              <div
+                ref={stageRef}
+                className="relative w-full select-none touch-none"
+                style={{ aspectRatio: `${images.base.width} / ${images.base.height}`, maxHeight: '70vh', maxWidth: `calc(70vh * ${images.base.width / images.base.height})` }}
+                onPointerMove={handlePointerMove}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+              >
+                <canvas ref={canvasRef} className="absolute inset-0 w-full h-full rounded" />
+                {corners && stageSize.width > 0 && (
+                  <>
+                    <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox={`0 0 ${stageSize.width} ${stageSize.height}`}>
+                      <polygon
+                        points={corners.map(toPixels).map(p => `${p.x},${p.y}`).join(' ')}
+                        className="fill-transparent stroke-emerald-400 cursor-move"
+                        strokeWidth={1.5}
+                        strokeDasharray="6 4"
+                        onPointerDown={startDrag('move')}
+                      />
+                      {rotateHandle && (
+                        <line
+                          x1={rotateHandle.mid.x} y1={rotateHandle.mid.y} x2={rotateHandle.x} y2={rotateHandle.y}
+                          className="stroke-emerald-400" strokeWidth={1.5}
+                        />
+                      )}
+                    </svg>
+                    {placement.mode === 'perspective' ? corners.map((corner, i) => (
+                      <div
+                        key={i}
+                        className={`${handleClass} cursor-crosshair`}
+                        style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                        onPointerDown={startDrag(i as DragKind)}
+                        aria-hidden="true"
+                      />
+                    )) : (
+                      <>
+                        <div
+                          className={`${handleClass} cursor-nwse-resize`}
+                          style={{ left: `${corners[2].x * 100}%`, top: `${corners[2].y * 100}%` }}
+                          onPointerDown={startDrag('scale')}
+                          title="Drag to scale"
+                        />
+                        {rotateHandle && (
+                          <div
+                            className={`${handleClass} cursor-grab bg-emerald-400`}
+                            style={{ left: rotateHandle.x, top: rotateHandle.y }}
+                            onPointerDown={startDrag('rotate')}
+                            title="Drag to rotate"
+                          />
+                        )}
+                      </>
+                    )}
+                  </>
+                )}
+              </div>
+            ) : (
+              <div className="h-64 flex items-center justify-center text-slate-500"><Spinner /></div>
+            )}
+          </div>
+
+          <div className="w-full lg:w-72 shrink-0 space-y-5">
+            <div className="flex bg-slate-800 p-1 rounded-lg text-xs" role="group" aria-label="Placement mode">
+              {(['transform', 'perspective'] as const).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  aria-pressed={placement.mode === value}
+                  className={`flex-1 py-1.5 rounded-md font-medium transition-all
+                    ${placement.mode === value ? 'bg-emerald-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {value === 'transform' ? 'Move & rotate' : 'Four corners'}
+                </button>
+              ))}
+            </div>
+
+            {placement.mode === 'transform' ? (
+              <>
+                <div>
+                  <label htmlFor="compositor-scale" className="flex justify-between text-sm font-medium text-slate-300 mb-2">
+                    Size <span className="text-slate-500 font-normal">{Math.round(placement.scale * 100)}% of width</span>
+                  </label>
+                  <input
+                    id="compositor-scale"
+                    type="range" min={2} max={150} value={Math.round(placement.scale * 100)}
+                    onChange={(e) => onChange({ ...placement, scale: Number(e.target.value) / 100 })}
+                    className="w-full accent-emerald-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="compositor-rotation" className="flex justify-between text-sm font-medium text-slate-300 mb-2">
+                    Rotation <span className="text-slate-500 font-normal">{placement.rotation}°</span>
+                  </label>
+                  <input
+                    id="compositor-rotation"
+                    type="range" min={-180} max={180} value={placement.rotation}
+                    onChange={(e) => onChange({ ...placement, rotation: Number(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                </div>
+              </>
+            ) : (
+              <p className="text-xs text-slate-400">Drag each corner onto the surface, e.g. the corners of a sign or the edges of a box face.</p>
+            )}
+
+            <div>
+              <label htmlFor="compositor-blend" className="block text-sm font-medium text-slate-300 mb-2">Blend mode</label>
+              <select
+                id="compositor-blend"
+                value={placement.blendMode}
+                onChange={(e) => onChange({ ...placement, blendMode: e.target.value as BlendMode })}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-emerald-500 outline-none"
+              >
+                {BLEND_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+              </select>
+              {blendHint && <p className="text-xs text-slate-500 mt-1">{blendHint}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="compositor-opacity" className="flex justify-between text-sm font-medium text-slate-300 mb-2">
+                Opacity <span className="text-slate-500 font-normal">{Math.round(placement.opacity * 100)}%</span>
+              </label>
+              <input
+                id="compositor-opacity"
+                type="range" min={0} max={100} value={Math.round(placement.opacity * 100)}
+                onChange={(e) => onChange({ ...placement, opacity: Number(e.target.value) / 100 })}
+                className="w-full accent-emerald-500"
+              />
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={() => onChange(DEFAULT_PLACEMENT)}
+                className="px-4 py-2 rounded-lg border border-slate-700 text-slate-300 text-sm hover:bg-slate-800 transition-colors"
+              >
+                Reset
+              </button>
+              <button
+                onClick={onSave}
+                disabled={!images || isSaving}
+                className="flex-1 px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-500 disabled:opacity-40 transition-colors flex items-center justify-center gap-2"
+              >
+                {isSaving && <Spinner />}
+                Save to gallery
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { PromptEnhancement } from '../services/providers/types';
+import { diffWords } from '../utils/textDiff';
+
+interface EnhanceDialogProps {
+  draft: string;
+  enhancement: PromptEnhancement;
+  onAccept: (prompt: string) => void;
+  onClose: () => void;
+}
+
+const DIFF_STYLES = {
+  same: 'text-slate-300',
+  added: 'text-emerald-300 bg-emerald-500/10 rounded',
+  removed: 'text-red-300/80 line-through',
+};
+
+/**
+ * Shows the text model's suggestions as a word diff against the user's
+ * draft. The chosen suggestion can be edited before it replaces the draft.
+ */
+export const EnhanceDialog: React.FC<EnhanceDialogProps> = ({ draft, enhancement, onAccept, onClose }) => {
+  const suggestions = [enhancement.prompt, ...enhancement.alternatives];
+  const [selected, setSelected] = useState(0);
+  const [text, setText] = useState(suggestions[0]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const choose = (index: number) => {
+    setSelected(index);
+    setText(suggestions[index]);
+  };
+
+  const accept = () => {
+    if (text.trim()) onAccept(text.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="enhance-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <div>
+            <h3 id="enhance-title" className="text-lg font-semibold text-white">Enhanced prompt</h3>
+            <p className="text-xs text-slate-500">Suggested by {enhancement.model}. Edit it, or keep your draft.</p>
+          </div>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          {suggestions.length > 1 && (
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Suggestions">
+              {suggestions.map((_, index) => (
+                <button
+                  key={index}
+                  onClick={() => choose(index)}
+                  aria-pressed={selected === index}
+                  className={`px-3 py-1.5 rounded-lg border text-xs font-medium transition-all
+                    ${selected === index ? 'border-pink-500 bg-pink-500/20 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                >
+                  {index === 0 ? 'Recommended' : `Alternative ${index}`}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium text-slate-300 mb-2">Changes from your draft</h4>
+            <p className="p-3 rounded-xl bg-slate-950 border border-slate-800 text-sm leading-relaxed whitespace-pre-wrap">
+              {diffWords(draft, text).map((part, index) => (
+                <span key={index} className={DIFF_STYLES[part.type]}>{part.text}</span>
+              ))}
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="enhance-text" className="block text-sm font-medium text-slate-300 mb-2">Prompt to use</label>
+            <textarea
+              id="enhance-text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) accept(); }}
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl p-3 text-sm text-white focus:ring-2 focus:ring-pink-500 focus:border-transparent outline-none resize-none h-32"
+            />
+          </div>
+        </div>
+
+        <div className="p-5 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white">Keep my draft</button>
+          <button
+            onClick={accept}
+            disabled={!text.trim()}
+            className="px-4 py-2 rounded-lg bg-pink-600 text-white text-sm font-medium hover:bg-pink-500 disabled:opacity-40 transition-colors"
+          >
+            Use this prompt
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  ExportFormat,
+  ExportOptions,
+  encodeImage,
+  exportZip,
+  supportsEmbeddedMetadata,
+} from '../services/exporter';
+import { downloadBlob } from '../utils/download';
+import { Spinner } from './Spinner';
+
+interface ExportDialogProps {
+  items: GeneratedImage[];
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+const OPTIONS_STORAGE_KEY = 'mockupai.exportOptions';
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+const SIZES = [
+  { value: 0, label: 'Original' },
+  { value: 2048, label: '2048 px' },
+  { value: 1024, label: '1024 px' },
+  { value: 512, label: '512 px' },
+];
+
+const loadOptions = (): ExportOptions => {
+  try {
+    const raw = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return raw ? { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(raw) } : DEFAULT_EXPORT_OPTIONS;
+  } catch {
+    return DEFAULT_EXPORT_OPTIONS;
+  }
+};
+
+/**
+ * Export settings for one image (downloaded directly) or several
+ * (downloaded as a ZIP with a JSON manifest).
+ */
+export const ExportDialog: React.FC<ExportDialogProps> = ({ items, onClose, onError }) => {
+  const [options, setOptions] = useState<ExportOptions>(loadOptions);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const isBundle = items.length > 1;
+  const usesQuality = options.format !== 'image/png';
+
+  const set = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => setOptions({ ...options, [key]: value });
+
+  const handleExport = async () => {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+    setProgress({ done: 0, total: items.length });
+    try {
+      if (isBundle) {
+        const zip = await exportZip(items, options, (done, total) => setProgress({ done, total }));
+        downloadBlob(zip, `mockup-ai-export-${new Date().toISOString().slice(0, 10)}.zip`);
+      } else {
+        const { blob, filename } = await encodeImage(items[0], options);
+        downloadBlob(blob, filename);
+      }
+      onClose();
+    } catch (err) {
+      onError(err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <h3 id="export-title" className="text-lg font-semibold text-white">
+            Export {isBundle ? `${items.length} images` : 'image'}
+          </h3>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">Format</label>
+            <div className="flex gap-2">
+              {FORMATS.map(format => (
+                <button
+                  key={format.value}
+                  onClick={() => set('format', format.value)}
+                  aria-pressed={options.format === format.value}
+                  className={`flex-1 py-2 rounded-lg border text-sm font-medium transition-all
+                    ${options.format === format.value
+                      ? 'border-indigo-500 bg-indigo-500/20 text-white'
+                      : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:bg-slate-800'}`}
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={usesQuality ? '' : 'opacity-40'}>
+            <label htmlFor="export-quality" className="flex justify-between text-sm font-medium text-slate-300 mb-2">
+              Quality <span className="text-slate-500">{Math.round(options.quality * 100)}%</span>
+            </label>
+            <input
+              id="export-quality"
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={options.quality}
+              disabled={!usesQuality}
+              onChange={(e) => set('quality', Number(e.target.value))}
+              className="w-full accent-indigo-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="export-size" className="block text-sm font-medium text-slate-300 mb-2">Resize (longest edge)</label>
+            <select
+              id="export-size"
+              value={options.maxDimension}
+              onChange={(e) => set('maxDimension', Number(e.target.value))}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {SIZES.map(size => <option key={size.value} value={size.value}>{size.label}</option>)}
+            </select>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={options.embedMetadata}
+              onChange={(e) => set('embedMetadata', e.target.checked)}
+              className="accent-indigo-500 mt-0.5"
+            />
+            <span>
+              Embed metadata (prompt, preset, model, timestamp)
+              {options.embedMetadata && !supportsEmbeddedMetadata(options.format) && (
+                <span className="block text-xs text-amber-300">Not supported for WebP; it will be in the ZIP manifest only.</span>
+              )}
+            </span>
+          </label>
+
+          {isBundle && (
+            <p className="text-xs text-slate-500">
+              The ZIP includes a <code className="text-slate-300">manifest.json</code> with the generation record of every image.
+            </p>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg text-slate-400 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={progress !== null}
+            className="px-4 py-2 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-60 flex items-center gap-2"
+          >
+            {progress && <Spinner />}
+            {progress
+              ? `Exporting ${progress.done}/${progress.total}…`
+              : isBundle ? 'Download ZIP' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
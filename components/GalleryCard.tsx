@@ -0,0 +1,166 @@
+import React from 'react';
+import { GeneratedImage } from '../types';
+import { SelectionOverlay } from './SelectionOverlay';
+import { SettingsActions } from './SettingsActions';
+
+interface GalleryCardProps {
+  item: GeneratedImage;
+  onOpen: () => void;
+  onToggleFavorite: () => void;
+  onDownload: () => void;
+  onDelete: () => void;
+  onRefine: () => void;
+  /** Present when the item belongs to a refinement tree. */
+  onShowLineage?: () => void;
+  /** Present for images that can be used as a base photo for logo placement. */
+  onUseAsBase?: () => void;
+  /** Present when the item's generation settings were recorded. */
+  onRegenerate?: () => void;
+  onTweak: () => void;
+  onCopySettings: () => void;
+  isSelecting: boolean;
+  isSelected: boolean;
+  onToggleSelect: () => void;
+}
+
+export const GalleryCard: React.FC<GalleryCardProps> = ({
+  item, onOpen, onToggleFavorite, onDownload, onDelete, onRefine, onShowLineage, onUseAsBase,
+  onRegenerate, onTweak, onCopySettings, isSelecting, isSelected, onToggleSelect,
+}) => (
+  <div className={`group relative bg-slate-900 rounded-2xl overflow-hidden border shadow-xl transition-all hover:shadow-2xl animate-fade-in-up
+    ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-500/50' : 'border-slate-800 hover:border-slate-600'}`}>
+    
+    {/* Image Container */}
+    <div className="aspect-square w-full overflow-hidden bg-slate-950 relative">
+       <img 
+        src={item.url} 
+        alt={item.prompt}
+        className="w-full h-full object-cover transition-transform duration-700 motion-safe:group-hover:scale-105"
+      />
+      {isSelecting ? (
+        <SelectionOverlay isSelected={isSelected} onToggle={onToggleSelect} />
+      ) : (
+        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity flex items-center justify-center gap-3 backdrop-blur-[2px]">
+          <button 
+            onClick={onOpen}
+            className="p-3 bg-white text-slate-900 rounded-full hover:bg-indigo-50 transition-colors transform motion-safe:hover:scale-110 shadow-lg"
+            title="View full size"
+            aria-label="View full size"
+          >
+            <svg className="w-6 h-6" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" />
+            </svg>
+          </button>
+          <button 
+            onClick={onDownload}
+            className="p-3 bg-white text-slate-900 rounded-full hover:bg-indigo-50 transition-colors transform motion-safe:hover:scale-110 shadow-lg"
+            title="Download"
+            aria-label="Download"
+          >
+            <svg className="w-6 h-6" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+          </button>
+          <button 
+            onClick={onRefine}
+            className="p-3 bg-white text-slate-900 rounded-full hover:bg-indigo-50 transition-colors transform motion-safe:hover:scale-110 shadow-lg"
+            title="Edit further"
+            aria-label="Edit further"
+          >
+            <svg className="w-6 h-6" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+          </button>
+          {onShowLineage && (
+            <button 
+              onClick={onShowLineage}
+              className="p-3 bg-white text-slate-900 rounded-full hover:bg-indigo-50 transition-colors transform motion-safe:hover:scale-110 shadow-lg"
+              title="Version history"
+              aria-label="Version history"
+            >
+              <svg className="w-6 h-6" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h3a6 6 0 006-6V9m0 0a3 3 0 10-3-3 3 3 0 003 3z" />
+              </svg>
+            </button>
+          )}
+          {onUseAsBase && (
+            <button 
+              onClick={onUseAsBase}
+              className="p-3 bg-white text-slate-900 rounded-full hover:bg-emerald-50 transition-colors transform motion-safe:hover:scale-110 shadow-lg"
+              title="Place logo on this image"
+              aria-label="Place logo on this image"
+            >
+              <svg className="w-6 h-6" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v14a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm5 4h6v6H9V9z" />
+              </svg>
+            </button>
+          )}
+          <button 
+            onClick={onDelete}
+            className="p-3 bg-white text-slate-900 rounded-full hover:bg-red-50 hover:text-red-600 transition-colors transform motion-safe:hover:scale-110 shadow-lg"
+            title="Delete"
+            aria-label="Delete"
+          >
+            <svg className="w-6 h-6" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
+      )}
+      {!isSelecting && (
+        <button
+          onClick={onToggleFavorite}
+          aria-pressed={Boolean(item.favorite)}
+          aria-label={item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+          className={`absolute top-3 right-3 w-8 h-8 rounded-full bg-black/50 text-lg leading-none transition-opacity hover:bg-black/70
+            ${item.favorite ? 'text-amber-300' : 'text-white opacity-0 group-hover:opacity-100 group-focus-within:opacity-100'}`}
+        >
+          {item.favorite ? '★' : '☆'}
+        </button>
+      )}
+    </div>
+
+    {/* Info */}
+    <div className="p-4">
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex gap-2">
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded 
+            ${item.type === 'mockup' ? 'bg-indigo-900/50 text-indigo-300'
+              : item.type === 'composite' ? 'bg-emerald-900/50 text-emerald-300'
+              : 'bg-pink-900/50 text-pink-300'}`}>
+            {item.modelLabel ?? (item.type === 'mockup' ? 'Gemini Flash' : 'Imagen 4')}
+          </span>
+          {item.parentId && (
+            <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-slate-800 text-slate-300">
+              Edited
+            </span>
+          )}
+          {item.sources && (
+            <span
+              className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-slate-800 text-slate-300"
+              title={item.sources.map(source => source.name).join(', ')}
+            >
+              Co-brand · {item.sources.length}
+            </span>
+          )}
+        </div>
+        <span className="text-xs text-slate-500">
+          {new Date(item.createdAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+        </span>
+      </div>
+      <p className="text-sm text-slate-300 line-clamp-2" title={item.prompt}>
+        {item.prompt}
+      </p>
+      {item.tags && item.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {item.tags.map(tag => (
+            <span key={tag} className="text-[11px] px-2 py-0.5 rounded-full bg-slate-800 text-slate-400">#{tag}</span>
+          ))}
+        </div>
+      )}
+      {onRegenerate && !isSelecting && (
+        <SettingsActions onRegenerate={onRegenerate} onTweak={onTweak} onCopySettings={onCopySettings} />
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { AspectRatio, MockupPreset } from '../types';
+import { DEFAULT_GALLERY_QUERY, GalleryQuery, GallerySort, isFiltered } from '../utils/gallery';
+
+interface GalleryToolbarProps {
+  query: GalleryQuery;
+  onChange: (query: GalleryQuery) => void;
+  presets: MockupPreset[];
+  tags: string[];
+  resultCount: number;
+}
+
+const SORT_OPTIONS: { value: GallerySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'favorites', label: 'Favorites first' },
+  { value: 'prompt', label: 'Prompt A–Z' },
+];
+
+// Wait for typing to pause before re-querying the whole project.
+const SEARCH_DEBOUNCE_MS = 250;
+
+const controlClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+/**
+ * Search box, filters and sort order for the gallery.
+ */
+export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({ query, onChange, presets, tags, resultCount }) => {
+  const [text, setText] = useState(query.text);
+  const set = <K extends keyof GalleryQuery>(key: K, value: GalleryQuery[K]) => onChange({ ...query, [key]: value });
+
+  // Follow outside resets (e.g. "Clear filters").
+  useEffect(() => setText(query.text), [query.text]);
+
+  useEffect(() => {
+    if (text === query.text) return;
+    const timer = setTimeout(() => onChange({ ...query, text }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text, query, onChange]);
+
+  const toggleTag = (tag: string) =>
+    set('tags', query.tags.includes(tag) ? query.tags.filter(t => t !== tag) : [...query.tags, tag]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <svg className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+          </svg>
+          <input
+            type="search"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Search prompts and tags"
+            aria-label="Search gallery"
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-9 pr-3 py-1.5 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+        <select value={query.type} onChange={(e) => set('type', e.target.value as GalleryQuery['type'])} aria-label="Type" className={controlClass}>
+          <option value="all">All types</option>
+          <option value="mockup">Mockups</option>
+          <option value="generation">Generations</option>
+          <option value="composite">Placed logos</option>
+        </select>
+        <select value={query.presetId} onChange={(e) => set('presetId', e.target.value)} aria-label="Preset" className={controlClass}>
+          <option value="">Any preset</option>
+          {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.icon} {preset.name}</option>)}
+        </select>
+        <select value={query.aspectRatio} onChange={(e) => set('aspectRatio', e.target.value as GalleryQuery['aspectRatio'])} aria-label="Aspect ratio" className={controlClass}>
+          <option value="">Any ratio</option>
+          {Object.values(AspectRatio).map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+        </select>
+        <select value={query.sort} onChange={(e) => set('sort', e.target.value as GallerySort)} aria-label="Sort" className={controlClass}>
+          {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+        <label className="flex items-center gap-1.5">
+          From
+          <input type="date" value={query.from} max={query.to || undefined} onChange={(e) => set('from', e.target.value)} className={controlClass} />
+        </label>
+        <label className="flex items-center gap-1.5">
+          To
+          <input type="date" value={query.to} min={query.from || undefined} onChange={(e) => set('to', e.target.value)} className={controlClass} />
+        </label>
+        <button
+          onClick={() => set('favoritesOnly', !query.favoritesOnly)}
+          aria-pressed={query.favoritesOnly}
+          className={`px-3 py-1.5 rounded-lg border text-sm transition-colors
+            ${query.favoritesOnly ? 'border-amber-400 bg-amber-400/15 text-amber-300' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+        >
+          ★ Favorites
+        </button>
+        {tags.map(tag => (
+          <button
+            key={tag}
+            onClick={() => toggleTag(tag)}
+            aria-pressed={query.tags.includes(tag)}
+            className={`px-2.5 py-1 rounded-full border transition-colors
+              ${query.tags.includes(tag) ? 'border-indigo-500 bg-indigo-500/20 text-white' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+          >
+            #{tag}
+          </button>
+        ))}
+        {isFiltered(query) && (
+          <>
+            <span className="ml-auto text-slate-500">{resultCount} match{resultCount === 1 ? '' : 'es'}</span>
+            <button
+              onClick={() => onChange({ ...DEFAULT_GALLERY_QUERY, sort: query.sort })}
+              className="text-indigo-400 hover:text-indigo-300"
+            >
+              Clear filters
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
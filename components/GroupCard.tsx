@@ -0,0 +1,74 @@
+import React from 'react';
+import { GeneratedImage } from '../types';
+import { SelectionOverlay } from './SelectionOverlay';
+import { SettingsActions } from './SettingsActions';
+
+interface GroupCardProps {
+  items: GeneratedImage[];
+  onCompare: () => void;
+  /** Present when the item's generation settings were recorded. */
+  onRegenerate?: () => void;
+  onTweak: () => void;
+  onCopySettings: () => void;
+  isSelecting: boolean;
+  isSelected: boolean;
+  onToggleSelect: () => void;
+}
+
+/**
+ * Gallery card for a set of variants produced by one request.
+ */
+export const GroupCard: React.FC<GroupCardProps> = ({
+  items, onCompare, onRegenerate, onTweak, onCopySettings, isSelecting, isSelected, onToggleSelect,
+}) => {
+  const [first] = items;
+
+  return (
+    <div className={`group relative bg-slate-900 rounded-2xl overflow-hidden border shadow-xl transition-all hover:shadow-2xl animate-fade-in-up
+      ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-500/50' : 'border-slate-800 hover:border-slate-600'}`}>
+      <div className="aspect-square w-full bg-slate-950 relative">
+        <div className={`grid h-full w-full gap-0.5 ${items.length > 1 ? 'grid-cols-2' : ''}`}>
+          {items.slice(0, 4).map(item => (
+            <img key={item.id} src={item.url} alt={item.prompt} className="w-full h-full object-cover" />
+          ))}
+        </div>
+        {isSelecting ? (
+          <SelectionOverlay isSelected={isSelected} onToggle={onToggleSelect} />
+        ) : (
+          <button
+            onClick={onCompare}
+            className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-[2px]"
+            title="Compare variants"
+            aria-label={`Compare ${items.length} variants`}
+          >
+            <span className="px-4 py-2 bg-white text-slate-900 rounded-full text-sm font-semibold shadow-lg">
+              Compare & pick
+            </span>
+          </button>
+        )}
+      </div>
+
+      <div className="p-4">
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex gap-2">
+            <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-pink-900/50 text-pink-300">
+              {first.modelLabel ?? 'Imagen 4'}
+            </span>
+            <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-slate-800 text-slate-300">
+              {items.length} variants · {first.group?.aspectRatio}
+            </span>
+          </div>
+          <span className="text-xs text-slate-500">
+            {new Date(first.createdAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+          </span>
+        </div>
+        <p className="text-sm text-slate-300 line-clamp-2" title={first.group?.prompt ?? first.prompt}>
+          {first.group?.prompt ?? first.prompt}
+        </p>
+        {onRegenerate && !isSelecting && (
+          <SettingsActions onRegenerate={onRegenerate} onTweak={onTweak} onCopySettings={onCopySettings} />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Job, JobStatus } from '../services/jobQueue';
+import { GenerationRequest } from '../types';
+import { describeError } from '../services/errors';
+import { Spinner } from './Spinner';
+
+interface JobCardProps {
+  job: Job<GenerationRequest>;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  pending: 'bg-slate-800 text-slate-400',
+  running: 'bg-indigo-900/50 text-indigo-300',
+  failed: 'bg-red-900/50 text-red-300',
+  done: 'bg-emerald-900/50 text-emerald-300',
+};
+
+/**
+ * Placeholder card shown in the gallery while a queued generation is
+ * waiting, running or has failed.
+ */
+export const JobCard: React.FC<JobCardProps> = ({ job, onCancel, onRetry }) => {
+  const error = job.error ? describeError(job.error) : null;
+
+  return (
+    <div
+      className="relative bg-slate-900 rounded-2xl overflow-hidden border border-slate-800 border-dashed shadow-xl animate-fade-in-up"
+      aria-busy={job.status === 'running'}
+      aria-label={`${job.label}: ${job.status}`}
+      role="group"
+    >
+      <div className="aspect-square w-full bg-slate-950 flex flex-col items-center justify-center gap-3 text-slate-500 p-6 text-center">
+        {job.status === 'running' && <Spinner />}
+        {job.status === 'pending' && <span className="text-3xl opacity-50" aria-hidden="true">⏳</span>}
+        {job.status === 'failed' && <span className="text-3xl opacity-70" aria-hidden="true">⚠️</span>}
+        <p className="text-sm font-medium text-slate-300">{job.label}</p>
+        {error && (
+          <p className="text-xs text-red-300/80 line-clamp-3" title={error.detail}>
+            {error.title}. {error.hint}
+          </p>
+        )}
+      </div>
+
+      <div className="p-4">
+        <div className="flex items-center justify-between mb-2">
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded ${STATUS_STYLES[job.status]}`}>
+            {job.status}
+          </span>
+          <div className="flex gap-2">
+            {job.status === 'failed' && (
+              <button
+                onClick={() => onRetry(job.id)}
+                className="text-xs px-2 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-800"
+              >
+                Retry
+              </button>
+            )}
+            <button
+              onClick={() => onCancel(job.id)}
+              className="text-xs px-2 py-1 rounded border border-slate-700 text-slate-400 hover:border-red-500/60 hover:text-red-300"
+            >
+              {job.status === 'failed' ? 'Dismiss' : 'Cancel'}
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-slate-400 line-clamp-2" title={job.input.prompt}>
+          {job.input.prompt}
+        </p>
+      </div>
+    </div>
+  );
+};
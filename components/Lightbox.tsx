@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { GeneratedImage, ProjectLogo } from '../types';
+import { referenceRoleInfo } from '../services/referenceRoles';
+import { blendModeLabel } from '../services/compositor';
+import { itemAspectRatio, normalizeTags } from '../utils/gallery';
+
+interface LightboxProps {
+  items: GeneratedImage[];
+  index: number;
+  logos: ProjectLogo[]; // To show the source images of co-branded mockups
+  onIndexChange: (index: number) => void;
+  onToggleFavorite: (item: GeneratedImage) => void;
+  onUpdateTags: (item: GeneratedImage, tags: string[]) => void;
+  onDownload: (item: GeneratedImage) => void;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen viewer showing images uncropped at their own aspect ratio.
+ * Arrow keys step through the gallery, F stars, Escape closes.
+ */
+export const Lightbox: React.FC<LightboxProps> = ({
+  items, index, logos, onIndexChange, onToggleFavorite, onUpdateTags, onDownload, onClose,
+}) => {
+  const [tagDraft, setTagDraft] = useState('');
+  const item = items[index];
+  const hasPrev = index > 0;
+  const hasNext = index < items.length - 1;
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      // Leave keys alone while the tag field has focus.
+      if (event.target instanceof HTMLInputElement) return;
+      if (event.key === 'Escape') onClose();
+      else if (event.key === 'ArrowLeft' && hasPrev) onIndexChange(index - 1);
+      else if (event.key === 'ArrowRight' && hasNext) onIndexChange(index + 1);
+      else if (event.key.toLowerCase() === 'f' && item) onToggleFavorite(item);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [index, hasPrev, hasNext, item, onIndexChange, onToggleFavorite, onClose]);
+
+  if (!item) return null;
+
+  const addTags = () => {
+    const tags = normalizeTags([...(item.tags ?? []), ...tagDraft.split(',')]);
+    setTagDraft('');
+    if (tags.length !== (item.tags ?? []).length) onUpdateTags(item, tags);
+  };
+
+  const navButtonClass = "absolute top-1/2 -translate-y-1/2 w-12 h-12 rounded-full bg-black/50 text-white text-2xl hover:bg-black/70 disabled:opacity-0 transition-opacity";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/95 flex flex-col md:flex-row"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Image viewer"
+    >
+      <div className="relative flex-1 min-h-0 flex items-center justify-center p-4 md:p-8" onClick={onClose}>
+        <img
+          key={item.id}
+          src={item.url}
+          alt={item.prompt}
+          className="max-w-full max-h-full object-contain shadow-2xl animate-fade-in"
+          onClick={(e) => e.stopPropagation()}
+        />
+        <button
+          onClick={(e) => { e.stopPropagation(); onIndexChange(index - 1); }}
+          disabled={!hasPrev}
+          className={`${navButtonClass} left-4`}
+          aria-label="Previous image"
+        >
+          ‹
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onIndexChange(index + 1); }}
+          disabled={!hasNext}
+          className={`${navButtonClass} right-4`}
+          aria-label="Next image"
+        >
+          ›
+        </button>
+      </div>
+
+      <aside className="w-full md:w-80 shrink-0 bg-slate-900 border-t md:border-t-0 md:border-l border-slate-800 p-5 space-y-5 overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-500">{index + 1} / {items.length}</span>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-200 whitespace-pre-wrap break-words">{item.prompt}</p>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+          <dt className="text-slate-500">Model</dt>
+          <dd className="text-slate-300">{item.modelLabel ?? item.model ?? '—'}</dd>
+          <dt className="text-slate-500">Size</dt>
+          <dd className="text-slate-300">
+            {item.width && item.height ? `${item.width}×${item.height}` : '—'}
+            {itemAspectRatio(item) ? ` · ${itemAspectRatio(item)}` : ''}
+          </dd>
+          <dt className="text-slate-500">Created</dt>
+          <dd className="text-slate-300">{new Date(item.createdAt).toLocaleString()}</dd>
+          {item.enhancement && (
+            <>
+              <dt className="text-slate-500">Draft</dt>
+              <dd className="text-slate-300 whitespace-pre-wrap break-words">{item.enhancement.original}</dd>
+              <dt className="text-slate-500">Enhanced by</dt>
+              <dd className="text-slate-300">{item.enhancement.model}</dd>
+            </>
+          )}
+          {item.composite && (
+            <>
+              <dt className="text-slate-500">Base</dt>
+              <dd className="text-slate-300 truncate" title={item.composite.baseName}>{item.composite.baseName}</dd>
+              <dt className="text-slate-500">Placement</dt>
+              <dd className="text-slate-300">
+                {item.composite.placement.mode === 'perspective' ? 'Four corners' : `${Math.round(item.composite.placement.scale * 100)}% · ${item.composite.placement.rotation}°`}
+                {` · ${blendModeLabel(item.composite.placement.blendMode)} · ${Math.round(item.composite.placement.opacity * 100)}%`}
+              </dd>
+            </>
+          )}
+        </dl>
+
+        {item.sources && (
+          <div className="space-y-2">
+            <span className="block text-xs font-medium text-slate-400">Source images</span>
+            <ul className="space-y-1.5">
+              {item.sources.map(source => {
+                const logo = logos.find(l => l.id === source.logoId);
+                return (
+                  <li key={source.logoId} className="flex items-center gap-2 text-xs">
+                    <div className="w-9 h-9 shrink-0 rounded bg-slate-950 p-0.5">
+                      {logo && <img src={logo.url} alt={source.name} className="w-full h-full object-contain" />}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-slate-300 truncate">{source.name}</p>
+                      <p className="text-slate-500">{referenceRoleInfo(source.role).label}{logo ? '' : ' · removed'}</p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label htmlFor="lightbox-tags" className="block text-xs font-medium text-slate-400">Tags</label>
+          {item.tags && item.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {item.tags.map(tag => (
+                <span key={tag} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full bg-slate-800 text-xs text-slate-300">
+                  #{tag}
+                  <button
+                    onClick={() => onUpdateTags(item, item.tags!.filter(t => t !== tag))}
+                    className="px-1 text-slate-500 hover:text-white"
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <input
+            id="lightbox-tags"
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addTags();
+              if (e.key === 'Escape') (e.target as HTMLInputElement).blur();
+            }}
+            placeholder="Add tags, comma separated"
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onToggleFavorite(item)}
+            aria-pressed={Boolean(item.favorite)}
+            className={`flex-1 py-2 rounded-lg border text-sm transition-colors
+              ${item.favorite ? 'border-amber-400 bg-amber-400/15 text-amber-300' : 'border-slate-700 text-slate-300 hover:bg-slate-800'}`}
+          >
+            {item.favorite ? '★ Favorite' : '☆ Favorite'}
+          </button>
+          <button
+            onClick={() => onDownload(item)}
+            className="flex-1 py-2 rounded-lg bg-indigo-600 text-white text-sm hover:bg-indigo-500 transition-colors"
+          >
+            Download
+          </button>
+        </div>
+
+        <p className="text-[11px] text-slate-600">← → to browse · F to star · Esc to close</p>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GeneratedImage } from '../types';
+import { listLineage } from '../services/galleryStore';
+import { Spinner } from './Spinner';
+
+interface LineageViewProps {
+  rootId: string;
+  focusId: string;
+  /** Changes whenever the gallery changes, so new versions show up. */
+  refreshKey: number;
+  onBranch: (item: GeneratedImage) => void;
+  onClose: () => void;
+}
+
+/**
+ * Version tree of an asset: the original generation and every edit made
+ * from it. Selecting a node shows the chain of prompts that led there.
+ */
+export const LineageView: React.FC<LineageViewProps> = ({ rootId, focusId, refreshKey, onBranch, onClose }) => {
+  const [nodes, setNodes] = useState<GeneratedImage[] | null>(null);
+  const [selectedId, setSelectedId] = useState(focusId);
+
+  // Object URLs of the nodes on screen; replaced only once a reload lands.
+  const shownUrls = useRef<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listLineage(rootId)
+      .then(result => {
+        if (cancelled) {
+          result.forEach(node => URL.revokeObjectURL(node.url));
+          return;
+        }
+        shownUrls.current.forEach(url => URL.revokeObjectURL(url));
+        shownUrls.current = result.map(node => node.url);
+        setNodes(result);
+      })
+      .catch(err => {
+        console.error("Failed to load lineage:", err);
+        if (!cancelled) setNodes([]);
+      });
+    return () => { cancelled = true; };
+  }, [rootId, refreshKey]);
+
+  useEffect(() => () => {
+    shownUrls.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const byId = new Map<string, GeneratedImage>((nodes ?? []).map(node => [node.id, node]));
+  const childrenOf = (id: string) => (nodes ?? []).filter(node => node.parentId === id);
+
+  const chain: GeneratedImage[] = [];
+  for (let node = byId.get(selectedId); node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    chain.unshift(node);
+  }
+  const selected = byId.get(selectedId);
+
+  const renderNode = (node: GeneratedImage, depth: number): React.ReactNode => (
+    <li key={node.id}>
+      <button
+        onClick={() => setSelectedId(node.id)}
+        className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors
+          ${node.id === selectedId ? 'bg-indigo-500/20 ring-1 ring-indigo-500' : 'hover:bg-slate-800'}`}
+        style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+        aria-current={node.id === selectedId}
+      >
+        {depth > 0 && <span className="text-slate-600">↳</span>}
+        <img src={node.url} alt="" className="w-12 h-12 object-cover rounded bg-slate-950 shrink-0" />
+        <span className="text-xs text-slate-300 line-clamp-2">{node.prompt}</span>
+      </button>
+      {childrenOf(node.id).length > 0 && (
+        <ul>{childrenOf(node.id).map(child => renderNode(child, depth + 1))}</ul>
+      )}
+    </li>
+  );
+
+  const root = byId.get(rootId);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl h-[85vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="lineage-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <h3 id="lineage-title" className="text-lg font-semibold text-white">
+            Version history {nodes && <span className="text-sm font-normal text-slate-500">· {nodes.length} versions</span>}
+          </h3>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {!nodes ? (
+          <div className="flex-1 flex items-center justify-center"><Spinner /></div>
+        ) : !root ? (
+          <div className="flex-1 flex items-center justify-center text-slate-500 text-sm">
+            The original image has been deleted.
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 grid md:grid-cols-[320px_1fr]">
+            <ul className="overflow-y-auto p-3 border-r border-slate-800 space-y-1">
+              {renderNode(root, 0)}
+            </ul>
+
+            <div className="overflow-y-auto p-5 space-y-5">
+              {selected && (
+                <>
+                  <div className="bg-slate-950 rounded-xl flex items-center justify-center">
+                    <img src={selected.url} alt={selected.prompt} className="max-h-[40vh] object-contain" />
+                  </div>
+                  <div>
+                    <h4 className="text-sm font-semibold text-slate-300 mb-2">Prompt chain</h4>
+                    <ol className="space-y-2">
+                      {chain.map((node, index) => (
+                        <li key={node.id} className="flex gap-3 text-sm">
+                          <span className="w-6 h-6 rounded-full bg-slate-800 text-slate-400 text-xs flex items-center justify-center shrink-0">
+                            {index + 1}
+                          </span>
+                          <span className={node.id === selectedId ? 'text-white' : 'text-slate-400'}>{node.prompt}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                  <button
+                    onClick={() => onBranch(selected)}
+                    className="px-4 py-2 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-500"
+                  >
+                    Branch from this version
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
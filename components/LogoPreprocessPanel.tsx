@@ -0,0 +1,122 @@
+import React from 'react';
+import { AspectRatio } from '../types';
+import { BackgroundRemoval, PreprocessOptions, PreprocessResult } from '../services/logoPreprocessor';
+import { Spinner } from './Spinner';
+
+interface LogoPreprocessPanelProps {
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+  originalUrl: string | null;
+  result: PreprocessResult | null;
+  isProcessing: boolean;
+}
+
+// Checkerboard so transparent areas are visible in the previews.
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundColor: '#1e293b',
+  backgroundImage: 'conic-gradient(#334155 25%, transparent 0 50%, #334155 0 75%, transparent 0)',
+  backgroundSize: '16px 16px',
+};
+
+const MAX_DIMENSIONS = [
+  { value: 512, label: '512 px' },
+  { value: 1024, label: '1024 px' },
+  { value: 1536, label: '1536 px' },
+  { value: 2048, label: '2048 px' },
+  { value: 0, label: 'Original' },
+];
+
+const BACKGROUND_MODES: { value: BackgroundRemoval; label: string }[] = [
+  { value: 'none', label: 'Keep' },
+  { value: 'flood-fill', label: 'Flood fill' },
+  { value: 'color-key', label: 'Color key' },
+];
+
+const selectClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+export const LogoPreprocessPanel: React.FC<LogoPreprocessPanelProps> = ({ options, onChange, originalUrl, result, isProcessing }) => {
+  const set = <K extends keyof PreprocessOptions>(key: K, value: PreprocessOptions[K]) => onChange({ ...options, [key]: value });
+
+  return (
+    <details className="rounded-xl border border-slate-700 bg-slate-800/30 group/pre" open>
+      <summary className="px-4 py-3 cursor-pointer text-sm font-medium text-slate-300 flex items-center justify-between">
+        <span>Logo preprocessing</span>
+        <span className="flex items-center gap-2 text-xs text-slate-500">
+          {isProcessing && <Spinner />}
+          {result ? `${result.width}×${result.height} PNG` : ''}
+        </span>
+      </summary>
+
+      <div className="px-4 pb-4 space-y-4">
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={options.enabled} onChange={(e) => set('enabled', e.target.checked)} className="accent-indigo-500" />
+          Clean up logo before sending
+        </label>
+
+        <div className={`grid grid-cols-2 gap-3 text-xs text-slate-400 ${options.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+          <label className="flex flex-col gap-1">
+            Max size
+            <select value={options.maxDimension} onChange={(e) => set('maxDimension', Number(e.target.value))} className={selectClass}>
+              {MAX_DIMENSIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Pad to ratio
+            <select value={options.padToAspect} onChange={(e) => set('padToAspect', e.target.value as PreprocessOptions['padToAspect'])} className={selectClass}>
+              <option value="none">No padding</option>
+              {Object.values(AspectRatio).map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Background
+            <select value={options.background} onChange={(e) => set('background', e.target.value as BackgroundRemoval)} className={selectClass}>
+              {BACKGROUND_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Tolerance {options.tolerance}
+            <input
+              type="range"
+              min={0}
+              max={60}
+              value={options.tolerance}
+              onChange={(e) => set('tolerance', Number(e.target.value))}
+              className="accent-indigo-500 mt-2"
+            />
+          </label>
+          <label className="col-span-2 flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={options.trimMargins} onChange={(e) => set('trimMargins', e.target.checked)} className="accent-indigo-500" />
+            Trim empty margins
+          </label>
+        </div>
+
+        {originalUrl && (
+          <div className="grid grid-cols-2 gap-3">
+            <figure>
+              <div className="h-28 rounded-lg flex items-center justify-center overflow-hidden" style={CHECKERBOARD}>
+                <img src={originalUrl} alt="Original logo" className="max-h-full max-w-full object-contain" />
+              </div>
+              <figcaption className="text-[11px] text-slate-500 mt-1">
+                Before{result ? ` · ${result.originalWidth}×${result.originalHeight}` : ''}
+              </figcaption>
+            </figure>
+            <figure>
+              <div className="h-28 rounded-lg flex items-center justify-center overflow-hidden" style={CHECKERBOARD}>
+                {result && <img src={result.dataUrl} alt="Processed logo" className="max-h-full max-w-full object-contain" />}
+              </div>
+              <figcaption className="text-[11px] text-slate-500 mt-1">
+                After{result ? ` · ${result.width}×${result.height}` : ''}
+              </figcaption>
+            </figure>
+          </div>
+        )}
+
+        {result && result.steps.length > 0 && (
+          <ul className="text-[11px] text-slate-500 list-disc list-inside">
+            {result.steps.map(step => <li key={step}>{step}</li>)}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+};
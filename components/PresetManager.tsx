@@ -0,0 +1,206 @@
+import React, { useState, useRef } from 'react';
+import { MockupPreset } from '../types';
+import { exportPresets, extractPlaceholders } from '../services/presetLibrary';
+import { usePresetLibrary } from '../hooks/usePresetLibrary';
+import { downloadBlob } from '../utils/download';
+
+interface PresetManagerProps {
+  library: ReturnType<typeof usePresetLibrary>;
+  onClose: () => void;
+}
+
+type PresetDraft = Pick<MockupPreset, 'name' | 'icon' | 'promptTemplate'>;
+
+const EMPTY_DRAFT: PresetDraft = { name: '', icon: '📦', promptTemplate: '' };
+
+/**
+ * Modal for creating, editing, reordering and sharing mockup presets.
+ */
+export const PresetManager: React.FC<PresetManagerProps> = ({ library, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PresetDraft>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const startEdit = (preset: MockupPreset) => {
+    setEditingId(preset.id);
+    setDraft({ name: preset.name, icon: preset.icon, promptTemplate: preset.promptTemplate });
+  };
+
+  const startCreate = () => {
+    setEditingId('new');
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const saveDraft = () => {
+    if (!draft.name.trim() || !draft.promptTemplate.trim()) return;
+    const clean = { name: draft.name.trim(), icon: draft.icon.trim() || '📦', promptTemplate: draft.promptTemplate.trim() };
+    if (editingId === 'new') {
+      library.createPreset(clean);
+    } else if (editingId) {
+      library.updatePreset(editingId, clean);
+    }
+    setEditingId(null);
+  };
+
+  const handleExport = () => {
+    const json = exportPresets(library.presets);
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'mockupai-presets.json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = library.importPresets(await file.text());
+      setMessage({ text: `Imported ${count} preset${count === 1 ? '' : 's'}.`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : "Import failed.", isError: true });
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="p-4 rounded-xl border border-indigo-500/50 bg-slate-900 space-y-3">
+      <div className="flex gap-3">
+        <input
+          value={draft.icon}
+          onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+          className="w-14 bg-slate-950 border border-slate-700 rounded-lg p-2 text-center text-xl outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Icon"
+          maxLength={4}
+        />
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Preset name, e.g. Baseball Cap"
+          className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+      <textarea
+        value={draft.promptTemplate}
+        onChange={(e) => setDraft({ ...draft, promptTemplate: e.target.value })}
+        placeholder="A {color} baseball cap with this logo embroidered on the front, on a {background} background."
+        className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500 resize-none h-24"
+      />
+      <p className="text-xs text-slate-500">
+        Use <code className="text-slate-300">{'{name}'}</code> placeholders for values you fill in before generating.
+        {extractPlaceholders(draft.promptTemplate).length > 0 && (
+          <> Fields: {extractPlaceholders(draft.promptTemplate).join(', ')}</>
+        )}
+      </p>
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditingId(null)} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-slate-200">
+          Cancel
+        </button>
+        <button
+          onClick={saveDraft}
+          disabled={!draft.name.trim() || !draft.promptTemplate.trim()}
+          className="px-3 py-1.5 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40"
+        >
+          Save preset
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="preset-manager-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <h3 id="preset-manager-title" className="text-lg font-semibold text-white">Preset Library</h3>
+          <div className="flex gap-2">
+            <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+            <button onClick={() => importInputRef.current?.click()} className="px-3 py-1.5 text-sm rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800">
+              Import
+            </button>
+            <button onClick={handleExport} className="px-3 py-1.5 text-sm rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800">
+              Export
+            </button>
+            <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div className={`mx-5 mt-4 px-3 py-2 rounded-lg text-sm ${message.isError ? 'bg-red-900/40 text-red-200' : 'bg-emerald-900/40 text-emerald-200'}`}>
+            {message.text}
+          </div>
+        )}
+
+        <div className="p-5 overflow-y-auto space-y-2">
+          {library.presets.map((preset, index) => (
+            editingId === preset.id ? (
+              <React.Fragment key={preset.id}>{renderEditor()}</React.Fragment>
+            ) : (
+              <div key={preset.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-800 bg-slate-800/40">
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => library.movePreset(preset.id, -1)}
+                    disabled={index === 0}
+                    className="text-slate-500 hover:text-slate-200 disabled:opacity-20 text-xs leading-none"
+                    aria-label={`Move ${preset.name} up`}
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => library.movePreset(preset.id, 1)}
+                    disabled={index === library.presets.length - 1}
+                    className="text-slate-500 hover:text-slate-200 disabled:opacity-20 text-xs leading-none"
+                    aria-label={`Move ${preset.name} down`}
+                  >
+                    ▼
+                  </button>
+                </div>
+                <span className="text-2xl">{preset.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-200 flex items-center gap-2">
+                    {preset.name}
+                    {preset.builtIn && (
+                      <span className="text-[10px] uppercase tracking-wider px-1.5 py-0.5 rounded bg-slate-700 text-slate-400">Built-in</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-slate-500 truncate" title={preset.promptTemplate}>{preset.promptTemplate}</p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {!preset.builtIn && (
+                    <button onClick={() => startEdit(preset)} className="px-2 py-1 text-xs rounded border border-slate-700 text-slate-300 hover:bg-slate-700">
+                      Edit
+                    </button>
+                  )}
+                  <button onClick={() => library.duplicatePreset(preset.id)} className="px-2 py-1 text-xs rounded border border-slate-700 text-slate-300 hover:bg-slate-700">
+                    Duplicate
+                  </button>
+                  {!preset.builtIn && (
+                    <button
+                      onClick={() => library.deletePreset(preset.id)}
+                      className="px-2 py-1 text-xs rounded border border-slate-700 text-slate-400 hover:border-red-500/60 hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          ))}
+
+          {editingId === 'new' ? renderEditor() : (
+            <button
+              onClick={startCreate}
+              className="w-full p-3 rounded-xl border-2 border-dashed border-slate-700 text-slate-400 text-sm hover:border-indigo-500 hover:text-indigo-300 transition-colors"
+            >
+              + New preset
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useProjects } from '../hooks/useProjects';
+import { downloadBlob } from '../utils/download';
+import { Spinner } from './Spinner';
+
+interface ProjectSwitcherProps {
+  library: ReturnType<typeof useProjects>;
+  onError: (title: string, error: unknown) => void;
+  onNotice: (title: string) => void;
+}
+
+const archiveFilename = (name: string) =>
+  `${name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'project'}.mockupai.zip`;
+
+/**
+ * Sidebar header dropdown for switching, creating, renaming, deleting and
+ * archiving projects.
+ */
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ library, onError, onNotice }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Inline name field: creating a new project or renaming the active one.
+  const [naming, setNaming] = useState<'new' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const active = library.activeProject;
+
+  const close = () => {
+    setIsOpen(false);
+    setNaming(null);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // The sidebar header is blurred, which traps a fixed backdrop inside it,
+    // so outside clicks are detected on the document instead.
+    const onPointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) close();
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isOpen]);
+
+  const startNaming = (kind: 'new' | 'rename') => {
+    setNaming(kind);
+    setName(kind === 'rename' ? active?.name ?? '' : '');
+  };
+
+  const run = async (title: string, action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      onError(title, err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const submitName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (naming === 'rename' && active) {
+      library.updateProject(active.id, { name: trimmed });
+      close();
+      return;
+    }
+    run("Couldn't create project", async () => {
+      await library.createProject(trimmed);
+      close();
+    });
+  };
+
+  const handleDelete = () => {
+    if (!active) return;
+    if (!window.confirm(`Delete "${active.name}" with all of its images and logos? This cannot be undone.`)) return;
+    run("Couldn't delete project", async () => {
+      await library.removeProject(active.id);
+      close();
+    });
+  };
+
+  const handleExport = () => {
+    if (!active) return;
+    run("Couldn't export project", async () => {
+      downloadBlob(await library.exportArchive(active.id), archiveFilename(active.name));
+    });
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    run("Couldn't import project", async () => {
+      const project = await library.importArchive(file);
+      onNotice(`Imported "${project.name}"`);
+      close();
+    });
+  };
+
+  const menuItemClass = "w-full text-left px-3 py-2 text-sm rounded-lg text-slate-300 hover:bg-slate-800 disabled:opacity-40";
+
+  return (
+    <div ref={containerRef} className="relative min-w-0">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center gap-1.5 max-w-full px-2 py-1 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+        title="Switch project"
+      >
+        <span className="truncate">{active?.name ?? 'Loading…'}</span>
+        <svg className="w-3.5 h-3.5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div role="menu" className="absolute right-0 top-full mt-2 z-30 w-72 p-2 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl space-y-1">
+          <div className="max-h-60 overflow-y-auto space-y-1">
+            {library.projects.map(project => (
+              <button
+                key={project.id}
+                role="menuitemradio"
+                aria-checked={project.id === active?.id}
+                onClick={() => { library.switchProject(project.id); close(); }}
+                className={`${menuItemClass} flex items-center justify-between ${project.id === active?.id ? 'bg-slate-800 text-white' : ''}`}
+              >
+                <span className="truncate">{project.name}</span>
+                {project.id === active?.id && <span className="text-indigo-400">✓</span>}
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-slate-800 pt-1 space-y-1">
+            {naming ? (
+              <form
+                className="flex gap-2 p-1"
+                onSubmit={(e) => { e.preventDefault(); submitName(); }}
+              >
+                <input
+                  autoFocus
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={naming === 'new' ? 'Client or brand name' : 'Project name'}
+                  aria-label={naming === 'new' ? 'New project name' : 'Rename project'}
+                  className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <button type="submit" disabled={!name.trim() || isBusy} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-sm disabled:opacity-40">
+                  {naming === 'new' ? 'Create' : 'Save'}
+                </button>
+              </form>
+            ) : (
+              <>
+                <button role="menuitem" onClick={() => startNaming('new')} className={menuItemClass}>New project…</button>
+                <button role="menuitem" onClick={() => startNaming('rename')} disabled={!active} className={menuItemClass}>Rename…</button>
+              </>
+            )}
+            <button role="menuitem" onClick={handleExport} disabled={!active || isBusy} className={menuItemClass}>Export archive</button>
+            <button role="menuitem" onClick={() => importInputRef.current?.click()} disabled={isBusy} className={menuItemClass}>Import archive…</button>
+            <button
+              role="menuitem"
+              onClick={handleDelete}
+              disabled={!active || library.projects.length <= 1 || isBusy}
+              className={`${menuItemClass} hover:text-red-300`}
+            >
+              Delete project
+            </button>
+            {isBusy && (
+              <div className="flex items-center gap-2 px-3 py-1 text-xs text-slate-500"><Spinner /> Working…</div>
+            )}
+          </div>
+          <input ref={importInputRef} type="file" accept=".zip,application/zip" onChange={handleImport} className="hidden" />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { PromptComposition, PromptModifierCategory } from '../types';
+import { PROMPT_MODIFIER_GROUPS, normalizeAvoidList } from '../services/promptComposer';
+
+interface PromptComposerProps {
+  composition: PromptComposition;
+  onChange: (composition: PromptComposition) => void;
+  subjectLabel: React.ReactNode;
+  subjectPlaceholder: string;
+  subjectAction?: React.ReactNode; // Shown beside the subject label
+  preview: string; // Compiled prompt, shown exactly as it will be sent
+  accent: 'indigo' | 'pink';
+}
+
+const ACCENTS = {
+  indigo: { ring: 'focus:ring-indigo-500', chip: 'border-indigo-500 bg-indigo-500/20 text-white' },
+  pink: { ring: 'focus:ring-pink-500', chip: 'border-pink-500 bg-pink-500/20 text-white' },
+};
+
+export const PromptComposer: React.FC<PromptComposerProps> = ({
+  composition, onChange, subjectLabel, subjectPlaceholder, subjectAction, preview, accent,
+}) => {
+  const [avoidDraft, setAvoidDraft] = useState('');
+  const colors = ACCENTS[accent];
+
+  const toggleModifier = (category: PromptModifierCategory, phrase: string) => {
+    const modifiers = { ...composition.modifiers };
+    if (modifiers[category] === phrase) {
+      delete modifiers[category];
+    } else {
+      modifiers[category] = phrase;
+    }
+    onChange({ ...composition, modifiers });
+  };
+
+  const addAvoid = () => {
+    // Commas let several terms be pasted in at once.
+    const terms = avoidDraft.split(',');
+    onChange({ ...composition, avoid: normalizeAvoidList([...composition.avoid, ...terms]) });
+    setAvoidDraft('');
+  };
+
+  const removeAvoid = (term: string) => {
+    onChange({ ...composition, avoid: composition.avoid.filter(t => t !== term) });
+  };
+
+  const hasChips = Object.values(composition.modifiers).some(Boolean) || composition.avoid.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between gap-3 mb-2">
+          <label htmlFor="composer-subject" className="block text-sm font-medium text-slate-300">{subjectLabel}</label>
+          {subjectAction}
+        </div>
+        <textarea
+          id="composer-subject"
+          value={composition.subject}
+          onChange={(e) => onChange({ ...composition, subject: e.target.value })}
+          placeholder={subjectPlaceholder}
+          className={`w-full bg-slate-900 border border-slate-700 rounded-xl p-3 text-sm text-white focus:ring-2 ${colors.ring} focus:border-transparent outline-none transition-all resize-none h-24`}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-slate-300">Modifiers</span>
+          {hasChips && (
+            <button
+              onClick={() => onChange({ ...composition, modifiers: {}, avoid: [] })}
+              className="text-xs text-slate-500 hover:text-slate-300"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+        {PROMPT_MODIFIER_GROUPS.map(group => (
+          <div key={group.category} className="flex items-start gap-3">
+            <span className="w-20 pt-1 text-xs text-slate-500 shrink-0">{group.label}</span>
+            <div className="flex flex-wrap gap-1.5" role="group" aria-label={group.label}>
+              {group.options.map(option => {
+                const isActive = composition.modifiers[group.category] === option.phrase;
+                return (
+                  <button
+                    key={option.label}
+                    onClick={() => toggleModifier(group.category, option.phrase)}
+                    aria-pressed={isActive}
+                    title={option.phrase}
+                    className={`px-2.5 py-1 rounded-full border text-xs transition-colors
+                      ${isActive ? colors.chip : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-600 hover:text-slate-200'}`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-start gap-3">
+          <label htmlFor="composer-avoid" className="w-20 pt-1.5 text-xs text-slate-500 shrink-0">Avoid</label>
+          <div className="flex-1 space-y-2">
+            <input
+              id="composer-avoid"
+              value={avoidDraft}
+              onChange={(e) => setAvoidDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addAvoid();
+                }
+              }}
+              onBlur={() => avoidDraft.trim() && addAvoid()}
+              placeholder="e.g. text, watermarks — press Enter"
+              className={`w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-white focus:ring-2 ${colors.ring} focus:border-transparent outline-none`}
+            />
+            {composition.avoid.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {composition.avoid.map(term => (
+                  <span key={term} className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full bg-red-900/30 border border-red-800/50 text-xs text-red-200">
+                    {term}
+                    <button onClick={() => removeAvoid(term)} className="px-1 text-red-300 hover:text-white" aria-label={`Remove ${term}`}>×</button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="p-3 rounded-xl bg-slate-950/60 border border-slate-800">
+          <span className="block text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1">Final prompt</span>
+          <p className="text-xs text-slate-300 whitespace-pre-wrap break-words">{preview}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { ProjectLogo, ReferenceRole } from '../types';
+import { REFERENCE_ROLES } from '../services/referenceRoles';
+
+export interface ReferenceSlot {
+  logoId: string;
+  role: ReferenceRole;
+}
+
+interface ReferenceImagesPanelProps {
+  slots: ReferenceSlot[];
+  logos: ProjectLogo[]; // The project's uploads; every slot points at one of them
+  maxImages: number;
+  problems: string[];
+  onUpload: (file: File) => void;
+  onAdd: (logoId: string) => void;
+  onRoleChange: (index: number, role: ReferenceRole) => void;
+  onRemove: (index: number) => void;
+}
+
+const selectClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+/**
+ * Reference images for a co-branded mockup, each tagged with the role it
+ * plays. Images come from the project's logos or a new upload.
+ */
+export const ReferenceImagesPanel: React.FC<ReferenceImagesPanelProps> = ({
+  slots, logos, maxImages, problems, onUpload, onAdd, onRoleChange, onRemove,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isFull = slots.length >= maxImages;
+  const unused = logos.filter(logo => !slots.some(slot => slot.logoId === logo.id));
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    Array.from(event.target.files ?? []).forEach(file => onUpload(file));
+    event.target.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-slate-300">
+        Reference Images <span className="text-slate-500 text-xs font-normal">({slots.length} of {maxImages})</span>
+      </label>
+
+      {slots.length > 0 && (
+        <ul className="space-y-2">
+          {slots.map((slot, index) => {
+            const logo = logos.find(l => l.id === slot.logoId);
+            return (
+              <li key={slot.logoId} className="flex items-center gap-3 p-2 rounded-xl border border-slate-700 bg-slate-800/50">
+                <div className="w-14 h-14 shrink-0 rounded-lg bg-slate-950 p-1">
+                  {logo && <img src={logo.url} alt={logo.name} className="w-full h-full object-contain" />}
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-xs text-slate-400 truncate" title={logo?.name}>{logo?.name ?? 'Missing image'}</p>
+                  <select
+                    value={slot.role}
+                    onChange={(e) => onRoleChange(index, e.target.value as ReferenceRole)}
+                    aria-label={`Role of ${logo?.name ?? 'image'}`}
+                    className={`${selectClass} w-full`}
+                  >
+                    {REFERENCE_ROLES.map(info => <option key={info.role} value={info.role}>{info.label}</option>)}
+                  </select>
+                </div>
+                <button
+                  onClick={() => onRemove(index)}
+                  className="px-2 py-1 text-slate-500 hover:text-red-300"
+                  aria-label={`Remove ${logo?.name ?? 'image'}`}
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isFull}
+          className="px-3 py-2 rounded-lg border border-dashed border-slate-600 text-sm text-slate-300 hover:border-slate-400 hover:bg-slate-800 disabled:opacity-40 transition-colors"
+        >
+          + Upload image
+        </button>
+        {unused.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onAdd(e.target.value)}
+            disabled={isFull}
+            aria-label="Add a project logo"
+            className={`${selectClass} disabled:opacity-40`}
+          >
+            <option value="">Add from project…</option>
+            {unused.map(logo => <option key={logo.id} value={logo.id}>{logo.name}</option>)}
+          </select>
+        )}
+        <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleFile} className="hidden" />
+      </div>
+
+      {slots.length > 0 && problems.length > 0 && (
+        <ul className="text-xs text-amber-300/90 space-y-0.5">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
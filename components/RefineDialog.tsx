@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+
+interface RefineDialogProps {
+  item: GeneratedImage;
+  imageUrl: string;
+  canEdit: boolean;
+  onSubmit: (instruction: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = [
+  'Make the product blue',
+  'Add steam rising from it',
+  'Change the background to a marble countertop',
+  'Use softer, warmer lighting',
+  'Zoom out to show more of the scene',
+];
+
+/**
+ * Collects a follow-up instruction for editing an existing gallery image.
+ */
+export const RefineDialog: React.FC<RefineDialogProps> = ({ item, imageUrl, canEdit, onSubmit, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const submit = () => {
+    if (!instruction.trim() || !canEdit) return;
+    onSubmit(instruction.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="refine-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <h3 id="refine-title" className="text-lg font-semibold text-white">Edit further</h3>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="flex gap-4">
+            <img src={imageUrl} alt={item.prompt} className="w-28 h-28 object-contain rounded-lg bg-slate-950 shrink-0" />
+            <div className="min-w-0">
+              <p className="text-xs uppercase tracking-wider text-slate-500 mb-1">Current version</p>
+              <p className="text-sm text-slate-300 line-clamp-4">{item.prompt}</p>
+            </div>
+          </div>
+
+          <textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit(); }}
+            placeholder="Describe the change, e.g. 'make the mug blue'"
+            autoFocus
+            className="w-full bg-slate-950 border border-slate-700 rounded-xl p-3 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-none h-24"
+          />
+
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(suggestion => (
+              <button
+                key={suggestion}
+                onClick={() => setInstruction(suggestion)}
+                className="text-xs px-3 py-1 rounded-full border border-slate-700 text-slate-400 hover:border-indigo-500 hover:text-indigo-300"
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+
+          {!canEdit && (
+            <p className="text-xs text-amber-300">The selected provider can't edit images. Switch providers to refine.</p>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg text-slate-400 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={submit}
+            disabled={!instruction.trim() || !canEdit}
+            className="px-4 py-2 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40"
+          >
+            ✨ Generate new version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
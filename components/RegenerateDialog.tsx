@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { AppMode, AspectRatio, GeneratedImage, GenerationSettings } from '../types';
+import { getProvider, hasProvider, listProviders } from '../services/providers/registry';
+
+interface RegenerateDialogProps {
+  item: GeneratedImage;
+  settings: GenerationSettings;
+  onSubmit: (settings: GenerationSettings) => void;
+  onClose: () => void;
+}
+
+/**
+ * Re-runs a gallery item's request after editing the exact prompt and the
+ * settings that can change without going back to the sidebar.
+ */
+export const RegenerateDialog: React.FC<RegenerateDialogProps> = ({ item, settings, onSubmit, onClose }) => {
+  const [prompt, setPrompt] = useState(settings.prompt);
+  const [providerId, setProviderId] = useState(hasProvider(settings.providerId) ? settings.providerId : listProviders()[0].id);
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(settings.aspectRatio ?? AspectRatio.SQUARE);
+  const [numberOfImages, setNumberOfImages] = useState(settings.numberOfImages ?? 1);
+  const capabilities = getProvider(providerId).capabilities;
+  const isGeneration = settings.mode === AppMode.IMAGE_GEN;
+  const variantCount = Math.min(numberOfImages, capabilities.maxImagesPerRequest);
+  const ratio = capabilities.aspectRatios.includes(aspectRatio) ? aspectRatio : capabilities.aspectRatios[0];
+
+  const submit = () => {
+    if (!prompt.trim()) return;
+    onSubmit({
+      ...settings,
+      providerId,
+      prompt: prompt.trim(),
+      ...(isGeneration ? { aspectRatio: ratio, numberOfImages: variantCount } : {}),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="regenerate-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <h3 id="regenerate-title" className="text-lg font-semibold text-white">Regenerate with tweaks</h3>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="flex gap-4 items-start">
+            <img src={item.url} alt={item.prompt} className="w-20 h-20 object-contain rounded-lg bg-slate-950 shrink-0" />
+            <p className="text-xs text-slate-500">
+              Runs the recorded request again with your changes. The result is added alongside the original.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="regenerate-prompt" className="block text-sm font-medium text-slate-300 mb-2">Prompt</label>
+            <textarea
+              id="regenerate-prompt"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit(); }}
+              autoFocus
+              className="w-full bg-slate-950 border border-slate-700 rounded-xl p-3 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-none h-32"
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label htmlFor="regenerate-provider" className="text-sm font-medium text-slate-300 w-24 shrink-0">Provider</label>
+            <select
+              id="regenerate-provider"
+              value={providerId}
+              onChange={(e) => setProviderId(e.target.value)}
+              className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {listProviders().map(p => (
+                <option key={p.id} value={p.id} disabled={!p.isAvailable()}>
+                  {p.name}{p.isAvailable() ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {isGeneration && (
+            <>
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium text-slate-300 w-24 shrink-0">Aspect ratio</span>
+                <div className="flex flex-wrap gap-2">
+                  {capabilities.aspectRatios.map(value => (
+                    <button
+                      key={value}
+                      onClick={() => setAspectRatio(value)}
+                      aria-pressed={ratio === value}
+                      className={`px-3 py-1.5 rounded-lg border text-xs font-medium transition-all
+                        ${ratio === value ? 'border-pink-500 bg-pink-500/20 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium text-slate-300 w-24 shrink-0">Variants</span>
+                <div className="flex gap-2">
+                  {Array.from({ length: capabilities.maxImagesPerRequest }, (_, i) => i + 1).map(count => (
+                    <button
+                      key={count}
+                      onClick={() => setNumberOfImages(count)}
+                      aria-pressed={variantCount === count}
+                      className={`w-9 py-1.5 rounded-lg border text-xs font-medium transition-all
+                        ${variantCount === count ? 'border-pink-500 bg-pink-500/20 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {settings.mode === AppMode.MOCKUP && !item.input && (
+            <p className="text-xs text-amber-300">This mockup predates input tracking, so it can't be re-run. Copy its settings to the panel instead.</p>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-slate-800 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white">Cancel</button>
+          <button
+            onClick={submit}
+            disabled={!prompt.trim() || (settings.mode === AppMode.MOCKUP && !item.input)}
+            className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-500 disabled:opacity-40 transition-colors"
+          >
+            Regenerate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
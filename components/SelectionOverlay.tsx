@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface SelectionOverlayProps {
+  isSelected: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * Click target covering a gallery card while the gallery is in selection mode.
+ */
+export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({ isSelected, onToggle }) => (
+  <button
+    onClick={onToggle}
+    role="checkbox"
+    aria-checked={isSelected}
+    aria-label={isSelected ? 'Deselect' : 'Select'}
+    className={`absolute inset-0 flex items-start justify-start p-3 transition-colors ${isSelected ? 'bg-indigo-500/20' : 'bg-black/20 hover:bg-black/10'}`}
+  >
+    <span className={`w-6 h-6 rounded-md border-2 flex items-center justify-center text-sm font-bold
+      ${isSelected ? 'bg-indigo-500 border-indigo-500 text-white' : 'border-white/80 bg-black/30'}`}>
+      {isSelected && '✓'}
+    </span>
+  </button>
+);
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface SettingsActionsProps {
+  onRegenerate: () => void;
+  onTweak: () => void;
+  onCopySettings: () => void;
+}
+
+/**
+ * Card footer actions that reproduce an item from its recorded settings.
+ */
+export const SettingsActions: React.FC<SettingsActionsProps> = ({ onRegenerate, onTweak, onCopySettings }) => (
+  <div className="flex items-center gap-3 mt-3 pt-3 border-t border-slate-800 text-xs">
+    <button onClick={onRegenerate} className="text-indigo-400 hover:text-indigo-300" title="Run the same request again">
+      ↻ Regenerate
+    </button>
+    <button onClick={onTweak} className="text-slate-400 hover:text-slate-200" title="Change the prompt or settings, then run">
+      With tweaks
+    </button>
+    <button onClick={onCopySettings} className="ml-auto text-slate-400 hover:text-slate-200" title="Load these settings into the sidebar">
+      Copy settings
+    </button>
+  </div>
+);
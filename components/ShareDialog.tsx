@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface ShareDialogProps {
+  link: string;
+  logoName: string | null;
+  onDownloadSetup: () => Promise<void>;
+  onOpenSetup: (file: File) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Hands the current setup to someone else: as a link (settings only), or
+ * as a setup file that also carries the logo and any custom presets.
+ */
+export const ShareDialog: React.FC<ShareDialogProps> = ({ link, logoName, onDownloadSetup, onOpenSetup, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const openInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      // Clipboard access denied; the link is selectable in the field.
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleOpen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) run(() => onOpenSetup(file));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <h3 id="share-title" className="text-lg font-semibold text-white">Share setup</h3>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6">
+          <div>
+            <label htmlFor="share-link" className="block text-sm font-medium text-slate-300 mb-1">Link</label>
+            <p className="text-xs text-slate-500 mb-2">Mode, presets, prompt and options. The logo isn't included.</p>
+            <div className="flex gap-2">
+              <input
+                id="share-link"
+                readOnly
+                value={link}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-300 focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <button
+                onClick={handleCopy}
+                className="px-3 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-500 transition-colors shrink-0"
+              >
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-slate-300 mb-1">Setup file</h4>
+            <p className="text-xs text-slate-500 mb-3">
+              {logoName
+                ? <>Everything in the link plus the logo ({logoName}), its preprocessing and any custom presets in use.</>
+                : <>Everything in the link plus any custom presets in use. Upload a logo first to include it.</>}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => run(onDownloadSetup)}
+                disabled={isBusy}
+                className="px-3 py-2 rounded-lg border border-slate-700 text-slate-200 text-sm hover:bg-slate-800 disabled:opacity-40 transition-colors"
+              >
+                Download setup file
+              </button>
+              <button
+                onClick={() => openInputRef.current?.click()}
+                disabled={isBusy}
+                className="px-3 py-2 rounded-lg border border-slate-700 text-slate-300 text-sm hover:bg-slate-800 disabled:opacity-40 transition-colors"
+              >
+                Open a setup file…
+              </button>
+              <input type="file" ref={openInputRef} onChange={handleOpen} accept="application/json,.json" className="hidden" />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React, { useEffect } from 'react';
+
+interface ShortcutsDialogProps {
+  shortcuts: { keys: string; description: string }[];
+  onClose: () => void;
+}
+
+/**
+ * Reference card for the studio's keyboard shortcuts, opened with "?".
+ */
+export const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({ shortcuts, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between">
+          <h3 id="shortcuts-title" className="text-lg font-semibold text-white">Keyboard shortcuts</h3>
+          <button onClick={onClose} autoFocus className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <dl className="p-5 space-y-2 overflow-y-auto text-sm">
+          {shortcuts.map(({ keys, description }) => (
+            <div key={keys} className="flex items-center justify-between gap-4">
+              <dt className="text-slate-300">{description}</dt>
+              <dd>
+                <kbd className="px-2 py-0.5 rounded-md border border-slate-700 bg-slate-950 font-mono text-xs text-slate-200 whitespace-nowrap">
+                  {keys}
+                </kbd>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Toast, ToastTone } from '../hooks/useToasts';
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: string) => void;
+}
+
+const TONE_STYLES: Record<ToastTone, string> = {
+  error: 'border-red-500/40 bg-red-950/90',
+  info: 'border-slate-600 bg-slate-900/95',
+  success: 'border-emerald-500/40 bg-emerald-950/90',
+};
+
+const TONE_ICONS: Record<ToastTone, string> = {
+  error: '⚠️',
+  info: 'ℹ️',
+  success: '✅',
+};
+
+// The container is a live region from the start, so toasts added to it are read out reliably.
+export const ToastStack: React.FC<ToastStackProps> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-3 w-[min(24rem,calc(100vw-2rem))]" aria-live="polite" aria-relevant="additions">
+    {toasts.map(toast => (
+      <div
+        key={toast.id}
+        role={toast.tone === 'error' ? 'alert' : 'status'}
+        className={`p-4 rounded-xl border shadow-2xl backdrop-blur flex gap-3 animate-fade-in ${TONE_STYLES[toast.tone]}`}
+      >
+        <span className="text-lg leading-none" aria-hidden="true">{TONE_ICONS[toast.tone]}</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-white">{toast.title}</p>
+          {toast.message && <p className="text-xs text-slate-300 mt-1">{toast.message}</p>}
+          {toast.action && (
+            <button
+              onClick={() => { toast.action!.onClick(); onDismiss(toast.id); }}
+              className="mt-2 text-xs font-medium px-3 py-1 rounded-lg border border-white/20 text-white hover:bg-white/10"
+            >
+              {toast.action.label}
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => onDismiss(toast.id)}
+          className="text-slate-400 hover:text-white text-sm leading-none self-start"
+          aria-label={`Dismiss: ${toast.title}`}
+        >
+          ✕
+        </button>
+      </div>
+    ))}
+  </div>
+);
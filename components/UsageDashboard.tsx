@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import { Project } from '../types';
+import {
+  ModelPricing,
+  UsageBudgets,
+  UsageEntry,
+  UsageSummary,
+  clearUsage,
+  groupUsage,
+  listUsage,
+  loadBudgets,
+  loadPricing,
+  saveBudgets,
+  savePricing,
+  summarizeUsage,
+  usageDay,
+  usageToCsv,
+} from '../services/usageLog';
+import { downloadBlob } from '../utils/download';
+import { formatDuration, formatUsd } from '../utils/format';
+import { Spinner } from './Spinner';
+
+interface UsageDashboardProps {
+  projects: Project[];
+  activeProjectId: string | null;
+  onClose: () => void;
+  onError: (title: string, error: unknown) => void;
+}
+
+// Days shown in the daily breakdown, including today.
+const DAILY_ROWS = 14;
+
+const inputClass = 'w-24 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-200 text-right focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const parseLimit = (value: string): number | null => {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/**
+ * Provider calls logged on this device: totals per day, project and model,
+ * recent failures, and the pricing and budgets the totals are checked against.
+ */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ projects, activeProjectId, onClose, onError }) => {
+  const [entries, setEntries] = useState<UsageEntry[] | null>(null);
+  const [pricing, setPricing] = useState<ModelPricing>(loadPricing);
+  const [budgets, setBudgets] = useState<UsageBudgets>(loadBudgets);
+
+  useEffect(() => {
+    let cancelled = false;
+    listUsage()
+      .then(result => { if (!cancelled) setEntries(result); })
+      .catch(err => {
+        if (cancelled) return;
+        setEntries([]);
+        onError("Couldn't load the usage log", err);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const updatePricing = (model: string, value: string) => {
+    const next = { ...pricing, [model]: Math.max(0, parseFloat(value) || 0) };
+    setPricing(next);
+    savePricing(next);
+  };
+
+  const updateBudgets = (patch: Partial<UsageBudgets>) => {
+    const next = { ...budgets, ...patch };
+    setBudgets(next);
+    saveBudgets(next);
+  };
+
+  const projectName = (id?: string) => (id ? projects.find(p => p.id === id)?.name ?? 'Deleted project' : 'No project');
+
+  const handleExport = () => {
+    if (!entries) return;
+    const names = Object.fromEntries(projects.map(p => [p.id, p.name]));
+    downloadBlob(new Blob([usageToCsv(entries, names)], { type: 'text/csv' }), `mockupai-usage-${usageDay(Date.now())}.csv`);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete the whole usage log? Budgets will start counting from zero.')) return;
+    try {
+      await clearUsage();
+      setEntries([]);
+    } catch (err) {
+      onError("Couldn't clear the usage log", err);
+    }
+  };
+
+  const log = entries ?? [];
+  const today = usageDay(Date.now());
+  const thisMonth = today.slice(0, 7);
+  const totals: { label: string; summary: UsageSummary }[] = [
+    { label: 'Today', summary: summarizeUsage(log.filter(e => usageDay(e.createdAt) === today)) },
+    { label: 'This month', summary: summarizeUsage(log.filter(e => usageDay(e.createdAt).startsWith(thisMonth))) },
+    { label: 'This project', summary: summarizeUsage(log.filter(e => e.projectId === activeProjectId)) },
+    { label: 'All time', summary: summarizeUsage(log) },
+  ];
+  const daily = groupUsage(log, e => usageDay(e.createdAt)).slice(0, DAILY_ROWS);
+  const byProject = groupUsage(log, e => e.projectId ?? '').sort((a, b) => b[1].cost - a[1].cost);
+  const byModel = groupUsage(log, e => e.model);
+  const failures = log.filter(e => e.status === 'failed').slice(0, 5);
+  const models = Array.from(new Set<string>([...Object.keys(pricing), ...byModel.map(([model]) => model)]));
+
+  const renderTable = (title: string, rows: [string, UsageSummary][], labelOf: (key: string) => string) => (
+    <div>
+      <h4 className="text-sm font-semibold text-slate-300 mb-2">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-xs text-slate-500">No calls yet.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-500 text-left">
+              <th className="font-medium py-1"></th>
+              <th className="font-medium py-1 text-right">Calls</th>
+              <th className="font-medium py-1 text-right">Failed</th>
+              <th className="font-medium py-1 text-right">Images</th>
+              <th className="font-medium py-1 text-right">Avg latency</th>
+              <th className="font-medium py-1 text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(([key, summary]) => (
+              <tr key={key} className="border-t border-slate-800 text-slate-300">
+                <td className="py-1.5 pr-2 truncate max-w-[12rem]">{labelOf(key)}</td>
+                <td className="py-1.5 text-right">{summary.calls}</td>
+                <td className={`py-1.5 text-right ${summary.failures ? 'text-red-300' : ''}`}>{summary.failures}</td>
+                <td className="py-1.5 text-right">{summary.images}</td>
+                <td className="py-1.5 text-right">{formatDuration(summary.averageLatencyMs)}</td>
+                <td className="py-1.5 text-right">{formatUsd(summary.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-full flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="usage-title"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between gap-3">
+          <div>
+            <h3 id="usage-title" className="text-lg font-semibold text-white">Usage & cost</h3>
+            <p className="text-sm text-slate-400">Calls made from this browser. Costs are estimates from the prices below.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              disabled={!entries?.length}
+              className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 text-sm hover:bg-slate-800 disabled:opacity-40 transition-colors"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={!entries?.length}
+              className="px-3 py-1.5 rounded-lg border border-slate-700 text-slate-400 text-sm hover:border-red-500/60 hover:text-red-300 disabled:opacity-40 transition-colors"
+            >
+              Clear log
+            </button>
+            <button onClick={onClose} className="px-3 py-1.5 text-sm rounded-lg text-slate-400 hover:text-white" aria-label="Close">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {!entries ? (
+          <div className="h-64 flex items-center justify-center text-slate-500"><Spinner /></div>
+        ) : (
+          <div className="p-5 overflow-y-auto grid grid-cols-1 lg:grid-cols-[1fr_18rem] gap-6">
+            <div className="space-y-6 min-w-0">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {totals.map(({ label, summary }) => (
+                  <div key={label} className="p-3 rounded-xl bg-slate-800/50 border border-slate-700">
+                    <p className="text-xs text-slate-500">{label}</p>
+                    <p className="text-xl font-semibold text-white">{formatUsd(summary.cost)}</p>
+                    <p className="text-xs text-slate-400">
+                      {summary.calls} calls{summary.failures ? ` · ${summary.failures} failed` : ''}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {renderTable('Daily', daily, day => day)}
+              {renderTable('By project', byProject, id => projectName(id || undefined))}
+              {renderTable('By model', byModel, model => model)}
+
+              {failures.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-slate-300 mb-2">Recent failures</h4>
+                  <ul className="space-y-1.5">
+                    {failures.map(entry => (
+                      <li key={entry.id} className="text-xs text-slate-400">
+                        <span className="text-slate-500">{new Date(entry.createdAt).toLocaleString()} · {entry.model} · </span>
+                        <span className="text-red-300">{entry.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-6">
+              <div>
+                <h4 className="text-sm font-semibold text-slate-300 mb-1">Budgets</h4>
+                <p className="text-xs text-slate-500 mb-3">In USD. Leave empty for no limit.</p>
+                <div className="space-y-2">
+                  {([
+                    ['daily', 'Per day'],
+                    ['monthly', 'Per month'],
+                    ['perProject', 'Per project'],
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="flex items-center justify-between gap-3">
+                      <label htmlFor={`budget-${key}`} className="text-sm text-slate-400">{label}</label>
+                      <input
+                        id={`budget-${key}`}
+                        type="number" min={0} step="0.5"
+                        value={budgets[key] ?? ''}
+                        onChange={(e) => updateBudgets({ [key]: parseLimit(e.target.value) })}
+                        placeholder="—"
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between gap-3">
+                    <label htmlFor="budget-action" className="text-sm text-slate-400">When reached</label>
+                    <select
+                      id="budget-action"
+                      value={budgets.action}
+                      onChange={(e) => updateBudgets({ action: e.target.value as UsageBudgets['action'] })}
+                      className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value="warn">Warn</option>
+                      <option value="block">Block generation</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-slate-300 mb-1">Pricing</h4>
+                <p className="text-xs text-slate-500 mb-3">USD per image, or per call for text models. Applies to calls logged from now on.</p>
+                <div className="space-y-2">
+                  {models.map(model => (
+                    <div key={model} className="flex items-center justify-between gap-3">
+                      <label htmlFor={`price-${model}`} className="text-xs font-mono text-slate-400 truncate" title={model}>{model}</label>
+                      <input
+                        id={`price-${model}`}
+                        type="number" min={0} step="0.001"
+                        value={pricing[model] ?? 0}
+                        onChange={(e) => updatePricing(model, e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
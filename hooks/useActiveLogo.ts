@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { describeError } from '../services/errors';
+import { getLogoFile } from '../services/projectStore';
+import { useLogoPreprocessor } from './useLogoPreprocessor';
+import { useProjectLogos } from './useProjectLogos';
+import { useProjects } from './useProjects';
+import { useToasts } from './useToasts';
+
+/**
+ * The logo in use: the original file, its preprocessed version (what the
+ * provider receives) and the file input to replace it. Each project opens
+ * with the logo it was last used with; a new upload is kept with the
+ * project and becomes its active logo. `onLogoRemoved` lets other features
+ * drop references to a deleted project logo.
+ */
+export const useActiveLogo = (
+  projects: ReturnType<typeof useProjects>,
+  projectLogos: ReturnType<typeof useProjectLogos>,
+  pushToast: ReturnType<typeof useToasts>['pushToast'],
+  onLogoRemoved: (id: string) => void
+) => {
+  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const [uploadedMimeType, setUploadedMimeType] = useState<string>('image/png');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectId = projects.activeProject?.id ?? null;
+  const activeLogoId = projects.activeProject?.activeLogoId;
+
+  const logoPreprocessor = useLogoPreprocessor(
+    (processed) => {
+      // The processed PNG, not the raw upload, is what the provider receives.
+      setUploadedImage(processed.dataUrl);
+      setUploadedMimeType(processed.mimeType);
+    },
+    (err) => {
+      console.error(err);
+      setUploadedImage(null);
+      pushToast({ tone: 'error', title: "Couldn't read that logo", message: describeError(err).detail });
+    }
+  );
+
+  // Open each project with the logo it was last used with.
+  useEffect(() => {
+    setUploadedImage(null);
+    logoPreprocessor.setFile(null);
+    if (!activeLogoId) return;
+    let cancelled = false;
+    getLogoFile(activeLogoId)
+      .then(file => { if (file && !cancelled) logoPreprocessor.setFile(file); })
+      .catch(err => console.error("Failed to load project logo:", err));
+    return () => { cancelled = true; };
+    // Only a project switch should reload the logo, not edits to the project.
+  }, [projectId]);
+
+  const selectLogo = async (id: string) => {
+    try {
+      const file = await getLogoFile(id);
+      if (!file) return;
+      logoPreprocessor.setFile(file);
+      projects.updateProject(projectId!, { activeLogoId: id });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't load that logo", message: describeError(err).detail });
+    }
+  };
+
+  const removeLogo = async (id: string) => {
+    try {
+      await projectLogos.removeLogo(id);
+      onLogoRemoved(id);
+      if (activeLogoId === id) {
+        projects.updateProject(projectId!, { activeLogoId: undefined });
+        logoPreprocessor.setFile(null);
+        setUploadedImage(null);
+      }
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Failed to remove logo", message: describeError(err).detail });
+    }
+  };
+
+  // Make `file` the logo in use and keep it with the project.
+  const adoptLogo = async (file: File) => {
+    logoPreprocessor.setFile(file);
+    try {
+      // Keep the original upload with the project so it can be reused later.
+      const logo = await projectLogos.addLogo(file, file.name);
+      projects.updateProject(logo.projectId, { activeLogoId: logo.id });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't save the logo to this project", message: describeError(err).detail });
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) await adoptLogo(file);
+  };
+
+  const triggerFileUpload = () => {
+    fileInputRef.current?.click();
+  };
+
+  const activeLogoName = activeLogoId
+    ? projectLogos.logos.find(logo => logo.id === activeLogoId)?.name ?? null
+    : null;
+
+  return {
+    uploadedImage,
+    uploadedMimeType,
+    logoPreprocessor,
+    activeLogoId,
+    activeLogoName,
+    selectLogo,
+    removeLogo,
+    adoptLogo,
+    fileInputRef,
+    handleFileUpload,
+    triggerFileUpload,
+  };
+};
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { AppMode, PromptComposition } from '../types';
+import { ReferenceSlot } from '../components/ReferenceImagesPanel';
+import { describeError } from '../services/errors';
+import { loadReferenceImage } from '../services/regeneration';
+import { nextReferenceRole, validateReferences } from '../services/referenceRoles';
+import { compilePrompt } from '../services/promptComposer';
+import { useGenerationQueue } from './useGenerationQueue';
+import { useProjectLogos } from './useProjectLogos';
+import { useProviderSettings } from './useProviderSettings';
+import { useToasts } from './useToasts';
+
+export interface CompositeModeOptions {
+  projectId: string | null;
+  projectLogos: ReturnType<typeof useProjectLogos>;
+  composition: PromptComposition;
+  providerSettings: ReturnType<typeof useProviderSettings>;
+  enqueueJobs: ReturnType<typeof useGenerationQueue>['enqueueJobs'];
+  pushToast: ReturnType<typeof useToasts>['pushToast'];
+}
+
+/**
+ * Co-brand mockups: project logos picked as reference images, each with a
+ * role, combined into one image by the provider. The slots are cleared
+ * when another project opens.
+ */
+export const useCompositeMode = ({ projectId, projectLogos, composition, providerSettings, enqueueJobs, pushToast }: CompositeModeOptions) => {
+  const [referenceSlots, setReferenceSlots] = useState<ReferenceSlot[]>([]);
+  const { providerId, provider } = providerSettings;
+
+  useEffect(() => {
+    setReferenceSlots([]);
+  }, [projectId]);
+
+  const maxReferenceImages = provider.capabilities.maxReferenceImages;
+  const referenceProblems = validateReferences(referenceSlots.map(slot => slot.role), maxReferenceImages);
+  const canGenerateComposite = provider.capabilities.compose && Boolean(composition.subject.trim()) && referenceProblems.length === 0;
+
+  const addReference = (logoId: string) => {
+    setReferenceSlots(prev => (prev.length >= maxReferenceImages || prev.some(slot => slot.logoId === logoId))
+      ? prev
+      : [...prev, { logoId, role: nextReferenceRole(prev.map(slot => slot.role)) }]);
+  };
+
+  // Drop the slots that use a project logo that was deleted.
+  const forgetLogo = (logoId: string) => {
+    setReferenceSlots(prev => prev.filter(slot => slot.logoId !== logoId));
+  };
+
+  const handleReferenceUpload = async (file: File) => {
+    try {
+      // References are kept as project logos so the gallery can point back at them.
+      const logo = await projectLogos.addLogo(file, file.name);
+      addReference(logo.id);
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't save that image to this project", message: describeError(err).detail });
+    }
+  };
+
+  const handleCompositeGenerate = async () => {
+    if (!canGenerateComposite || !projectId) return;
+    try {
+      const references = await Promise.all(referenceSlots.map(async slot => {
+        const name = projectLogos.logos.find(logo => logo.id === slot.logoId)?.name ?? 'image';
+        return { role: slot.role, logoId: slot.logoId, name, ...await loadReferenceImage(slot.logoId, name) };
+      }));
+      const prompt = compilePrompt(composition);
+      enqueueJobs([{
+        label: `Co-brand (${references.length} images)`,
+        input: {
+          kind: 'composite',
+          projectId,
+          providerId,
+          prompt,
+          references,
+          settings: { mode: AppMode.COMPOSITE, providerId, prompt, composition },
+        },
+      }]);
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't read the reference images", message: describeError(err).detail });
+    }
+  };
+
+  return {
+    referenceSlots,
+    setReferenceSlots,
+    maxReferenceImages,
+    referenceProblems,
+    canGenerateComposite,
+    addReference,
+    forgetLogo,
+    handleReferenceUpload,
+    handleCompositeGenerate,
+  };
+};
@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GeneratedImage } from '../types';
+import {
+  GALLERY_PAGE_SIZE,
+  StorageUsage,
+  saveImage,
+  queryImages,
+  updateImage as updateStoredImage,
+  deleteImages,
+  clearImages,
+  moveImages as moveStoredImages,
+  copyImages as copyStoredImages,
+  getStorageUsage,
+} from '../services/galleryStore';
+import { GalleryQuery, compareItems, matchesQuery } from '../utils/gallery';
+
+/**
+ * Gallery state backed by IndexedDB. Shows one project at a time, filtered
+ * and sorted by `query`: loads the first matching page whenever either
+ * changes, and owns the object URLs of every loaded item.
+ */
+export const useGallery = (projectId: string | null, query: GalleryQuery) => {
+  const [items, setItems] = useState<GeneratedImage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [tags, setTags] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  // id -> object URL for every item currently loaded.
+  const objectUrls = useRef(new Map<string, string>());
+  // Read by callbacks that outlive a project switch (e.g. finishing jobs).
+  const currentProjectId = useRef(projectId);
+  currentProjectId.current = projectId;
+  const currentQuery = useRef(query);
+  currentQuery.current = query;
+  const loaded = useRef({ items, total });
+  loaded.current = { items, total };
+  // Bumped whenever the list is reset, so a page requested before is dropped.
+  const listVersion = useRef(0);
+  const isLoadingMore = useRef(false);
+  // Reload on a changed query, not on a new object with the same settings.
+  const queryKey = JSON.stringify(query);
+
+  const track = (images: GeneratedImage[]) => {
+    images.forEach(image => objectUrls.current.set(image.id, image.url));
+    return images;
+  };
+
+  const release = (ids: Iterable<string>) => {
+    for (const id of Array.from(ids)) {
+      const url = objectUrls.current.get(id);
+      if (url) URL.revokeObjectURL(url);
+      objectUrls.current.delete(id);
+    }
+  };
+
+  const refreshStorage = useCallback(() => {
+    getStorageUsage().then(setStorage).catch(() => setStorage(null));
+  }, []);
+
+  useEffect(() => {
+    listVersion.current += 1;
+    isLoadingMore.current = false;
+    setItems([]);
+    setTotal(0);
+    setIsLoading(true);
+    if (!projectId) return;
+
+    let cancelled = false;
+    const urls = objectUrls.current;
+
+    queryImages(projectId, currentQuery.current, null, GALLERY_PAGE_SIZE)
+      .then(page => {
+        if (cancelled) {
+          page.items.forEach(image => URL.revokeObjectURL(image.url));
+          return;
+        }
+        setItems(track(page.items));
+        setTotal(page.total);
+        setTags(page.tags ?? []);
+      })
+      .catch(err => console.error("Failed to load gallery:", err))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    refreshStorage();
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, [projectId, queryKey, refreshStorage]);
+
+  /**
+   * Persist new images. Images belonging to another project than the one
+   * shown, or not matching the current filters, are saved but not listed;
+   * nor are those sorting after the loaded pages, which a later page brings.
+   */
+  const addImages = useCallback(async (images: GeneratedImage[]) => {
+    const stored: GeneratedImage[] = [];
+    for (const image of images) {
+      stored.push(await saveImage(image));
+    }
+    const compare = compareItems(currentQuery.current.sort);
+    const matching = stored.filter(image =>
+      image.projectId === currentProjectId.current && matchesQuery(image, currentQuery.current));
+    const { items: loadedItems, total: loadedTotal } = loaded.current;
+    const last = loadedItems[loadedItems.length - 1];
+    const visible = loadedItems.length < loadedTotal && last
+      ? matching.filter(image => compare(image, last) < 0)
+      : matching;
+    stored.filter(image => !visible.includes(image)).forEach(image => URL.revokeObjectURL(image.url));
+    track(visible);
+    setItems(prev => [...visible, ...prev].sort(compare));
+    setTotal(prev => prev + matching.length);
+    refreshStorage();
+    return stored;
+  }, [refreshStorage]);
+
+  /**
+   * Load the page after the last loaded item. Pages continue from an item
+   * rather than a count, so items added or removed meanwhile shift nothing.
+   */
+  const loadMore = useCallback(async () => {
+    const { items: loadedItems } = loaded.current;
+    const last = loadedItems[loadedItems.length - 1];
+    if (!projectId || !last || isLoadingMore.current) return;
+    const version = listVersion.current;
+    isLoadingMore.current = true;
+    setIsLoading(true);
+    try {
+      const page = await queryImages(projectId, currentQuery.current, last, GALLERY_PAGE_SIZE);
+      if (version !== listVersion.current) {
+        page.items.forEach(image => URL.revokeObjectURL(image.url));
+        return;
+      }
+      setItems(prev => [...prev, ...track(page.items)]);
+      setTotal(page.total);
+    } finally {
+      if (version === listVersion.current) {
+        isLoadingMore.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, [projectId]);
+
+  const removeImages = useCallback(async (ids: string[]) => {
+    await deleteImages(ids);
+    release(ids);
+    setItems(prev => prev.filter(image => !ids.includes(image.id)));
+    setTotal(prev => Math.max(0, prev - ids.length));
+    refreshStorage();
+  }, [refreshStorage]);
+
+  /**
+   * Star/unstar or retag an item. It stays listed until the next reload even
+   * if it no longer matches the filters, so it doesn't vanish mid-edit.
+   */
+  const updateImage = useCallback(async (id: string, patch: Pick<GeneratedImage, 'tags' | 'favorite'>) => {
+    await updateStoredImage(id, patch);
+    setItems(prev => prev.map(image => (image.id === id ? { ...image, ...patch } : image)));
+    if (patch.tags) {
+      setTags(prev => Array.from(new Set<string>([...prev, ...patch.tags!])).sort());
+    }
+  }, []);
+
+  /** Move items to another project, dropping them from the current view. */
+  const moveImages = useCallback(async (ids: string[], targetProjectId: string) => {
+    await moveStoredImages(ids, targetProjectId);
+    release(ids);
+    setItems(prev => prev.filter(image => !ids.includes(image.id)));
+    setTotal(prev => Math.max(0, prev - ids.length));
+  }, []);
+
+  /** Copy items into another project. Returns how many were copied. */
+  const copyImages = useCallback(async (ids: string[], targetProjectId: string) => {
+    const count = await copyStoredImages(ids, targetProjectId);
+    refreshStorage();
+    return count;
+  }, [refreshStorage]);
+
+  const clearAll = useCallback(async () => {
+    await clearImages(projectId);
+    listVersion.current += 1;
+    isLoadingMore.current = false;
+    release(objectUrls.current.keys());
+    setItems([]);
+    setTotal(0);
+    setIsLoading(false);
+    refreshStorage();
+  }, [projectId, refreshStorage]);
+
+  return {
+    items,
+    total,
+    tags,
+    hasMore: items.length < total,
+    isLoading,
+    storage,
+    addImages,
+    loadMore,
+    removeImages,
+    updateImage,
+    moveImages,
+    copyImages,
+    clearAll,
+  };
+};
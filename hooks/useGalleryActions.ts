@@ -0,0 +1,70 @@
+import { GeneratedImage } from '../types';
+import { describeError } from '../services/errors';
+import { useGallery } from './useGallery';
+import { useProjects } from './useProjects';
+import { useToasts } from './useToasts';
+
+/**
+ * Gallery edits started from the cards, the lightbox and the compare view,
+ * each reporting a failure as a toast.
+ */
+export const useGalleryActions = (
+  gallery: ReturnType<typeof useGallery>,
+  projects: ReturnType<typeof useProjects>,
+  pushToast: ReturnType<typeof useToasts>['pushToast']
+) => {
+  const handleToggleFavorite = async (item: GeneratedImage) => {
+    try {
+      await gallery.updateImage(item.id, { favorite: !item.favorite });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Failed to update favorite", message: describeError(err).detail });
+    }
+  };
+
+  const handleUpdateTags = async (item: GeneratedImage, tags: string[]) => {
+    try {
+      await gallery.updateImage(item.id, { tags });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Failed to save tags", message: describeError(err).detail });
+    }
+  };
+
+  const handleDeleteImage = async (id: string) => {
+    try {
+      await gallery.removeImages([id]);
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Failed to delete image", message: describeError(err).detail });
+    }
+  };
+
+  const handleDiscardVariants = async (ids: string[]) => {
+    try {
+      await gallery.removeImages(ids);
+      pushToast({ tone: 'success', title: `Discarded ${ids.length} variant${ids.length === 1 ? '' : 's'}` });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Failed to discard variants", message: describeError(err).detail });
+      throw err;
+    }
+  };
+
+  const handleClearGallery = async () => {
+    if (!window.confirm(`Delete all ${gallery.total} items from "${projects.activeProject?.name}"? This cannot be undone.`)) return;
+    try {
+      await gallery.clearAll();
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Failed to clear gallery", message: describeError(err).detail });
+    }
+  };
+
+  const handleExportError = (err: unknown) => {
+    console.error(err);
+    pushToast({ tone: 'error', title: "Export failed", message: describeError(err).detail });
+  };
+
+  return { handleToggleFavorite, handleUpdateTags, handleDeleteImage, handleDiscardVariants, handleClearGallery, handleExportError };
+};
@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import { describeError } from '../services/errors';
+import { useGallery } from './useGallery';
+import { useProjects } from './useProjects';
+import { useToasts } from './useToasts';
+
+/**
+ * Multi-select in the gallery, and moving or copying the selection to
+ * another project. Selecting ends when another project opens.
+ */
+export const useGallerySelection = (
+  gallery: ReturnType<typeof useGallery>,
+  projects: ReturnType<typeof useProjects>,
+  pushToast: ReturnType<typeof useToasts>['pushToast']
+) => {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const projectId = projects.activeProject?.id ?? null;
+
+  const toggleSelected = (ids: string[]) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const allSelected = ids.every(id => next.has(id));
+      ids.forEach(id => (allSelected ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const selectAll = () => setSelectedIds(new Set(gallery.items.map(item => item.id)));
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  useEffect(() => {
+    stopSelecting();
+  }, [projectId]);
+
+  const otherProjects = projects.projects.filter(p => p.id !== projectId);
+
+  // `action` is "move:<projectId>" or "copy:<projectId>" from the selection bar.
+  const handleTransfer = async (action: string) => {
+    const [kind, targetId] = action.split(':');
+    const target = otherProjects.find(p => p.id === targetId);
+    if (!target) return;
+    const ids = Array.from(selectedIds);
+    try {
+      if (kind === 'move') {
+        await gallery.moveImages(ids, target.id);
+        pushToast({ tone: 'success', title: `Moved ${ids.length} item${ids.length === 1 ? '' : 's'} to "${target.name}"` });
+      } else {
+        const count = await gallery.copyImages(ids, target.id);
+        pushToast({ tone: 'success', title: `Copied ${count} item${count === 1 ? '' : 's'} to "${target.name}"` });
+      }
+      stopSelecting();
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: `Failed to ${kind} items`, message: describeError(err).detail });
+    }
+  };
+
+  return {
+    isSelecting,
+    startSelecting: () => setIsSelecting(true),
+    stopSelecting,
+    selectedIds,
+    selectedItems: gallery.items.filter(item => selectedIds.has(item.id)),
+    toggleSelected,
+    selectAll,
+    otherProjects,
+    handleTransfer,
+  };
+};
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { GeneratedImage, GenerationRequest } from '../types';
+import { generateMockup, generateImage, generateComposite } from '../services/geminiService';
+import { getProvider } from '../services/providers/registry';
+import { describeError } from '../services/errors';
+import { Job } from '../services/jobQueue';
+import { checkBudgets, estimateCost } from '../services/usageLog';
+import { createId } from '../utils/id';
+import { useGallery } from './useGallery';
+import { useJobQueue } from './useJobQueue';
+import { useToasts } from './useToasts';
+
+const runGeneration = async (request: GenerationRequest, signal: AbortSignal): Promise<GeneratedImage[]> => {
+  const createdAt = Date.now();
+
+  if (request.kind === 'mockup') {
+    const resultImage = await generateMockup(request.base64Image, request.mimeType, request.prompt, request.providerId, { signal, projectId: request.projectId });
+    return [{
+      id: createId(),
+      url: resultImage.dataUrl,
+      prompt: request.prompt,
+      createdAt,
+      type: 'mockup',
+      projectId: request.projectId,
+      presetId: request.presetId,
+      providerId: resultImage.providerId,
+      model: resultImage.model,
+      modelLabel: resultImage.modelLabel,
+      parentId: request.parentId,
+      rootId: request.rootId,
+      input: request.input,
+      settings: request.settings,
+    }];
+  }
+
+  if (request.kind === 'composite') {
+    const resultImage = await generateComposite(request.references, request.prompt, request.providerId, { signal, projectId: request.projectId });
+    return [{
+      id: createId(),
+      url: resultImage.dataUrl,
+      prompt: request.prompt,
+      createdAt,
+      type: 'mockup',
+      projectId: request.projectId,
+      providerId: resultImage.providerId,
+      model: resultImage.model,
+      modelLabel: resultImage.modelLabel,
+      sources: request.references.map(({ role, logoId, name }) => ({ role, logoId, name })),
+      settings: request.settings,
+    }];
+  }
+
+  const results = await generateImage(request.prompt, request.aspectRatio, request.numberOfImages, request.providerId, { signal, projectId: request.projectId });
+  const groupId = createId();
+  return results.map((resultImage, index) => ({
+    id: createId(),
+    url: resultImage.dataUrl,
+    prompt: request.prompt,
+    createdAt,
+    type: 'generation',
+    projectId: request.projectId,
+    providerId: resultImage.providerId,
+    model: resultImage.model,
+    modelLabel: resultImage.modelLabel,
+    group: results.length > 1
+      ? { id: groupId, index, size: results.length, prompt: request.prompt, aspectRatio: request.aspectRatio }
+      : undefined,
+    settings: request.settings,
+    enhancement: request.enhancement,
+  }));
+};
+
+/**
+ * The generation queue behind every mode: runs requests against their
+ * provider, saves finished images to the gallery and reports failures as
+ * toasts with a retry action. New work is checked against the usage
+ * budgets first; `onShowUsage` opens the dashboard from the warning.
+ */
+export const useGenerationQueue = (
+  gallery: ReturnType<typeof useGallery>,
+  pushToast: ReturnType<typeof useToasts>['pushToast'],
+  onShowUsage: () => void
+) => {
+  const [concurrency, setConcurrency] = useState(2);
+
+  const handleJobError = (error: Error, job: Job<GenerationRequest>) => {
+    const { title, hint, retryable } = describeError(error);
+    pushToast({
+      tone: 'error',
+      title: `${job.label}: ${title}`,
+      message: hint,
+      action: retryable ? { label: 'Retry', onClick: () => queue.retry(job.id) } : undefined,
+    });
+  };
+
+  const queue = useJobQueue<GenerationRequest, GeneratedImage[]>({
+    concurrency,
+    run: runGeneration,
+    onDone: async (images) => { await gallery.addImages(images); },
+    onError: (error, job) => handleJobError(error, job),
+  });
+
+  // Flag or refuse new work once a usage budget is reached. Calls are checked
+  // again when they run, so jobs that were already queued respect it too.
+  const enqueueJobs = async (jobs: { label: string; input: GenerationRequest }[]) => {
+    const [first] = jobs;
+    if (!first) return;
+    const models = Object.values(getProvider(first.input.providerId).models);
+    if (models.some(model => estimateCost(model, 1) > 0)) {
+      try {
+        const budget = await checkBudgets(first.input.projectId);
+        if (budget) {
+          const blocked = budget.action === 'block';
+          pushToast({
+            tone: blocked ? 'error' : 'info',
+            title: blocked ? 'Usage budget reached' : 'Over your usage budget',
+            message: `${budget.exceeded.join('; ')}.${blocked ? ' Nothing was queued.' : ''}`,
+            action: { label: 'View usage', onClick: onShowUsage },
+          });
+          if (blocked) return;
+        }
+      } catch (err) {
+        console.error("Failed to check usage budgets:", err);
+      }
+    }
+    queue.enqueue(jobs);
+  };
+
+  const activeJobs = queue.jobs.filter(job => job.status === 'pending' || job.status === 'running');
+  const failedJobs = queue.jobs.filter(job => job.status === 'failed');
+  const visibleJobs = queue.jobs.filter(job => job.status !== 'done');
+
+  // Coarse progress for screen readers; the job cards change too often to announce each update.
+  const announcement = activeJobs.length > 0
+    ? `Generating: ${activeJobs.length} ${activeJobs.length === 1 ? 'job' : 'jobs'} in progress.`
+    : queue.jobs.length > 0
+      ? `Generation finished. ${queue.jobs.length - failedJobs.length} done${failedJobs.length ? `, ${failedJobs.length} failed` : ''}.`
+      : '';
+
+  return { queue, enqueueJobs, concurrency, setConcurrency, activeJobs, failedJobs, visibleJobs, announcement };
+};
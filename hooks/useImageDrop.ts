@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// Formats the logo input accepts by extension when the browser reports no image MIME type.
+const IMAGE_EXTENSIONS = /\.(svg|heic|heif)$/i;
+
+export const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+const carriesFiles = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes('Files');
+
+/**
+ * Makes an element a drop target for an image file. Spread `dropProps` on
+ * the element; `isDragging` is true while files are held over it.
+ * `onReject` is called when the dropped files contain no image.
+ */
+export const useImageDrop = (onImage: (file: File) => void, onReject?: () => void) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave also fire for the element's children; count to know when the pointer really left.
+  const depthRef = useRef(0);
+
+  const dropProps = {
+    onDragEnter: (event: React.DragEvent) => {
+      if (!carriesFiles(event)) return;
+      event.preventDefault();
+      depthRef.current += 1;
+      setIsDragging(true);
+    },
+    onDragOver: (event: React.DragEvent) => {
+      if (!carriesFiles(event)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'copy';
+    },
+    onDragLeave: () => {
+      depthRef.current = Math.max(0, depthRef.current - 1);
+      if (depthRef.current === 0) setIsDragging(false);
+    },
+    onDrop: (event: React.DragEvent) => {
+      if (!carriesFiles(event)) return;
+      event.preventDefault();
+      depthRef.current = 0;
+      setIsDragging(false);
+      const file = Array.from<File>(event.dataTransfer.files).find(isImageFile);
+      if (file) {
+        onImage(file);
+      } else {
+        onReject?.();
+      }
+    },
+  };
+
+  return { isDragging, dropProps };
+};
+
+/**
+ * Calls `onImage` when an image is pasted anywhere on the page, unless a
+ * dialog is open. Text pastes are left to the focused field.
+ */
+export const usePasteImage = (onImage: (file: File) => void, enabled = true) => {
+  const onImageRef = useRef(onImage);
+  onImageRef.current = onImage;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      if (document.querySelector('[aria-modal="true"]')) return;
+      const file = Array.from(event.clipboardData?.files ?? []).find(isImageFile);
+      if (!file) return;
+      event.preventDefault();
+      onImageRef.current(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [enabled]);
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { AppMode, PromptComposition, PromptEnhancementRecord } from '../types';
+import { enhancePrompt } from '../services/geminiService';
+import { describeError } from '../services/errors';
+import { PromptEnhancement } from '../services/providers/types';
+import { compilePrompt } from '../services/promptComposer';
+import { useGenerationQueue } from './useGenerationQueue';
+import { useProviderSettings } from './useProviderSettings';
+import { useToasts } from './useToasts';
+
+export interface ImageGenModeOptions {
+  projectId: string | null;
+  composition: PromptComposition;
+  setComposition: React.Dispatch<React.SetStateAction<PromptComposition>>;
+  providerSettings: ReturnType<typeof useProviderSettings>;
+  enqueueJobs: ReturnType<typeof useGenerationQueue>['enqueueJobs'];
+  pushToast: ReturnType<typeof useToasts>['pushToast'];
+}
+
+/**
+ * Text-to-image generation, with the optional enhancement step: the
+ * provider rewrites the subject, the user reviews the change, and an
+ * accepted rewrite is recorded on the images generated from it.
+ */
+export const useImageGenMode = ({ projectId, composition, setComposition, providerSettings, enqueueJobs, pushToast }: ImageGenModeOptions) => {
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [enhanceResult, setEnhanceResult] = useState<{ draft: string; enhancement: PromptEnhancement } | null>(null);
+  // The last accepted enhancement; recorded on images while the subject still matches it.
+  const [acceptedEnhancement, setAcceptedEnhancement] = useState<PromptEnhancementRecord | null>(null);
+  const { providerId, provider, numberOfImages, selectedAspectRatio } = providerSettings;
+  const hasSubject = Boolean(composition.subject.trim());
+  const canGenerateImage = hasSubject && provider.capabilities.textToImage;
+
+  const handleImageGenerate = () => {
+    if (!hasSubject || !projectId) return;
+
+    const prompt = compilePrompt(composition);
+    const enhancement = acceptedEnhancement?.enhanced === composition.subject.trim() ? acceptedEnhancement : undefined;
+    enqueueJobs([{
+      label: numberOfImages > 1 ? `${numberOfImages} images ${selectedAspectRatio}` : `Image ${selectedAspectRatio}`,
+      input: {
+        kind: 'generation',
+        projectId,
+        providerId,
+        prompt,
+        aspectRatio: selectedAspectRatio,
+        numberOfImages,
+        settings: { mode: AppMode.IMAGE_GEN, providerId, prompt, composition, aspectRatio: selectedAspectRatio, numberOfImages },
+        enhancement,
+      },
+    }]);
+  };
+
+  const handleEnhance = async () => {
+    const draft = composition.subject.trim();
+    if (!draft) return;
+    setIsEnhancing(true);
+    try {
+      const enhancement = await enhancePrompt(draft, providerId, { projectId: projectId ?? undefined });
+      setEnhanceResult({ draft, enhancement });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't enhance the prompt", message: describeError(err).detail });
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const handleAcceptEnhancement = (text: string) => {
+    if (!enhanceResult) return;
+    setComposition(prev => ({ ...prev, subject: text }));
+    setAcceptedEnhancement({ original: enhanceResult.draft, enhanced: text, model: enhanceResult.enhancement.model });
+    setEnhanceResult(null);
+  };
+
+  return {
+    canGenerateImage,
+    handleImageGenerate,
+    isEnhancing,
+    enhanceResult,
+    handleEnhance,
+    handleAcceptEnhancement,
+    dismissEnhancement: () => setEnhanceResult(null),
+  };
+};
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { AppMode, GeneratedImage, GenerationSettings } from '../types';
+import { describeError } from '../services/errors';
+import { buildRegenerationRequest } from '../services/regeneration';
+import { EMPTY_COMPOSITION } from '../services/promptComposer';
+import { parseDataUrl, urlToDataUrl } from '../utils/dataUrl';
+import { useActiveLogo } from './useActiveLogo';
+import { useGenerationQueue } from './useGenerationQueue';
+import { useProviderSettings } from './useProviderSettings';
+import { useToasts } from './useToasts';
+
+export interface ImageRevisionsOptions {
+  projectId: string | null;
+  providerSettings: ReturnType<typeof useProviderSettings>;
+  logo: ReturnType<typeof useActiveLogo>;
+  enqueueJobs: ReturnType<typeof useGenerationQueue>['enqueueJobs'];
+  pushToast: ReturnType<typeof useToasts>['pushToast'];
+}
+
+/**
+ * New versions of a gallery image: a refinement edits the image itself
+ * with an instruction and joins its lineage; a regeneration reruns the
+ * settings that produced it, as they were or tweaked.
+ */
+export const useImageRevisions = ({ projectId, providerSettings, logo, enqueueJobs, pushToast }: ImageRevisionsOptions) => {
+  const [refineTarget, setRefineTarget] = useState<{ item: GeneratedImage; dataUrl: string } | null>(null);
+  const [tweakTarget, setTweakTarget] = useState<GeneratedImage | null>(null);
+  const { providerId } = providerSettings;
+
+  const openRefine = async (item: GeneratedImage) => {
+    try {
+      // Snapshot the pixels now: the item's object URL may be revoked
+      // (e.g. a lineage node) before the job runs.
+      setRefineTarget({ item, dataUrl: await urlToDataUrl(item.url) });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't load that image for editing", message: describeError(err).detail });
+    }
+  };
+
+  const handleRefineSubmit = (instruction: string) => {
+    if (!refineTarget) return;
+    const { item, dataUrl } = refineTarget;
+    const { base64, mimeType } = parseDataUrl(dataUrl);
+
+    enqueueJobs([{
+      label: `Edit: ${instruction.length > 32 ? `${instruction.slice(0, 32)}…` : instruction}`,
+      input: {
+        kind: 'mockup',
+        projectId: item.projectId ?? projectId,
+        providerId,
+        base64Image: base64,
+        mimeType,
+        prompt: instruction,
+        parentId: item.id,
+        rootId: item.rootId ?? item.id,
+        input: { kind: 'image', id: item.id, mimeType },
+        // Edits send the image as stored, so preprocessing is recorded as off.
+        settings: {
+          mode: AppMode.MOCKUP,
+          providerId,
+          prompt: instruction,
+          composition: { ...EMPTY_COMPOSITION, subject: instruction },
+          promptMode: 'replace',
+          preprocess: { ...logo.logoPreprocessor.options, enabled: false },
+        },
+      },
+    }]);
+    setRefineTarget(null);
+  };
+
+  const regenerate = async (item: GeneratedImage, settings: GenerationSettings) => {
+    try {
+      const request = await buildRegenerationRequest(item, settings, item.projectId ?? projectId!);
+      const label = settings.prompt.length > 32 ? `${settings.prompt.slice(0, 32)}…` : settings.prompt;
+      enqueueJobs([{ label: `Regenerate: ${label}`, input: request }]);
+      setTweakTarget(null);
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't regenerate this image", message: describeError(err).detail });
+    }
+  };
+
+  return {
+    refineTarget,
+    openRefine,
+    handleRefineSubmit,
+    closeRefine: () => setRefineTarget(null),
+    tweakTarget,
+    setTweakTarget,
+    regenerate,
+  };
+};
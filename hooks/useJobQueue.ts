@@ -0,0 +1,26 @@
+import { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { JobQueueOptions, createJobQueue } from '../services/jobQueue';
+
+/**
+ * React binding for `createJobQueue`. The queue lives for the lifetime of
+ * the component; its callbacks always see the latest props.
+ */
+export const useJobQueue = <TInput, TResult>(options: JobQueueOptions<TInput, TResult>) => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [queue] = useState(() => createJobQueue<TInput, TResult>({
+    concurrency: options.concurrency,
+    run: (input, signal) => optionsRef.current.run(input, signal),
+    onDone: (result, job) => optionsRef.current.onDone?.(result, job),
+    onError: (error, job) => optionsRef.current.onError?.(error, job),
+  }));
+
+  useEffect(() => {
+    queue.setConcurrency(options.concurrency);
+  }, [queue, options.concurrency]);
+
+  const jobs = useSyncExternalStore(queue.subscribe, queue.getJobs);
+
+  return { ...queue, jobs };
+};
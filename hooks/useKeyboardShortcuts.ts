@@ -0,0 +1,60 @@
+import { useEffect, useRef } from 'react';
+
+export interface Shortcut {
+  /** `KeyboardEvent.key` (letters match either case), or a `KeyboardEvent.code` such as 'Digit1'. */
+  key: string;
+  /** Ctrl, or ⌘ on macOS. */
+  mod?: boolean;
+  alt?: boolean;
+  /** Also fire while typing in a text field; plain-key shortcuts would eat the input otherwise. */
+  inFields?: boolean;
+  description: string;
+  run: () => void;
+}
+
+const IS_MAC = /Mac|iPhone|iPad/.test(navigator.platform);
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const matches = (shortcut: Shortcut, event: KeyboardEvent) =>
+  (event.key.toLowerCase() === shortcut.key.toLowerCase() || event.code === shortcut.key)
+  && Boolean(shortcut.mod) === (event.ctrlKey || event.metaKey)
+  && Boolean(shortcut.alt) === event.altKey;
+
+/** The key combination as shown to the user, e.g. "Ctrl+Enter" or "⌥1". */
+export const formatShortcut = (shortcut: Pick<Shortcut, 'key' | 'mod' | 'alt'>): string => {
+  const key = shortcut.key.replace(/^Digit/, '').replace(/^Key/, '');
+  const parts = [
+    shortcut.mod && (IS_MAC ? '⌘' : 'Ctrl'),
+    shortcut.alt && (IS_MAC ? '⌥' : 'Alt'),
+    key.length === 1 ? key.toUpperCase() : key,
+  ].filter(Boolean);
+  return parts.join(IS_MAC ? '' : '+');
+};
+
+/**
+ * Global keyboard shortcuts for the studio. They stay out of the way while
+ * a dialog is open, since dialogs handle their own keys, and (unless marked
+ * `inFields`) while the user is typing.
+ */
+export const useKeyboardShortcuts = (shortcuts: Shortcut[]) => {
+  // Shortcuts close over render state; read the latest ones without re-binding.
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return;
+      if (document.querySelector('[aria-modal="true"]')) return;
+      const typing = isEditable(event.target);
+      const shortcut = shortcutsRef.current.find(candidate => matches(candidate, event) && (candidate.inFields || !typing));
+      if (!shortcut) return;
+      event.preventDefault();
+      shortcut.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GeneratedImage, Placement } from '../types';
+import { describeError } from '../services/errors';
+import { DEFAULT_PLACEMENT, blendModeLabel, loadImage, renderComposite } from '../services/compositor';
+import { createId } from '../utils/id';
+import { blobToDataUrl, urlToDataUrl } from '../utils/dataUrl';
+import { useActiveLogo } from './useActiveLogo';
+import { useGallery } from './useGallery';
+import { useToasts } from './useToasts';
+
+export interface LogoPlacementOptions {
+  projectId: string | null;
+  gallery: ReturnType<typeof useGallery>;
+  logo: ReturnType<typeof useActiveLogo>;
+  pushToast: ReturnType<typeof useToasts>['pushToast'];
+  /** Called when a gallery image is picked as the base photo, to show the placement panel. */
+  onBaseChosen: () => void;
+}
+
+/**
+ * Local logo placement: a base photo (uploaded, or a generated image from
+ * the gallery), the placement of the logo on it, and the compositor that
+ * renders the result into the gallery. No provider is involved.
+ */
+export const useLogoPlacement = ({ projectId, gallery, logo, pushToast, onBaseChosen }: LogoPlacementOptions) => {
+  const [compositorBase, setCompositorBase] = useState<{ dataUrl: string; name: string; imageId?: string } | null>(null);
+  const [placement, setPlacement] = useState<Placement>(DEFAULT_PLACEMENT);
+  const [isCompositorOpen, setIsCompositorOpen] = useState(false);
+  const [isSavingComposite, setIsSavingComposite] = useState(false);
+  const baseInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setCompositorBase(null);
+  }, [projectId]);
+
+  const baseCandidates = gallery.items.filter(item => item.type === 'generation');
+  const canPlaceLogo = Boolean(compositorBase && logo.uploadedImage) && !logo.logoPreprocessor.isProcessing;
+
+  const handleBaseUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setCompositorBase({ dataUrl: await blobToDataUrl(file), name: file.name });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't read that photo", message: describeError(err).detail });
+    }
+  };
+
+  const handleUseAsBase = async (item: GeneratedImage) => {
+    try {
+      // Snapshot the pixels; the gallery revokes its object URLs as it pages.
+      setCompositorBase({ dataUrl: await urlToDataUrl(item.url), name: item.prompt, imageId: item.id });
+      onBaseChosen();
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't load that image", message: describeError(err).detail });
+    }
+  };
+
+  const handleSaveComposite = async () => {
+    if (!compositorBase || !logo.uploadedImage || !projectId) return;
+    setIsSavingComposite(true);
+    try {
+      const [base, logoImage] = await Promise.all([loadImage(compositorBase.dataUrl), loadImage(logo.uploadedImage)]);
+      const canvas = renderComposite(base, logoImage, placement);
+      const logoName = logo.activeLogoName ?? 'logo';
+      await gallery.addImages([{
+        id: createId(),
+        url: canvas.toDataURL('image/png'),
+        prompt: `${logoName} placed on ${compositorBase.name} (${blendModeLabel(placement.blendMode)}, ${Math.round(placement.opacity * 100)}% opacity)`,
+        createdAt: Date.now(),
+        type: 'composite',
+        projectId,
+        providerId: 'local',
+        model: 'canvas-compositor',
+        modelLabel: 'Compositor',
+        composite: {
+          baseName: compositorBase.name,
+          baseImageId: compositorBase.imageId,
+          logoId: logo.activeLogoId,
+          placement,
+        },
+      }]);
+      setIsCompositorOpen(false);
+      pushToast({ tone: 'success', title: 'Saved to gallery' });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't save the composite", message: describeError(err).detail });
+    } finally {
+      setIsSavingComposite(false);
+    }
+  };
+
+  return {
+    compositorBase,
+    clearBase: () => setCompositorBase(null),
+    baseCandidates,
+    baseInputRef,
+    handleBaseUpload,
+    handleUseAsBase,
+    placement,
+    setPlacement,
+    canPlaceLogo,
+    isCompositorOpen,
+    openCompositor: () => setIsCompositorOpen(true),
+    closeCompositor: () => setIsCompositorOpen(false),
+    isSavingComposite,
+    handleSaveComposite,
+  };
+};
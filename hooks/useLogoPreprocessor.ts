@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import {
+  DEFAULT_PREPROCESS_OPTIONS,
+  PreprocessOptions,
+  PreprocessResult,
+  preprocessLogo,
+} from '../services/logoPreprocessor';
+
+const OPTIONS_STORAGE_KEY = 'mockupai.preprocessOptions';
+// Let slider drags settle before re-running the pixel pipeline.
+const DEBOUNCE_MS = 250;
+
+const loadOptions = (): PreprocessOptions => {
+  try {
+    const raw = localStorage.getItem(OPTIONS_STORAGE_KEY);
+    return raw ? { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(raw) } : DEFAULT_PREPROCESS_OPTIONS;
+  } catch {
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+};
+
+/**
+ * Runs the logo preprocessing pipeline whenever the source file or the
+ * options change, and exposes the before/after images.
+ */
+export const useLogoPreprocessor = (onProcessed: (result: PreprocessResult) => void, onError: (error: unknown) => void) => {
+  const [file, setFile] = useState<Blob | null>(null);
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [options, setOptions] = useState<PreprocessOptions>(loadOptions);
+  const [result, setResult] = useState<PreprocessResult | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  }, [options]);
+
+  useEffect(() => {
+    if (!file) {
+      setOriginalUrl(null);
+      setResult(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setOriginalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setIsProcessing(true);
+    const timer = setTimeout(() => {
+      preprocessLogo(file, options)
+        .then(processed => {
+          if (cancelled) return;
+          setResult(processed);
+          onProcessed(processed);
+        })
+        .catch(err => { if (!cancelled) onError(err); })
+        .finally(() => { if (!cancelled) setIsProcessing(false); });
+    }, DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // Callbacks are intentionally excluded: only new input should re-run the pipeline.
+  }, [file, options]);
+
+  return { file, setFile, originalUrl, options, setOptions, result, isProcessing };
+};
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { AppMode, GenerationSettings, MockupPreset, PromptComposition } from '../types';
+import { extractPlaceholders, fillTemplate } from '../services/presetLibrary';
+import { compilePrompt } from '../services/promptComposer';
+import { useActiveLogo } from './useActiveLogo';
+import { useGenerationQueue } from './useGenerationQueue';
+import { useProjects } from './useProjects';
+import { useProviderSettings } from './useProviderSettings';
+
+export interface MockupModeOptions {
+  projects: ReturnType<typeof useProjects>;
+  presets: MockupPreset[];
+  composition: PromptComposition;
+  providerSettings: ReturnType<typeof useProviderSettings>;
+  logo: ReturnType<typeof useActiveLogo>;
+  enqueueJobs: ReturnType<typeof useGenerationQueue>['enqueueJobs'];
+}
+
+/**
+ * Logo mockups: the preset selection (saved with the project), values for
+ * the presets' template fields, and whether the composer's subject is
+ * added to each preset or replaces them. Each selected preset becomes its
+ * own job.
+ */
+export const useMockupMode = ({ projects, presets, composition, providerSettings, logo, enqueueJobs }: MockupModeOptions) => {
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  // Whether the mockup subject text is added to each preset or replaces them.
+  const [mockupPromptMode, setMockupPromptMode] = useState<'augment' | 'replace'>('augment');
+  const { providerId, provider } = providerSettings;
+  const projectId = projects.activeProject?.id ?? null;
+
+  // Preset selection is saved with the project.
+  const selectedPresets = projects.activeProject?.selectedPresets ?? [];
+  const setSelectedPresets = (ids: string[]) => {
+    if (projectId) projects.updateProject(projectId, { selectedPresets: ids });
+  };
+  const chosenPresets = presets.filter(preset => selectedPresets.includes(preset.id));
+  const templateFields = Array.from(new Set<string>(chosenPresets.flatMap(preset => extractPlaceholders(preset.promptTemplate))));
+  const missingTemplateFields = templateFields.filter(name => !templateValues[name]?.trim());
+
+  const hasSubject = Boolean(composition.subject.trim());
+  const isReplacingPresets = mockupPromptMode === 'replace' && hasSubject;
+  const mockupJobCount = isReplacingPresets ? 1 : chosenPresets.length;
+  const canGenerateMockup = Boolean(logo.uploadedImage) && !logo.logoPreprocessor.isProcessing
+    && mockupJobCount > 0 && provider.capabilities.edit
+    && (isReplacingPresets || missingTemplateFields.length === 0);
+  const compilePresetPrompt = (preset: MockupPreset) =>
+    compilePrompt(composition, fillTemplate(preset.promptTemplate, templateValues));
+  const mockupPromptPreview = isReplacingPresets
+    ? compilePrompt(composition)
+    : chosenPresets.length > 0 ? compilePresetPrompt(chosenPresets[0]) : '';
+
+  const togglePreset = (id: string) => {
+    setSelectedPresets(selectedPresets.includes(id) ? selectedPresets.filter(p => p !== id) : [...selectedPresets, id]);
+  };
+
+  const handleMockupGenerate = () => {
+    if (!logo.uploadedImage || !projectId) return;
+
+    // Strip data:image/xyz;base64, prefix
+    const base64Data = logo.uploadedImage.split(',')[1];
+    const base = {
+      kind: 'mockup' as const,
+      projectId,
+      providerId,
+      base64Image: base64Data,
+      mimeType: logo.uploadedMimeType,
+      input: { kind: 'logo' as const, id: logo.activeLogoId, mimeType: logo.uploadedMimeType },
+    };
+    const settingsFor = (prompt: string, presetId?: string): GenerationSettings => ({
+      mode: AppMode.MOCKUP,
+      providerId,
+      prompt,
+      composition,
+      presetId,
+      promptMode: mockupPromptMode,
+      templateValues,
+      preprocess: logo.logoPreprocessor.options,
+    });
+
+    // A replacing prompt runs once on its own; otherwise every selected
+    // preset becomes its own job, with the composer's additions appended.
+    if (isReplacingPresets) {
+      const prompt = compilePrompt(composition);
+      enqueueJobs([{ label: 'Custom edit', input: { ...base, prompt, settings: settingsFor(prompt) } }]);
+      return;
+    }
+
+    enqueueJobs(
+      chosenPresets.map(preset => {
+        const prompt = compilePresetPrompt(preset);
+        return {
+          label: preset.name,
+          input: { ...base, prompt, presetId: preset.id, settings: settingsFor(prompt, preset.id) },
+        };
+      })
+    );
+  };
+
+  return {
+    selectedPresets,
+    setSelectedPresets,
+    togglePreset,
+    chosenPresets,
+    templateFields,
+    templateValues,
+    setTemplateValues,
+    mockupPromptMode,
+    setMockupPromptMode,
+    isReplacingPresets,
+    mockupJobCount,
+    mockupPromptPreview,
+    canGenerateMockup,
+    handleMockupGenerate,
+  };
+};
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MockupPreset } from '../types';
+import { loadPresets, savePresets, mergePresets, parsePresetFile } from '../services/presetLibrary';
+import { createId } from '../utils/id';
+
+/**
+ * Editable mockup preset catalog, saved to localStorage on every change.
+ */
+export const usePresetLibrary = () => {
+  const [presets, setPresets] = useState<MockupPreset[]>(loadPresets);
+
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  const createPreset = useCallback((preset: Omit<MockupPreset, 'id' | 'builtIn'>) => {
+    const created: MockupPreset = { ...preset, id: createId() };
+    setPresets(prev => [...prev, created]);
+    return created;
+  }, []);
+
+  const updatePreset = useCallback((id: string, patch: Partial<Omit<MockupPreset, 'id' | 'builtIn'>>) => {
+    setPresets(prev => prev.map(p => (p.id === id && !p.builtIn ? { ...p, ...patch } : p)));
+  }, []);
+
+  const duplicatePreset = useCallback((id: string) => {
+    setPresets(prev => {
+      const index = prev.findIndex(p => p.id === id);
+      if (index === -1) return prev;
+      const { builtIn, ...source } = prev[index];
+      const copy: MockupPreset = { ...source, id: createId(), name: `${source.name} (copy)` };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id || p.builtIn));
+  }, []);
+
+  const movePreset = useCallback((id: string, offset: number) => {
+    setPresets(prev => {
+      const from = prev.findIndex(p => p.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
+  /** Merge presets that arrived from elsewhere, e.g. a shared setup. */
+  const addPresets = useCallback((incoming: MockupPreset[]) => {
+    setPresets(prev => mergePresets(prev, incoming));
+  }, []);
+
+  /** Import a preset file; throws with a user-facing message if invalid. */
+  const importPresets = useCallback((json: string) => {
+    const incoming = parsePresetFile(json);
+    addPresets(incoming);
+    return incoming.length;
+  }, [addPresets]);
+
+  return {
+    presets,
+    createPreset,
+    updatePreset,
+    duplicatePreset,
+    deletePreset,
+    movePreset,
+    addPresets,
+    importPresets,
+  };
+};
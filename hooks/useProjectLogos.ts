@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ProjectLogo } from '../types';
+import { listLogos, saveLogo, deleteLogo } from '../services/projectStore';
+
+/**
+ * Logos uploaded to the active project, newest first. Owns the object
+ * URLs of the loaded thumbnails.
+ */
+export const useProjectLogos = (projectId: string | null) => {
+  const [logos, setLogos] = useState<ProjectLogo[]>([]);
+  // id -> object URL for every logo currently loaded.
+  const objectUrls = useRef(new Map<string, string>());
+
+  const track = (loaded: ProjectLogo[]) => {
+    loaded.forEach(logo => objectUrls.current.set(logo.id, logo.url));
+    return loaded;
+  };
+
+  useEffect(() => {
+    setLogos([]);
+    if (!projectId) return;
+    let cancelled = false;
+    const urls = objectUrls.current;
+
+    listLogos(projectId)
+      .then(loaded => {
+        if (cancelled) {
+          loaded.forEach(logo => URL.revokeObjectURL(logo.url));
+          return;
+        }
+        setLogos(track(loaded));
+      })
+      .catch(err => console.error("Failed to load logos:", err));
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, [projectId]);
+
+  const addLogo = useCallback(async (file: Blob, name: string) => {
+    if (!projectId) throw new Error("No project is open.");
+    const logo = await saveLogo(projectId, file, name);
+    track([logo]);
+    setLogos(prev => [logo, ...prev]);
+    return logo;
+  }, [projectId]);
+
+  const removeLogo = useCallback(async (id: string) => {
+    await deleteLogo(id);
+    const url = objectUrls.current.get(id);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.current.delete(id);
+    setLogos(prev => prev.filter(logo => logo.id !== id));
+  }, []);
+
+  return { logos, addLogo, removeLogo };
+};
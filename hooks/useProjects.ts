@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Project } from '../types';
+import { DEFAULT_PROJECT_ID } from '../services/db';
+import { listProjects, saveProject, deleteProject } from '../services/projectStore';
+import { exportProjectArchive, importProjectArchive } from '../services/projectArchive';
+import { createId } from '../utils/id';
+
+const ACTIVE_PROJECT_STORAGE_KEY = 'mockupai.activeProjectId';
+
+/**
+ * Project list and the active project, which is remembered across visits.
+ * `activeProject` is null until the list has loaded from IndexedDB.
+ */
+export const useProjects = () => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string>(
+    () => localStorage.getItem(ACTIVE_PROJECT_STORAGE_KEY) ?? DEFAULT_PROJECT_ID
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  // The latest list, including updates made earlier in the same tick that haven't rendered yet.
+  const projectsRef = useRef(projects);
+  projectsRef.current = projects;
+
+  useEffect(() => {
+    listProjects()
+      .then(loaded => {
+        setProjects(loaded);
+        // The remembered project may have been deleted in another tab.
+        setActiveProjectId(prev => (loaded.some(p => p.id === prev) ? prev : loaded[0]?.id ?? prev));
+      })
+      .catch(err => console.error("Failed to load projects:", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_PROJECT_STORAGE_KEY, activeProjectId);
+  }, [activeProjectId]);
+
+  const activeProject = isLoading ? null : projects.find(p => p.id === activeProjectId) ?? null;
+
+  const createProject = useCallback(async (name: string) => {
+    const project: Project = { id: createId(), name, createdAt: Date.now(), selectedPresets: ['mug'] };
+    await saveProject(project);
+    projectsRef.current = [...projectsRef.current, project];
+    setProjects(prev => [...prev, project]);
+    setActiveProjectId(project.id);
+    return project;
+  }, []);
+
+  /**
+   * Apply a change locally right away and persist it in the background.
+   * Successive calls build on each other, even within one tick.
+   */
+  const updateProject = useCallback((id: string, patch: Partial<Omit<Project, 'id'>>) => {
+    const project = projectsRef.current.find(p => p.id === id);
+    if (!project) return;
+    const updated = { ...project, ...patch };
+    projectsRef.current = projectsRef.current.map(p => (p.id === id ? updated : p));
+    setProjects(prev => prev.map(p => (p.id === id ? { ...p, ...patch } : p)));
+    saveProject(updated).catch(err => console.error("Failed to save project:", err));
+  }, []);
+
+  const removeProject = useCallback(async (id: string) => {
+    if (projectsRef.current.length <= 1) throw new Error("A studio needs at least one project.");
+    await deleteProject(id);
+    const remaining = projectsRef.current.filter(p => p.id !== id);
+    projectsRef.current = remaining;
+    setProjects(prev => prev.filter(p => p.id !== id));
+    setActiveProjectId(prev => (prev === id ? remaining[0].id : prev));
+  }, []);
+
+  const exportArchive = useCallback(async (id: string) => {
+    const project = projectsRef.current.find(p => p.id === id);
+    if (!project) throw new Error("Unknown project.");
+    return exportProjectArchive(project);
+  }, []);
+
+  /** Import an archive as a new project and switch to it; throws with a user-facing message if invalid. */
+  const importArchive = useCallback(async (file: Blob) => {
+    const project = await importProjectArchive(file, projectsRef.current.map(p => p.name));
+    projectsRef.current = [...projectsRef.current, project];
+    setProjects(prev => [...prev, project]);
+    setActiveProjectId(project.id);
+    return project;
+  }, []);
+
+  return {
+    projects,
+    activeProject,
+    switchProject: setActiveProjectId,
+    createProject,
+    updateProject,
+    removeProject,
+    exportArchive,
+    importArchive,
+  };
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { AspectRatio } from '../types';
+import { getProvider, hasProvider, getDefaultProviderId } from '../services/providers/registry';
+import { useProvidersChecked } from './useProvidersChecked';
+
+const PROVIDER_STORAGE_KEY = 'mockupai.providerId';
+
+const loadProviderId = (): string => {
+  const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  return saved && hasProvider(saved) ? saved : getDefaultProviderId();
+};
+
+/**
+ * The selected provider and the output settings it limits. The aspect
+ * ratio and variant count fall back to values the provider supports
+ * whenever it changes.
+ */
+export const useProviderSettings = () => {
+  const [providerId, setProviderId] = useState<string>(loadProviderId);
+  const [numberOfImages, setNumberOfImages] = useState(1);
+  const [selectedAspectRatio, setSelectedAspectRatio] = useState<AspectRatio>(AspectRatio.SQUARE);
+  const provider = getProvider(providerId);
+  const providersChecked = useProvidersChecked();
+
+  // Only explicit choices are remembered, so a fallback while the server is down doesn't stick.
+  const selectProvider = (id: string) => {
+    setProviderId(id);
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  };
+
+  useEffect(() => {
+    // The remembered provider may have become unusable (e.g. the studio server isn't running).
+    if (providersChecked && !provider.isAvailable()) setProviderId(getDefaultProviderId());
+  }, [providersChecked, provider]);
+
+  useEffect(() => {
+    if (numberOfImages > provider.capabilities.maxImagesPerRequest) {
+      setNumberOfImages(provider.capabilities.maxImagesPerRequest);
+    }
+  }, [provider, numberOfImages]);
+
+  useEffect(() => {
+    // Fall back to a ratio the newly selected provider can render.
+    if (!provider.capabilities.aspectRatios.includes(selectedAspectRatio)) {
+      setSelectedAspectRatio(provider.capabilities.aspectRatios[0]);
+    }
+  }, [provider, selectedAspectRatio]);
+
+  return { providerId, provider, selectProvider, numberOfImages, setNumberOfImages, selectedAspectRatio, setSelectedAspectRatio };
+};
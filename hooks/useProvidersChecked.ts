@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { checkProviders } from '../services/providers/registry';
+
+/**
+ * False until every provider knows whether it's available. Components that
+ * show availability re-render when it turns true.
+ */
+export const useProvidersChecked = () => {
+  const [isChecked, setIsChecked] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    checkProviders().then(() => {
+      if (!cancelled) setIsChecked(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  return isChecked;
+};
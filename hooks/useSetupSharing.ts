@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { describeError } from '../services/errors';
+import { StudioState, encodeStudioState, exportSetup, parseSetupFile } from '../services/studioState';
+import { dataUrlToBlob, blobToDataUrl } from '../utils/dataUrl';
+import { downloadBlob } from '../utils/download';
+import { useActiveLogo } from './useActiveLogo';
+import { usePresetLibrary } from './usePresetLibrary';
+import { useStudioUrl } from './useStudioUrl';
+import { useToasts } from './useToasts';
+
+export interface SetupSharingOptions {
+  /** The sidebar settings, and how to restore them from a link or a file. */
+  studioState: StudioState;
+  applyStudioState: (state: StudioState) => void;
+  /** Whether the active project has loaded, so a linked preset selection has somewhere to go. */
+  ready: boolean;
+  presetLibrary: ReturnType<typeof usePresetLibrary>;
+  logo: ReturnType<typeof useActiveLogo>;
+  pushToast: ReturnType<typeof useToasts>['pushToast'];
+}
+
+/**
+ * Sharing the sidebar setup: kept in the URL as it changes, and as a setup
+ * file that also carries the logo, its preprocessing and the user-defined
+ * presets the setup selects.
+ */
+export const useSetupSharing = ({ studioState, applyStudioState, ready, presetLibrary, logo, pushToast }: SetupSharingOptions) => {
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const { logoPreprocessor } = logo;
+
+  useStudioUrl(studioState, applyStudioState, ready);
+
+  const link = `${window.location.origin}${window.location.pathname}${window.location.search}#${encodeStudioState(studioState)}`;
+  const logoName = logoPreprocessor.file ? logo.activeLogoName ?? 'logo' : null;
+
+  const handleDownloadSetup = async () => {
+    try {
+      const file = logoPreprocessor.file;
+      const bundled = file ? { name: logo.activeLogoName ?? 'logo', dataUrl: await blobToDataUrl(file) } : undefined;
+      const json = exportSetup(studioState, presetLibrary.presets, bundled, file ? logoPreprocessor.options : undefined);
+      downloadBlob(new Blob([json], { type: 'application/json' }), `mockupai-setup-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't create the setup file", message: describeError(err).detail });
+    }
+  };
+
+  const handleOpenSetup = async (file: File) => {
+    try {
+      const setup = parseSetupFile(await file.text());
+      presetLibrary.addPresets(setup.presets);
+      applyStudioState(setup.state);
+      if (setup.preprocess) logoPreprocessor.setOptions(setup.preprocess);
+      if (setup.logo) {
+        const blob = dataUrlToBlob(setup.logo.dataUrl);
+        await logo.adoptLogo(new File([blob], setup.logo.name, { type: blob.type }));
+      }
+      setIsShareOpen(false);
+      pushToast({ tone: 'success', title: 'Setup opened', message: setup.logo ? undefined : 'The file has no logo; upload one to start generating.' });
+    } catch (err) {
+      console.error(err);
+      pushToast({ tone: 'error', title: "Couldn't open that setup file", message: describeError(err).detail });
+    }
+  };
+
+  return {
+    isShareOpen,
+    openShare: () => setIsShareOpen(true),
+    closeShare: () => setIsShareOpen(false),
+    link,
+    logoName,
+    handleDownloadSetup,
+    handleOpenSetup,
+  };
+};
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { StudioState, decodeStudioState, encodeStudioState } from '../services/studioState';
+
+// Typing settles into one history entry instead of one per keystroke.
+const HISTORY_DEBOUNCE_MS = 600;
+
+/**
+ * Mirrors the studio settings in the location hash. Each settled change is
+ * a new history entry, so back/forward step through earlier setups; a link
+ * opened with settings in its hash restores them once `ready` (the active
+ * project, which holds the preset selection, has loaded).
+ */
+export const useStudioUrl = (state: StudioState, apply: (state: StudioState) => void, ready: boolean) => {
+  const encoded = encodeStudioState(state);
+  const encodedRef = useRef(encoded);
+  const applyRef = useRef(apply);
+  const restoredRef = useRef(false);
+  // Set while the state is catching up with the URL, so it isn't pushed back as a new entry.
+  const followingUrlRef = useRef(false);
+  encodedRef.current = encoded;
+  applyRef.current = apply;
+
+  const applyFromUrl = () => {
+    const linked = decodeStudioState(window.location.hash);
+    if (!linked || encodeStudioState(linked) === encodedRef.current) return;
+    followingUrlRef.current = true;
+    applyRef.current(linked);
+  };
+
+  useEffect(() => {
+    if (!ready || restoredRef.current) return;
+    restoredRef.current = true;
+    applyFromUrl();
+  }, [ready]);
+
+  useEffect(() => {
+    window.addEventListener('popstate', applyFromUrl);
+    return () => window.removeEventListener('popstate', applyFromUrl);
+  }, []);
+
+  useEffect(() => {
+    if (!restoredRef.current) return;
+    const timer = setTimeout(() => {
+      const following = followingUrlRef.current;
+      followingUrlRef.current = false;
+      const hash = `#${encoded}`;
+      if (hash === window.location.hash) return;
+      const url = `${window.location.pathname}${window.location.search}${hash}`;
+      // A session's first URL replaces the bare one rather than adding a step back to it.
+      if (following || !window.location.hash) {
+        window.history.replaceState(null, '', url);
+      } else {
+        window.history.pushState(null, '', url);
+      }
+    }, HISTORY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [encoded, ready]);
+};
@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+import { createId } from '../utils/id';
+
+export type ToastTone = 'error' | 'info' | 'success';
+
+export interface Toast {
+  id: string;
+  tone: ToastTone;
+  title: string;
+  message?: string;
+  action?: { label: string; onClick: () => void };
+}
+
+const AUTO_DISMISS_MS = 5000;
+
+/**
+ * Inline notifications. Errors stay until dismissed; other toasts fade out
+ * on their own.
+ */
+export const useToasts = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const pushToast = useCallback((toast: Omit<Toast, 'id'>) => {
+    const id = createId();
+    setToasts(prev => [...prev, { ...toast, id }]);
+    if (toast.tone !== 'error') {
+      setTimeout(() => dismissToast(id), AUTO_DISMISS_MS);
+    }
+    return id;
+  }, [dismissToast]);
+
+  return { toasts, pushToast, dismissToast };
+};
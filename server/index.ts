@@ -0,0 +1,174 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { loadEnvFile } from "node:process";
+import { API_ROUTES, EnhanceResponseBody, ErrorResponseBody, HealthResponseBody, ImagesResponseBody } from "../services/api";
+import { GenerationErrorKind, toGenerationError } from "../services/errors";
+import { createRateLimiter } from "./rateLimit";
+import { Upstream, createGeminiUpstream, createStubUpstream } from "./upstreams";
+import {
+  HttpError,
+  ValidationLimits,
+  parseCompositeBody,
+  parseEnhanceBody,
+  parseGenerateBody,
+  parseMockupBody,
+  readJsonBody,
+} from "./validation";
+
+/**
+ * Studio server: holds the Gemini API key and exposes the generation calls
+ * the browser needs as JSON endpoints, so the key never reaches a client.
+ *
+ * Configuration (environment, or .env.local in the working directory):
+ *   GEMINI_API_KEY       Key used for the gemini upstream
+ *   UPSTREAM             'gemini' (default) or 'stub' for offline testing
+ *   GEMINI_BASE_URL      Send Gemini calls to another host, e.g. a local stub
+ *   PORT                 Default 8787
+ *   RATE_LIMIT_BURST     Requests a client may make at once (default 10)
+ *   RATE_LIMIT_PER_MIN   Sustained requests per client per minute (default 20)
+ *   TRUST_PROXY          '1' to identify clients by X-Forwarded-For
+ */
+
+try {
+  loadEnvFile('.env.local');
+} catch {
+  // No .env.local; use the process environment as is.
+}
+
+const env = process.env;
+const PORT = Number(env.PORT) || 8787;
+const TRUST_PROXY = env.TRUST_PROXY === '1';
+
+const LIMITS: ValidationLimits = {
+  maxBodyBytes: 25 * 1024 * 1024,
+  maxImageBytes: 7 * 1024 * 1024,
+  maxPromptLength: 4000,
+  maxReferenceImages: 4,
+  maxImagesPerRequest: 4,
+};
+
+const upstream: Upstream = env.UPSTREAM === 'stub'
+  ? createStubUpstream()
+  : createGeminiUpstream(env.GEMINI_API_KEY, env.GEMINI_BASE_URL);
+
+const rateLimiter = createRateLimiter(Number(env.RATE_LIMIT_BURST) || 10, Number(env.RATE_LIMIT_PER_MIN) || 20);
+
+const STATUS_BY_KIND: Record<GenerationErrorKind, number> = {
+  auth: 401,
+  quota: 429,
+  safety: 422,
+  empty: 502,
+  timeout: 504,
+  network: 502,
+  cancelled: 499,
+  budget: 402,
+  unknown: 500,
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  if (res.headersSent || res.destroyed) return;
+  const json = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(json), ...headers });
+  res.end(json);
+};
+
+const sendError = (res: ServerResponse, status: number, kind: GenerationErrorKind, message: string, headers?: Record<string, string>) => {
+  const body: ErrorResponseBody = { error: { kind, message } };
+  sendJson(res, status, body, headers);
+};
+
+const clientId = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+type Handler = (body: unknown, signal: AbortSignal) => Promise<ImagesResponseBody | EnhanceResponseBody>;
+
+const ROUTES: Record<string, Handler> = {
+  [API_ROUTES.mockup]: async (body, signal) => {
+    const { base64Image, mimeType, prompt } = parseMockupBody(body, LIMITS);
+    return { images: [await upstream.editImage(base64Image, mimeType, prompt, signal)] };
+  },
+  [API_ROUTES.composite]: async (body, signal) => {
+    const { references, prompt } = parseCompositeBody(body, LIMITS);
+    return { images: [await upstream.composeImage(references, prompt, signal)] };
+  },
+  [API_ROUTES.generate]: async (body, signal) => {
+    const { prompt, aspectRatio, numberOfImages } = parseGenerateBody(body, LIMITS);
+    return { images: await upstream.generateImage(prompt, aspectRatio, numberOfImages, signal) };
+  },
+  [API_ROUTES.enhance]: async (body, signal) => {
+    const { draft } = parseEnhanceBody(body, LIMITS);
+    return { enhancement: await upstream.enhancePrompt(draft, signal) };
+  },
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+  if (path === API_ROUTES.health && req.method === 'GET') {
+    const body: HealthResponseBody = {
+      upstream: upstream.name,
+      configured: upstream.isConfigured(),
+      outputMimeType: upstream.outputMimeType,
+    };
+    sendJson(res, 200, body);
+    return;
+  }
+
+  const route = ROUTES[path];
+  if (!route) {
+    sendError(res, 404, 'unknown', `No endpoint at ${path}`);
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendError(res, 405, 'unknown', `${path} only accepts POST`, { Allow: 'POST' });
+    return;
+  }
+
+  const { allowed, retryAfterMs } = rateLimiter.take(clientId(req));
+  if (!allowed) {
+    sendError(res, 429, 'quota', "Too many requests from this client. Slow down and retry.", {
+      'Retry-After': String(Math.ceil(retryAfterMs / 1000)),
+    });
+    req.resume();
+    return;
+  }
+
+  // Stop the upstream call if the browser cancels or disconnects.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readJsonBody(req, LIMITS.maxBodyBytes);
+    sendJson(res, 200, await route(body, controller.signal));
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 413) {
+      // The client may still be uploading; answer, then drop the connection
+      // instead of reading the rest of an oversized body.
+      res.once('finish', () => req.socket.destroy());
+      sendError(res, 413, 'unknown', error.message, { Connection: 'close' });
+      return;
+    }
+    if (error instanceof HttpError) {
+      sendError(res, error.status, 'unknown', error.message);
+      return;
+    }
+    const generationError = toGenerationError(error);
+    if (generationError.kind !== 'cancelled') {
+      console.error(`${path} failed:`, generationError.message);
+    }
+    sendError(res, STATUS_BY_KIND[generationError.kind], generationError.kind, generationError.message);
+  }
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(err => {
+    console.error("Unhandled error:", err);
+    sendError(res, 500, 'unknown', "Internal server error");
+  });
+}).listen(PORT, () => {
+  console.log(`MockupAI server listening on http://localhost:${PORT} (upstream: ${upstream.name}${upstream.isConfigured() ? '' : ', not configured'})`);
+});
@@ -0,0 +1,35 @@
+import { deflateSync } from "node:zlib";
+import { crc32 } from "../utils/crc32";
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const out = Buffer.alloc(12 + data.length);
+  out.writeUInt32BE(data.length, 0);
+  typeAndData.copy(out, 4);
+  out.writeUInt32BE(crc32(typeAndData), 8 + data.length);
+  return out;
+};
+
+/**
+ * Encode a single-colour RGB PNG. Enough for stub responses, which only
+ * need to be valid images of the right size.
+ */
+export const solidPng = (width: number, height: number, [r, g, b]: [number, number, number]): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // Truecolour
+  // Each scanline starts with filter type 0, followed by RGB triples.
+  const row = Buffer.alloc(1 + width * 3);
+  for (let x = 0; x < width; x++) row.set([r, g, b], 1 + x * 3);
+  const pixels = Buffer.concat(Array.from({ length: height }, () => row));
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(pixels)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
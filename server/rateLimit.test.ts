@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  it('allows a burst up to the capacity, then refuses', () => {
+    const limiter = createRateLimiter(3, 60);
+    const now = 1_000_000;
+    expect([1, 2, 3].map(() => limiter.take('a', now).allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a', now)).toEqual({ allowed: false, retryAfterMs: 1000 });
+  });
+
+  it('refills at the per-minute rate', () => {
+    const limiter = createRateLimiter(1, 6);
+    const now = 1_000_000;
+    limiter.take('a', now);
+    expect(limiter.take('a', now + 5000)).toEqual({ allowed: false, retryAfterMs: 5000 });
+    expect(limiter.take('a', now + 10000).allowed).toBe(true);
+  });
+
+  it('never refills past the capacity', () => {
+    const limiter = createRateLimiter(2, 60);
+    const now = 1_000_000;
+    limiter.take('a', now);
+    const later = now + 60 * 60 * 1000;
+    expect([1, 2, 3].map(() => limiter.take('a', later).allowed)).toEqual([true, true, false]);
+  });
+
+  it('keeps a separate bucket per client', () => {
+    const limiter = createRateLimiter(1, 1);
+    const now = 1_000_000;
+    expect(limiter.take('a', now).allowed).toBe(true);
+    expect(limiter.take('a', now).allowed).toBe(false);
+    expect(limiter.take('b', now).allowed).toBe(true);
+  });
+});
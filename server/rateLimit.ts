@@ -0,0 +1,52 @@
+/**
+ * Per-client token buckets. Each client may burst up to `capacity`
+ * requests, then gets `refillPerMinute` more per minute.
+ */
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** How long until the next request would be allowed; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take(clientId: string, now?: number): RateLimitDecision;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets untouched for this long are full again and can be dropped.
+const IDLE_MS = 10 * 60 * 1000;
+
+export const createRateLimiter = (capacity: number, refillPerMinute: number): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60000;
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < IDLE_MS) return;
+    lastSweep = now;
+    buckets.forEach((bucket, id) => {
+      if (now - bucket.updatedAt > IDLE_MS) buckets.delete(id);
+    });
+  };
+
+  return {
+    take(clientId, now = Date.now()) {
+      sweep(now);
+      const bucket = buckets.get(clientId) ?? { tokens: capacity, updatedAt: now };
+      bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(clientId, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+};
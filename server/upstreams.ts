@@ -0,0 +1,274 @@
+import { GenerateContentResponse, GoogleGenAI, Modality, Part, Type } from "@google/genai";
+import { AspectRatio } from "../types";
+import { GenerationError } from "../services/errors";
+import { ImageProvider, ImageProviderCapabilities, PromptEnhancement, ProviderImage } from "../services/providers/types";
+import { placeholderEnhancement } from "../services/promptEnhancer";
+import { referenceRoleInfo } from "../services/referenceRoles";
+import { solidPng } from "./png";
+
+/**
+ * Where the server sends generation requests. `gemini` calls Google with
+ * the server's API key; `stub` answers locally without network access,
+ * for development and tests. A local stub of the Gemini API itself can be
+ * used instead by pointing GEMINI_BASE_URL at it.
+ */
+
+export interface Upstream extends Pick<ImageProvider, 'editImage' | 'composeImage' | 'generateImage' | 'enhancePrompt'> {
+  name: string;
+  /** False when requests can't succeed, e.g. no API key is set. */
+  isConfigured(): boolean;
+  /** Image types this upstream returns; reported to the browser by the health check. */
+  outputMimeType: ImageProviderCapabilities['outputMimeType'];
+}
+
+const EDIT_MODEL = 'gemini-2.5-flash-image';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+const ENHANCE_INSTRUCTION = [
+  "You rewrite short image prompts for a text-to-image model (Imagen).",
+  "Keep the user's subject and intent; never add text, logos or people they didn't ask for.",
+  "Expand the draft into one vivid, specific paragraph a photographer would write: subject detail, setting, composition and framing, lens and camera, lighting, colour palette and mood.",
+  "Return the recommended prompt and two alternatives that take the same subject in clearly different directions.",
+  "Each prompt must be under 80 words.",
+].join(' ');
+
+const ENHANCE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    prompt: { type: Type.STRING },
+    alternatives: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['prompt', 'alternatives'],
+};
+
+// Finish reasons that mean the request was refused rather than failed.
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Shared by edit and compose, which both return one image from generateContent.
+const toEditedImage = (response: GenerateContentResponse): ProviderImage => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('safety', `Prompt blocked: ${blockReason}`);
+  }
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw new GenerationError('safety', `Response blocked: ${candidate.finishReason}`);
+  }
+
+  // Extract image from response
+  const imagePart = candidate?.content?.parts?.find(part => part.inlineData?.data);
+  if (imagePart?.inlineData) {
+    const { data } = imagePart.inlineData;
+    const mimeType = imagePart.inlineData.mimeType ?? 'image/png';
+    return {
+      dataUrl: `data:${mimeType};base64,${data}`,
+      mimeType,
+      providerId: 'gemini',
+      model: EDIT_MODEL,
+      modelLabel: 'Gemini Flash',
+    };
+  }
+
+  throw new GenerationError('empty', "No image generated in response");
+};
+
+export const createGeminiUpstream = (apiKey: string | undefined, baseUrl?: string): Upstream => {
+  let client: GoogleGenAI | null = null;
+
+  // Create the client lazily so the server still starts without a key.
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new GenerationError('auth', "GEMINI_API_KEY is not set on the server");
+    }
+    if (!client) {
+      client = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+    }
+    return client;
+  };
+
+  return {
+    name: baseUrl ? `gemini (${baseUrl})` : 'gemini',
+    isConfigured: () => Boolean(apiKey),
+    outputMimeType: { edit: 'image/png', textToImage: 'image/jpeg' },
+
+    /**
+     * Edit/Transform an image using Gemini 2.5 Flash Image.
+     * This is used for the "Mockup" feature where the user's logo (image)
+     * is transformed into a product shot based on the prompt.
+     */
+    async editImage(base64Image, mimeType, prompt, signal) {
+      const response = await getClient().models.generateContent({
+        model: EDIT_MODEL,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                data: base64Image,
+                mimeType: mimeType,
+              },
+            },
+            {
+              text: prompt,
+            },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+          abortSignal: signal,
+        },
+      });
+
+      return toEditedImage(response);
+    },
+
+    /**
+     * Combine several reference images in one request. Each image is
+     * preceded by a caption naming its role, so the model can tell the
+     * partner logo from the product photo.
+     */
+    async composeImage(references, prompt, signal) {
+      const parts: Part[] = [
+        { text: `You are given ${references.length} reference image${references.length === 1 ? '' : 's'}. Each one is introduced by its role.` },
+      ];
+      references.forEach((reference, index) => {
+        const info = referenceRoleInfo(reference.role);
+        parts.push(
+          { text: `Image ${index + 1} (${info.label}): ${info.instruction}` },
+          { inlineData: { data: reference.base64Image, mimeType: reference.mimeType } },
+        );
+      });
+      parts.push({ text: `Create one new image from these references. ${prompt}` });
+
+      const response = await getClient().models.generateContent({
+        model: EDIT_MODEL,
+        contents: { parts },
+        config: {
+          responseModalities: [Modality.IMAGE],
+          abortSignal: signal,
+        },
+      });
+
+      return toEditedImage(response);
+    },
+
+    /**
+     * Generate one or more high-quality images from scratch using Imagen 4.0.
+     */
+    async generateImage(prompt, aspectRatio, numberOfImages, signal) {
+      const response = await getClient().models.generateImages({
+        model: IMAGE_MODEL,
+        prompt: prompt,
+        config: {
+          numberOfImages: numberOfImages,
+          outputMimeType: 'image/jpeg',
+          aspectRatio: aspectRatio,
+          abortSignal: signal,
+        },
+      });
+
+      const generatedImages = response.generatedImages ?? [];
+      // Individual candidates can be filtered out while the rest succeed.
+      const images = generatedImages.filter(generated => generated.image?.imageBytes);
+      if (images.length > 0) {
+        return images.map(generated => ({
+          dataUrl: `data:image/jpeg;base64,${generated.image.imageBytes}`,
+          mimeType: 'image/jpeg',
+          providerId: 'gemini',
+          model: IMAGE_MODEL,
+          modelLabel: 'Imagen 4',
+        }));
+      }
+
+      const filteredReason = generatedImages.find(generated => generated.raiFilteredReason)?.raiFilteredReason;
+      if (filteredReason) {
+        throw new GenerationError('safety', filteredReason);
+      }
+      throw new GenerationError('empty', "No image generated");
+    },
+
+    /**
+     * Rewrite a draft prompt with Gemini 2.5 Flash, answered as JSON so the
+     * recommendation and alternatives arrive separately.
+     */
+    async enhancePrompt(draft, signal) {
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: draft,
+        config: {
+          systemInstruction: ENHANCE_INSTRUCTION,
+          responseMimeType: 'application/json',
+          responseSchema: ENHANCE_SCHEMA,
+          abortSignal: signal,
+        },
+      });
+
+      const blockReason = response.promptFeedback?.blockReason;
+      if (blockReason) {
+        throw new GenerationError('safety', `Prompt blocked: ${blockReason}`);
+      }
+      let parsed: Partial<PromptEnhancement>;
+      try {
+        parsed = JSON.parse(response.text ?? '');
+      } catch {
+        throw new GenerationError('empty', "The text model didn't return a usable prompt");
+      }
+      if (typeof parsed.prompt !== 'string' || !parsed.prompt.trim()) {
+        throw new GenerationError('empty', "The text model didn't return a usable prompt");
+      }
+      const alternatives = Array.isArray(parsed.alternatives) ? parsed.alternatives : [];
+      return {
+        prompt: parsed.prompt.trim(),
+        alternatives: alternatives.filter((text): text is string => typeof text === 'string' && Boolean(text.trim())).map(text => text.trim()),
+        model: TEXT_MODEL,
+      };
+    },
+  };
+};
+
+const STUB_MODEL = 'upstream-stub';
+// Long edge of stub images; small, since only the shape matters.
+const STUB_SIZE = 256;
+
+const stubImage = (dataUrl: string, mimeType: string): ProviderImage => ({
+  dataUrl,
+  mimeType,
+  providerId: 'gemini',
+  model: STUB_MODEL,
+  modelLabel: 'Stub',
+});
+
+const stubSize = (aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: STUB_SIZE, height: Math.round((STUB_SIZE * h) / w) }
+    : { width: Math.round((STUB_SIZE * w) / h), height: STUB_SIZE };
+};
+
+const stubPng = (aspectRatio: AspectRatio, color: [number, number, number]): ProviderImage => {
+  const { width, height } = stubSize(aspectRatio);
+  return stubImage(`data:image/png;base64,${solidPng(width, height, color).toString('base64')}`, 'image/png');
+};
+
+/**
+ * Answers instantly without calling anyone: edits, composites and
+ * generations are flat colour PNGs (the latter at the requested aspect
+ * ratio), and enhancements are canned.
+ */
+export const createStubUpstream = (): Upstream => ({
+  name: 'stub',
+  isConfigured: () => true,
+  outputMimeType: { edit: 'image/png', textToImage: 'image/png' },
+  async editImage() {
+    return stubPng(AspectRatio.SQUARE, [160, 90, 40]);
+  },
+  async composeImage() {
+    return stubPng(AspectRatio.SQUARE, [90, 160, 40]);
+  },
+  async generateImage(_prompt, aspectRatio, numberOfImages) {
+    return Array.from({ length: numberOfImages }, (_, index) => stubPng(aspectRatio, [40 + index * 50, 90, 160]));
+  },
+  async enhancePrompt(draft) {
+    return { ...placeholderEnhancement(draft), model: STUB_MODEL };
+  },
+});
@@ -0,0 +1,133 @@
+import type { IncomingMessage } from 'node:http';
+import { PassThrough } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { HttpError, ValidationLimits, parseCompositeBody, parseGenerateBody, parseMockupBody, readJsonBody, sniffImageType } from './validation';
+
+const LIMITS: ValidationLimits = {
+  maxBodyBytes: 1024,
+  maxImageBytes: 64,
+  maxPromptLength: 20,
+  maxReferenceImages: 2,
+  maxImagesPerRequest: 4,
+};
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 16]);
+
+const request = (headers: Record<string, string>) => {
+  const stream = new PassThrough();
+  return Object.assign(stream, { headers }) as unknown as IncomingMessage & PassThrough;
+};
+
+const rejection = async (run: () => unknown): Promise<HttpError> => {
+  try {
+    await run();
+  } catch (error) {
+    if (error instanceof HttpError) return error;
+    throw error;
+  }
+  throw new Error('Expected an HttpError');
+};
+
+describe('readJsonBody', () => {
+  it('parses a JSON body', async () => {
+    const req = request({ 'content-type': 'application/json; charset=utf-8' });
+    const body = readJsonBody(req, LIMITS.maxBodyBytes);
+    req.end('{"prompt":"mug"}');
+    await expect(body).resolves.toEqual({ prompt: 'mug' });
+  });
+
+  it('refuses other content types', async () => {
+    const req = request({ 'content-type': 'text/plain' });
+    const error = await rejection(() => readJsonBody(req, LIMITS.maxBodyBytes));
+    expect(error.status).toBe(415);
+  });
+
+  it('refuses a body declared too large before reading it', async () => {
+    const req = request({ 'content-type': 'application/json', 'content-length': '2048' });
+    const error = await rejection(() => readJsonBody(req, LIMITS.maxBodyBytes));
+    expect(error.status).toBe(413);
+  });
+
+  it('refuses a body that grows too large, and drains the rest of it', async () => {
+    const req = request({ 'content-type': 'application/json' });
+    const body = readJsonBody(req, LIMITS.maxBodyBytes);
+    const ended = new Promise(resolve => req.on('end', resolve));
+    for (let i = 0; i < 4; i++) req.write(Buffer.alloc(512, 0x20));
+    req.end();
+
+    expect((await rejection(() => body)).status).toBe(413);
+    // Read to the end rather than cut off, so the 413 can still be delivered.
+    await ended;
+  });
+
+  it('refuses malformed JSON', async () => {
+    const req = request({ 'content-type': 'application/json' });
+    const body = readJsonBody(req, LIMITS.maxBodyBytes);
+    req.end('{"prompt":');
+    expect((await rejection(() => body)).status).toBe(400);
+  });
+});
+
+describe('sniffImageType', () => {
+  it('recognizes images by their content', () => {
+    expect(sniffImageType(PNG)).toBe('image/png');
+    expect(sniffImageType(JPEG)).toBe('image/jpeg');
+    expect(sniffImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+    expect(sniffImageType(Buffer.from('\0\0\0\x18ftypheic'))).toBe('image/heic');
+    expect(sniffImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+  });
+});
+
+describe('parseMockupBody', () => {
+  const valid = { base64Image: PNG.toString('base64'), mimeType: 'image/png', prompt: 'a mug' };
+
+  it('accepts a well-formed request', () => {
+    expect(parseMockupBody(valid, LIMITS)).toEqual(valid);
+  });
+
+  it('refuses an image whose content does not match its declared type', async () => {
+    const error = await rejection(() => parseMockupBody({ ...valid, mimeType: 'image/jpeg' }, LIMITS));
+    expect(error.status).toBe(415);
+    expect(error.message).toMatch(/contains image\/png/);
+  });
+
+  it('refuses types outside the allowed list', async () => {
+    expect((await rejection(() => parseMockupBody({ ...valid, mimeType: 'image/svg+xml' }, LIMITS))).status).toBe(415);
+  });
+
+  it('refuses images over the size limit', async () => {
+    const large = Buffer.concat([PNG, Buffer.alloc(LIMITS.maxImageBytes)]).toString('base64');
+    expect((await rejection(() => parseMockupBody({ ...valid, base64Image: large }, LIMITS))).status).toBe(413);
+  });
+
+  it('refuses prompts that are empty or too long', async () => {
+    expect((await rejection(() => parseMockupBody({ ...valid, prompt: '  ' }, LIMITS))).status).toBe(400);
+    expect((await rejection(() => parseMockupBody({ ...valid, prompt: 'x'.repeat(21) }, LIMITS))).status).toBe(400);
+  });
+});
+
+describe('parseCompositeBody', () => {
+  const reference = (role: string) => ({ role, base64Image: JPEG.toString('base64'), mimeType: 'image/jpeg', logoId: 'l1', name: 'logo.jpg' });
+
+  it('accepts role-tagged references within the limit', () => {
+    const body = parseCompositeBody({ references: [reference('primary-logo'), reference('secondary-logo')], prompt: 'co-brand' }, LIMITS);
+    expect(body.references.map(r => r.role)).toEqual(['primary-logo', 'secondary-logo']);
+  });
+
+  it('refuses unknown roles and too many references', async () => {
+    expect((await rejection(() => parseCompositeBody({ references: [reference('mascot')], prompt: 'x' }, LIMITS))).status).toBe(400);
+    const tooMany = [reference('primary-logo'), reference('secondary-logo'), reference('secondary-logo')];
+    expect((await rejection(() => parseCompositeBody({ references: tooMany, prompt: 'x' }, LIMITS))).status).toBe(400);
+  });
+});
+
+describe('parseGenerateBody', () => {
+  it('checks the aspect ratio and the number of images', async () => {
+    expect(parseGenerateBody({ prompt: 'a lamp', aspectRatio: '16:9', numberOfImages: 2 }, LIMITS))
+      .toEqual({ prompt: 'a lamp', aspectRatio: '16:9', numberOfImages: 2 });
+    expect((await rejection(() => parseGenerateBody({ prompt: 'a lamp', aspectRatio: '5:4', numberOfImages: 1 }, LIMITS))).status).toBe(400);
+    expect((await rejection(() => parseGenerateBody({ prompt: 'a lamp', aspectRatio: '1:1', numberOfImages: 5 }, LIMITS))).status).toBe(400);
+    expect((await rejection(() => parseGenerateBody({ prompt: 'a lamp', aspectRatio: '1:1', numberOfImages: 1.5 }, LIMITS))).status).toBe(400);
+  });
+});
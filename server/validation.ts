@@ -0,0 +1,172 @@
+import type { IncomingMessage } from "node:http";
+import { AspectRatio, ReferenceRole } from "../types";
+import { CompositeRequestBody, EnhanceRequestBody, GenerateRequestBody, MockupRequestBody } from "../services/api";
+import { REFERENCE_ROLES, validateReferences } from "../services/referenceRoles";
+
+/**
+ * Request parsing for the `/api` endpoints. Everything a client sends is
+ * checked here before it reaches an upstream: body size, image type and
+ * size (by content, not just the declared MIME type), and field shapes.
+ */
+
+/** A rejected request, answered with `status` and `message`. */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export interface ValidationLimits {
+  maxBodyBytes: number;
+  maxImageBytes: number;
+  maxPromptLength: number;
+  maxReferenceImages: number;
+  maxImagesPerRequest: number;
+}
+
+export const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+/**
+ * Read and parse a JSON body, refusing it as soon as it grows past `maxBytes`.
+ * The rest of a refused body is drained rather than cut off, so the client
+ * still receives the error response; closing the connection afterwards is
+ * up to the caller.
+ */
+export const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBytes) {
+      reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes`));
+      req.resume();
+      return;
+    }
+    if (!/^application\/json\b/.test(req.headers['content-type'] ?? '')) {
+      reject(new HttpError(415, "Expected an application/json body"));
+      req.resume();
+      return;
+    }
+
+    let chunks: Buffer[] = [];
+    let size = 0;
+    let refused = false;
+    req.on('data', (chunk: Buffer) => {
+      if (refused) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        refused = true;
+        chunks = [];
+        reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (refused) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// The image type actually encoded in `bytes`, from its magic numbers.
+export const sniffImageType = (bytes: Buffer): string | null => {
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (bytes.toString('ascii', 4, 8) === 'ftyp' && /^(heic|heix|hevc|heim|heis|mif1|msf1)$/.test(bytes.toString('ascii', 8, 12))) {
+    return 'image/heic';
+  }
+  return null;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${field}" must be a non-empty string`);
+  return value;
+};
+
+const validatePrompt = (body: Record<string, unknown>, limits: ValidationLimits, field = 'prompt'): string => {
+  const prompt = requireString(body, field);
+  if (prompt.length > limits.maxPromptLength) {
+    throw new HttpError(400, `"${field}" is longer than ${limits.maxPromptLength} characters`);
+  }
+  return prompt;
+};
+
+const validateImage = (base64Image: unknown, mimeType: unknown, label: string, limits: ValidationLimits) => {
+  if (typeof mimeType !== 'string' || !ALLOWED_IMAGE_TYPES.includes(mimeType)) {
+    throw new HttpError(415, `${label} must be one of ${ALLOWED_IMAGE_TYPES.join(', ')}`);
+  }
+  if (typeof base64Image !== 'string' || !base64Image || !/^[A-Za-z0-9+/]+={0,2}$/.test(base64Image)) {
+    throw new HttpError(400, `${label} is not base64 image data`);
+  }
+  const bytes = Buffer.from(base64Image, 'base64');
+  if (bytes.length > limits.maxImageBytes) {
+    throw new HttpError(413, `${label} exceeds ${limits.maxImageBytes} bytes`);
+  }
+  const actual = sniffImageType(bytes);
+  const declared = mimeType === 'image/heif' ? 'image/heic' : mimeType;
+  if (actual !== declared) {
+    throw new HttpError(415, `${label} is declared as ${mimeType} but ${actual ? `contains ${actual}` : 'is not a supported image'}`);
+  }
+};
+
+export const parseMockupBody = (body: unknown, limits: ValidationLimits): MockupRequestBody => {
+  if (!isObject(body)) throw new HttpError(400, "Expected a JSON object");
+  validateImage(body.base64Image, body.mimeType, 'Image', limits);
+  return {
+    base64Image: body.base64Image as string,
+    mimeType: body.mimeType as string,
+    prompt: validatePrompt(body, limits),
+  };
+};
+
+export const parseCompositeBody = (body: unknown, limits: ValidationLimits): CompositeRequestBody => {
+  if (!isObject(body)) throw new HttpError(400, "Expected a JSON object");
+  if (!Array.isArray(body.references)) throw new HttpError(400, '"references" must be an array');
+  const roles = REFERENCE_ROLES.map(info => info.role);
+  const references = body.references.map((reference: unknown, index) => {
+    const label = `Reference ${index + 1}`;
+    if (!isObject(reference)) throw new HttpError(400, `${label} must be an object`);
+    if (!roles.includes(reference.role as ReferenceRole)) throw new HttpError(400, `${label} has an unknown role`);
+    validateImage(reference.base64Image, reference.mimeType, label, limits);
+    return {
+      role: reference.role as ReferenceRole,
+      logoId: typeof reference.logoId === 'string' ? reference.logoId : '',
+      name: typeof reference.name === 'string' ? reference.name : `image-${index + 1}`,
+      base64Image: reference.base64Image as string,
+      mimeType: reference.mimeType as string,
+    };
+  });
+  const [problem] = validateReferences(references.map(r => r.role), limits.maxReferenceImages);
+  if (problem) throw new HttpError(400, problem);
+  return { references, prompt: validatePrompt(body, limits) };
+};
+
+export const parseGenerateBody = (body: unknown, limits: ValidationLimits): GenerateRequestBody => {
+  if (!isObject(body)) throw new HttpError(400, "Expected a JSON object");
+  const aspectRatio = body.aspectRatio as AspectRatio;
+  if (!Object.values(AspectRatio).includes(aspectRatio)) {
+    throw new HttpError(400, `"aspectRatio" must be one of ${Object.values(AspectRatio).join(', ')}`);
+  }
+  const numberOfImages = body.numberOfImages;
+  if (!Number.isInteger(numberOfImages) || (numberOfImages as number) < 1 || (numberOfImages as number) > limits.maxImagesPerRequest) {
+    throw new HttpError(400, `"numberOfImages" must be a whole number from 1 to ${limits.maxImagesPerRequest}`);
+  }
+  return { prompt: validatePrompt(body, limits), aspectRatio, numberOfImages: numberOfImages as number };
+};
+
+export const parseEnhanceBody = (body: unknown, limits: ValidationLimits): EnhanceRequestBody => {
+  if (!isObject(body)) throw new HttpError(400, "Expected a JSON object");
+  return { draft: validatePrompt(body, limits, 'draft') };
+};
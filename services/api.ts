@@ -0,0 +1,65 @@
+import { AspectRatio, ReferenceImage } from "../types";
+import { GenerationErrorKind } from "./errors";
+import { ImageProviderCapabilities, PromptEnhancement, ProviderImage } from "./providers/types";
+
+/**
+ * Wire format of the studio server's `/api` endpoints, shared by the server
+ * and the browser provider that calls it. The API key only exists on the
+ * server; the browser sends images and prompts and gets images back.
+ */
+
+export const API_ROUTES = {
+  health: '/api/health',
+  mockup: '/api/mockup',
+  composite: '/api/composite',
+  generate: '/api/generate',
+  enhance: '/api/enhance',
+} as const;
+
+export interface MockupRequestBody {
+  base64Image: string;
+  mimeType: string;
+  prompt: string;
+}
+
+export interface CompositeRequestBody {
+  references: ReferenceImage[];
+  prompt: string;
+}
+
+export interface GenerateRequestBody {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  numberOfImages: number;
+}
+
+export interface EnhanceRequestBody {
+  draft: string;
+}
+
+export interface EnhanceResponseBody {
+  enhancement: PromptEnhancement;
+}
+
+/**
+ * Successful response of every image endpoint. Each image's `model` is the
+ * one that produced it, which usage is logged and priced under.
+ */
+export interface ImagesResponseBody {
+  images: ProviderImage[];
+}
+
+/** Body of every non-2xx response. */
+export interface ErrorResponseBody {
+  error: {
+    kind: GenerationErrorKind;
+    message: string;
+  };
+}
+
+export interface HealthResponseBody {
+  upstream: string;
+  /** False when the upstream can't serve requests, e.g. no API key on the server. */
+  configured: boolean;
+  outputMimeType: ImageProviderCapabilities['outputMimeType'];
+}
@@ -0,0 +1,199 @@
+import { BlendMode, NormalizedPoint, Placement } from "../types";
+
+/**
+ * Deterministic logo placement on a canvas, for pixel-exact mockups the
+ * model can't guarantee. The same inputs always render the same pixels.
+ *
+ * The logo is first drawn onto a transparent layer (a plain transform, or a
+ * triangle mesh for four-corner perspective), and that layer is blended
+ * onto the base in one step so mesh seams never show through the blend.
+ */
+
+export const BLEND_MODES: { value: BlendMode; label: string; hint: string }[] = [
+  { value: 'source-over', label: 'Normal', hint: 'Flat print, stickers, signage' },
+  { value: 'multiply', label: 'Multiply', hint: 'Ink on fabric, paper and light surfaces' },
+  { value: 'screen', label: 'Screen', hint: 'Neon, light and glow on dark surfaces' },
+  { value: 'overlay', label: 'Overlay', hint: 'Picks up texture and shading' },
+  { value: 'soft-light', label: 'Soft light', hint: 'Subtle embossing and tinting' },
+  { value: 'hard-light', label: 'Hard light', hint: 'Punchy print on textured material' },
+  { value: 'darken', label: 'Darken', hint: 'Dark logo on light material' },
+  { value: 'lighten', label: 'Lighten', hint: 'Light logo on dark material' },
+  { value: 'color-burn', label: 'Color burn', hint: 'Engraving and burnt-in looks' },
+];
+
+export const blendModeLabel = (mode: BlendMode): string =>
+  BLEND_MODES.find(entry => entry.value === mode)?.label ?? mode;
+
+export const DEFAULT_PLACEMENT: Placement = {
+  mode: 'transform',
+  x: 0.5,
+  y: 0.5,
+  scale: 0.3,
+  rotation: 0,
+  corners: [{ x: 0.35, y: 0.35 }, { x: 0.65, y: 0.35 }, { x: 0.65, y: 0.65 }, { x: 0.35, y: 0.65 }],
+  blendMode: 'source-over',
+  opacity: 1,
+};
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+type Quad = Placement['corners'];
+
+// Grid resolution of the perspective mesh; higher is smoother but slower.
+const MESH_STEPS = 16;
+
+/**
+ * The logo's four corners on the base (top-left, top-right, bottom-right,
+ * bottom-left), whichever mode the placement is in.
+ */
+export const placementCorners = (placement: Placement, base: Size, logo: Size): Quad => {
+  if (placement.mode === 'perspective') return placement.corners;
+
+  const w = placement.scale * base.width;
+  const h = w * (logo.height / logo.width);
+  const angle = (placement.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const cx = placement.x * base.width;
+  const cy = placement.y * base.height;
+  const corner = (dx: number, dy: number): NormalizedPoint => ({
+    x: (cx + dx * cos - dy * sin) / base.width,
+    y: (cy + dx * sin + dy * cos) / base.height,
+  });
+  return [corner(-w / 2, -h / 2), corner(w / 2, -h / 2), corner(w / 2, h / 2), corner(-w / 2, h / 2)];
+};
+
+/**
+ * Projective map from the unit square onto `quad` (Heckbert's closed form).
+ */
+const squareToQuad = (quad: { x: number; y: number }[]) => {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = det ? (dx3 * dy2 - dx2 * dy3) / det : 0;
+  const h = det ? (dx1 * dy3 - dx3 * dy1) / det : 0;
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x, c = p0.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y, f = p0.y;
+  return (u: number, v: number) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+type Pt = { x: number; y: number };
+
+/**
+ * Draw the source triangle `s` of `image` onto the destination triangle `d`
+ * with the affine transform between them, clipped to a slightly grown
+ * triangle so neighbours overlap instead of leaving hairline gaps.
+ */
+const drawTriangle = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, s: Pt[], d: Pt[]) => {
+  const [{ x: x0, y: y0 }, { x: x1, y: y1 }, { x: x2, y: y2 }] = s;
+  const [{ x: u0, y: v0 }, { x: u1, y: v1 }, { x: u2, y: v2 }] = d;
+  const delta = x0 * y1 + y0 * x2 + x1 * y2 - y1 * x2 - y0 * x1 - x0 * y2;
+  if (!delta) return;
+
+  const a = (u0 * y1 + y0 * u2 + u1 * y2 - y1 * u2 - y0 * u1 - u0 * y2) / delta;
+  const b = (x0 * u1 + u0 * x2 + x1 * u2 - u1 * x2 - u0 * x1 - x0 * u2) / delta;
+  const c = (x0 * y1 * u2 + y0 * u1 * x2 + u0 * x1 * y2 - u0 * y1 * x2 - y0 * x1 * u2 - x0 * u1 * y2) / delta;
+  const dd = (v0 * y1 + y0 * v2 + v1 * y2 - y1 * v2 - y0 * v1 - v0 * y2) / delta;
+  const e = (x0 * v1 + v0 * x2 + x1 * v2 - v1 * x2 - v0 * x1 - x0 * v2) / delta;
+  const f = (x0 * y1 * v2 + y0 * v1 * x2 + v0 * x1 * y2 - v0 * y1 * x2 - y0 * x1 * v2 - x0 * v1 * y2) / delta;
+
+  const cx = (u0 + u1 + u2) / 3;
+  const cy = (v0 + v1 + v2) / 3;
+  const grow = (p: Pt) => {
+    const len = Math.hypot(p.x - cx, p.y - cy) || 1;
+    return { x: p.x + ((p.x - cx) / len) * 0.75, y: p.y + ((p.y - cy) / len) * 0.75 };
+  };
+
+  ctx.save();
+  ctx.beginPath();
+  d.map(grow).forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, dd, b, e, c, f);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+};
+
+const drawLogoLayer = (
+  ctx: CanvasRenderingContext2D,
+  logo: HTMLImageElement | ImageBitmap,
+  quad: Pt[],
+  perspective: boolean
+) => {
+  const lw = logo.width;
+  const lh = logo.height;
+  ctx.imageSmoothingQuality = 'high';
+
+  if (!perspective) {
+    // Parallelogram: one exact affine draw keeps edges crisp.
+    const [p0, p1, , p3] = quad;
+    ctx.setTransform((p1.x - p0.x) / lw, (p1.y - p0.y) / lw, (p3.x - p0.x) / lh, (p3.y - p0.y) / lh, p0.x, p0.y);
+    ctx.drawImage(logo, 0, 0);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    return;
+  }
+
+  const map = squareToQuad(quad);
+  for (let i = 0; i < MESH_STEPS; i++) {
+    for (let j = 0; j < MESH_STEPS; j++) {
+      const u0 = i / MESH_STEPS, u1 = (i + 1) / MESH_STEPS;
+      const v0 = j / MESH_STEPS, v1 = (j + 1) / MESH_STEPS;
+      const src = [
+        { x: u0 * lw, y: v0 * lh }, { x: u1 * lw, y: v0 * lh },
+        { x: u1 * lw, y: v1 * lh }, { x: u0 * lw, y: v1 * lh },
+      ];
+      const dst = [map(u0, v0), map(u1, v0), map(u1, v1), map(u0, v1)];
+      drawTriangle(ctx, logo, [src[0], src[1], src[2]], [dst[0], dst[1], dst[2]]);
+      drawTriangle(ctx, logo, [src[0], src[2], src[3]], [dst[0], dst[2], dst[3]]);
+    }
+  }
+};
+
+/**
+ * Render the logo onto the base. `width` sets the output width (the height
+ * follows the base's aspect ratio); it defaults to the base's own size, so
+ * a saved composite is full resolution while previews can render smaller.
+ */
+export const renderComposite = (
+  base: HTMLImageElement | ImageBitmap,
+  logo: HTMLImageElement | ImageBitmap,
+  placement: Placement,
+  width: number = base.width
+): HTMLCanvasElement => {
+  const height = Math.round((width * base.height) / base.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(base, 0, 0, width, height);
+
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const layerCtx = layer.getContext('2d');
+  if (!layerCtx) throw new Error("Canvas 2D context unavailable");
+
+  const quad = placementCorners(placement, base, logo).map(p => ({ x: p.x * width, y: p.y * height }));
+  drawLogoLayer(layerCtx, logo, quad, placement.mode === 'perspective');
+
+  ctx.globalCompositeOperation = placement.blendMode;
+  ctx.globalAlpha = placement.opacity;
+  ctx.drawImage(layer, 0, 0);
+  return canvas;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode image"));
+    img.src = src;
+  });
@@ -0,0 +1,115 @@
+import { GeneratedImage } from "../types";
+import { migrateImageRecord } from "./imageRecords";
+
+/**
+ * Shared IndexedDB connection for everything the studio persists locally.
+ * Each schema change bumps DB_VERSION and adds a step to `upgrade`, so
+ * existing users are migrated in place rather than losing their history.
+ */
+
+const DB_NAME = 'mockupai-studio';
+const DB_VERSION = 6;
+
+export const IMAGE_STORE = 'images';
+export const PROJECT_STORE = 'projects';
+export const LOGO_STORE = 'logos';
+export const USAGE_STORE = 'usage';
+
+// Project that owns everything saved before projects existed.
+export const DEFAULT_PROJECT_ID = 'default';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+type StoredRecord = Omit<GeneratedImage, 'url'> & { blob: Blob };
+
+/**
+ * Copy of an image record with `tagKeys`: one `[projectId, tag]` key per
+ * tag, which the multi-entry `projectTags` index lists a project's tags
+ * from. Every write of an image record goes through this.
+ */
+export const withTagKeys = <T extends { projectId?: string; tags?: string[] }>(record: T): T & { tagKeys: [string, string][] } => ({
+  ...record,
+  tagKeys: (record.tags ?? []).map(tag => [record.projectId ?? DEFAULT_PROJECT_ID, tag]),
+});
+
+const upgrade = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+  // Steps that rewrite existing images share one cursor, run after the
+  // schema changes, so no step overwrites another's update.
+  const rewrites: ((record: StoredRecord) => StoredRecord)[] = [];
+
+  if (oldVersion < 1) {
+    const images = db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+    images.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    // Refinement lineage: every edited version points at the root image.
+    tx.objectStore(IMAGE_STORE).createIndex('rootId', 'rootId');
+  }
+  if (oldVersion < 3) {
+    // Projects: images are listed per project, newest first, so existing
+    // records are moved into the default project to appear in the index.
+    tx.objectStore(IMAGE_STORE).createIndex('projectCreatedAt', ['projectId', 'createdAt']);
+    rewrites.push(record => (record.projectId ? record : { ...record, projectId: DEFAULT_PROJECT_ID }));
+
+    db.createObjectStore(PROJECT_STORE, { keyPath: 'id' }).put({
+      id: DEFAULT_PROJECT_ID,
+      name: 'My Studio',
+      createdAt: Date.now(),
+      selectedPresets: ['mug'],
+    });
+    db.createObjectStore(LOGO_STORE, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+  }
+  if (oldVersion < 4) {
+    // Versioned records: upgrade every image to the current record shape.
+    rewrites.push(record => migrateImageRecord(record, record.blob));
+  }
+  if (oldVersion < 5) {
+    // Usage log: one entry per provider call, read back by date range.
+    db.createObjectStore(USAGE_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 6) {
+    // Tag index: the gallery's tag list is read from it instead of every image.
+    tx.objectStore(IMAGE_STORE).createIndex('projectTags', 'tagKeys', { multiEntry: true });
+    rewrites.push(withTagKeys);
+  }
+
+  if (rewrites.length && oldVersion > 0) {
+    tx.objectStore(IMAGE_STORE).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update(rewrites.reduce((record, rewrite) => rewrite(record), cursor.value));
+      cursor.continue();
+    };
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private mode quirks).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
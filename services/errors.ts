@@ -0,0 +1,116 @@
+/**
+ * Typed failures for generation calls, so the UI can explain what went
+ * wrong and whether trying again is worthwhile.
+ */
+
+export type GenerationErrorKind =
+  | 'auth'       // Missing or rejected API key
+  | 'quota'      // Rate limit or quota exhausted
+  | 'safety'     // Prompt or output blocked by safety filters
+  | 'empty'      // The model answered without an image
+  | 'timeout'    // No response within the time limit
+  | 'network'    // Connection failure or upstream 5xx
+  | 'cancelled'  // Aborted by the user
+  | 'budget'     // Blocked locally by a usage budget
+  | 'unknown';
+
+const RETRYABLE: Record<GenerationErrorKind, boolean> = {
+  auth: false,
+  quota: true,
+  safety: false,
+  empty: true,
+  timeout: true,
+  network: true,
+  cancelled: false,
+  budget: false,
+  unknown: false,
+};
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: GenerationErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = RETRYABLE[kind];
+  }
+}
+
+const classify = (status: number | undefined, message: string): GenerationErrorKind => {
+  const text = message.toLowerCase();
+  if (status === 401 || status === 403 || /api key|api_key|permission denied|unauthenticated/.test(text)) return 'auth';
+  if (status === 429 || /quota|rate limit|resource_exhausted|too many requests/.test(text)) return 'quota';
+  if (/safety|blocked|prohibited|responsible ai/.test(text)) return 'safety';
+  if (status === 408 || /timed? ?out|deadline/.test(text)) return 'timeout';
+  if ((status !== undefined && status >= 500) || /failed to fetch|network|econnreset|socket|unavailable/.test(text)) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Normalize anything thrown by a provider or the SDK into a GenerationError.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new GenerationError('cancelled', "The request was cancelled.", error);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  // ApiError from @google/genai carries the HTTP status.
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+  return new GenerationError(classify(status, message), message, error);
+};
+
+const DESCRIPTIONS: Record<GenerationErrorKind, { title: string; hint: string }> = {
+  auth: {
+    title: "API key missing or rejected",
+    hint: "Check GEMINI_API_KEY on the studio server, or switch to the Offline Mock provider. Retrying won't help until the key is fixed.",
+  },
+  quota: {
+    title: "Rate limit or quota reached",
+    hint: "Wait a minute before retrying, or lower the number of parallel jobs.",
+  },
+  safety: {
+    title: "Blocked by safety filters",
+    hint: "Rephrase the prompt or use a different image. Retrying the same request will be blocked again.",
+  },
+  empty: {
+    title: "No image was generated",
+    hint: "The model answered without an image. Retrying often works; a more specific prompt helps too.",
+  },
+  timeout: {
+    title: "The request timed out",
+    hint: "The service may be busy. Retrying should help.",
+  },
+  network: {
+    title: "Network or service error",
+    hint: "Check your connection and retry.",
+  },
+  cancelled: {
+    title: "Cancelled",
+    hint: "The request was stopped before it finished.",
+  },
+  budget: {
+    title: "Usage budget reached",
+    hint: "Raise or turn off the budget under Usage, or wait for the next day or month.",
+  },
+  unknown: {
+    title: "Generation failed",
+    hint: "An unexpected error occurred.",
+  },
+};
+
+/**
+ * User-facing explanation of an error.
+ */
+export const describeError = (error: unknown): { title: string; hint: string; detail: string; retryable: boolean } => {
+  const generationError = toGenerationError(error);
+  return {
+    ...DESCRIPTIONS[generationError.kind],
+    detail: generationError.message,
+    retryable: generationError.retryable,
+  };
+};
@@ -0,0 +1,203 @@
+import { GeneratedImage } from "../types";
+import { crc32 } from "../utils/crc32";
+import { createZip, ZipEntry } from "../utils/zip";
+
+/**
+ * Re-encodes gallery images for download: format, quality, size and
+ * optional embedded generation metadata, singly or as a ZIP bundle.
+ */
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** 0-1, used by JPEG and WebP. */
+  quality: number;
+  /** Longest edge in pixels; 0 keeps the original size. Never upscales. */
+  maxDimension: number;
+  embedMetadata: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'image/png',
+  quality: 0.92,
+  maxDimension: 0,
+  embedMetadata: true,
+};
+
+export const FORMAT_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+/** Formats whose container we know how to write metadata into. */
+export const supportsEmbeddedMetadata = (format: ExportFormat) => format !== 'image/webp';
+
+export const extensionFor = (mimeType: string) => FORMAT_EXTENSIONS[mimeType] ?? 'png';
+
+export const exportFilename = (item: GeneratedImage, mimeType: string) =>
+  `mockup-ai-${item.id}.${extensionFor(mimeType)}`;
+
+/**
+ * The generation details written into exported files and ZIP manifests.
+ */
+export const imageMetadata = (item: GeneratedImage) => ({
+  prompt: item.prompt,
+  type: item.type,
+  preset: item.presetId ?? null,
+  provider: item.providerId ?? null,
+  model: item.model ?? null,
+  sources: item.sources?.map(source => ({ role: source.role, name: source.name })) ?? null,
+  placement: item.composite ? { base: item.composite.baseName, ...item.composite.placement } : null,
+  settings: item.settings ?? null,
+  enhancement: item.enhancement ?? null,
+  createdAt: new Date(item.createdAt).toISOString(),
+  software: 'MockupAI Studio',
+});
+
+const encoder = new TextEncoder();
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  chunks.forEach(c => { out.set(c, offset); offset += c.length; });
+  return out;
+};
+
+/**
+ * Build a PNG iTXt chunk (UTF-8 text, uncompressed).
+ */
+const pngTextChunk = (keyword: string, text: string): Uint8Array => {
+  const data = concat([
+    encoder.encode(keyword),
+    new Uint8Array([0, 0, 0, 0, 0]), // Null, compression flag/method, empty language tag and translated keyword
+    encoder.encode(text),
+  ]);
+  const type = encoder.encode('iTXt');
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(type, 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(concat([type, data])));
+  return chunk;
+};
+
+/**
+ * Insert text chunks right after IHDR, which is always the first chunk.
+ */
+const embedPngMetadata = (bytes: Uint8Array, metadata: Record<string, unknown>): Uint8Array => {
+  const ihdrEnd = 8 + 8 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8) + 4;
+  const chunks = [
+    pngTextChunk('Description', String(metadata.prompt ?? '')),
+    pngTextChunk('Software', 'MockupAI Studio'),
+    pngTextChunk('Comment', JSON.stringify(metadata)),
+  ];
+  return concat([bytes.subarray(0, ihdrEnd), ...chunks, bytes.subarray(ihdrEnd)]);
+};
+
+/**
+ * Insert a COM segment (UTF-8 JSON) right after the SOI marker.
+ */
+const embedJpegMetadata = (bytes: Uint8Array, metadata: Record<string, unknown>): Uint8Array => {
+  // Segment length is 16-bit and includes its own two bytes.
+  const text = encoder.encode(JSON.stringify(metadata)).subarray(0, 65533);
+  const segment = new Uint8Array(4 + text.length);
+  segment[0] = 0xff;
+  segment[1] = 0xfe;
+  new DataView(segment.buffer).setUint16(2, text.length + 2);
+  segment.set(text, 4);
+  return concat([bytes.subarray(0, 2), segment, bytes.subarray(2)]);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for export"));
+    img.src = src;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Image encoding failed"))), format, quality);
+  });
+
+/**
+ * Encode one gallery item. The returned MIME type is what the browser
+ * actually produced (it falls back to PNG for unsupported formats), and
+ * the file name's extension follows it.
+ */
+export const encodeImage = async (
+  item: GeneratedImage,
+  options: ExportOptions
+): Promise<{ blob: Blob; filename: string; mimeType: string }> => {
+  const img = await loadImage(item.url);
+  const scale = options.maxDimension > 0
+    ? Math.min(1, options.maxDimension / Math.max(img.naturalWidth, img.naturalHeight))
+    : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  if (options.format === 'image/jpeg') {
+    // JPEG has no alpha; flatten onto white rather than black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const encoded = await canvasToBlob(canvas, options.format, options.quality);
+  const mimeType = encoded.type || 'image/png';
+  let blob = encoded;
+
+  if (options.embedMetadata) {
+    const bytes = new Uint8Array(await encoded.arrayBuffer());
+    const metadata = imageMetadata(item);
+    if (mimeType === 'image/png') {
+      blob = new Blob([embedPngMetadata(bytes, metadata)], { type: mimeType });
+    } else if (mimeType === 'image/jpeg') {
+      blob = new Blob([embedJpegMetadata(bytes, metadata)], { type: mimeType });
+    }
+  }
+
+  return { blob, filename: exportFilename(item, mimeType), mimeType };
+};
+
+/**
+ * Bundle several items into a ZIP with a `manifest.json` describing each
+ * file and the `GeneratedImage` record it came from.
+ */
+export const exportZip = async (
+  items: GeneratedImage[],
+  options: ExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const manifest: { file: string; mimeType: string; record: Omit<GeneratedImage, 'url'> }[] = [];
+
+  for (const item of items) {
+    const { blob, filename, mimeType } = await encodeImage(item, options);
+    entries.push({ name: `images/${filename}`, data: new Uint8Array(await blob.arrayBuffer()), modified: new Date(item.createdAt) });
+    const { url, ...record } = item;
+    manifest.push({ file: `images/${filename}`, mimeType, record });
+    onProgress?.(manifest.length, items.length);
+  }
+
+  entries.unshift({
+    name: 'manifest.json',
+    data: encoder.encode(JSON.stringify({
+      format: 'mockupai-export',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      options,
+      items: manifest,
+    }, null, 2)),
+  });
+
+  return createZip(entries);
+};
@@ -0,0 +1,345 @@
+import { GeneratedImage } from "../types";
+import { dataUrlToBlob } from "../utils/dataUrl";
+import { GalleryQuery, compareItems, isFiltered, matchesQuery } from "../utils/gallery";
+import { createId } from "../utils/id";
+import { IMAGE_STORE, openDatabase, requestToPromise, transactionDone, withTagKeys } from "./db";
+import { RECORD_VERSION, migrateImageRecord } from "./imageRecords";
+
+/**
+ * Persistent storage for gallery items.
+ * Images are kept as Blobs in IndexedDB; callers receive `GeneratedImage`
+ * records whose `url` is an object URL they are responsible for revoking.
+ * Listing, counting and clearing are scoped to one project.
+ */
+
+export const GALLERY_PAGE_SIZE = 24;
+
+export interface StoredImage extends Omit<GeneratedImage, 'url'> {
+  blob: Blob;
+  tagKeys?: [string, string][]; // Index keys, see withTagKeys
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+// Every [projectId, createdAt] key belonging to one project.
+const projectRange = (projectId: string) => IDBKeyRange.bound([projectId, -Infinity], [projectId, Infinity]);
+
+// Every [projectId, tag] key belonging to one project; arrays sort after strings.
+const projectTagRange = (projectId: string) => IDBKeyRange.bound([projectId], [projectId, []]);
+
+// Filtering and sorting need every record of a project. The last such scan
+// is reused across pages until this tab next writes to the store; the
+// version guards against caching a scan that raced with a write.
+let storeVersion = 0;
+let scanCache: { projectId: string; version: number; records: StoredImage[] } | null = null;
+
+const storeChanged = () => {
+  storeVersion += 1;
+  scanCache = null;
+};
+
+const scanProject = async (projectId: string): Promise<StoredImage[]> => {
+  if (scanCache?.projectId === projectId && scanCache.version === storeVersion) return scanCache.records;
+  const version = storeVersion;
+  const records = await listImageRecords(projectId);
+  if (version === storeVersion) scanCache = { projectId, version, records };
+  return records;
+};
+
+const toGeneratedImage = ({ blob, tagKeys, ...record }: StoredImage): GeneratedImage => ({
+  ...record,
+  url: URL.createObjectURL(blob),
+});
+
+// Pixel size for aspect-ratio filtering; best effort, as not every browser
+// can decode every format off-screen.
+const measureImage = async (blob: Blob): Promise<Pick<GeneratedImage, 'width' | 'height'>> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Persist a freshly generated image. `image.url` must be a data URL.
+ * Returns the stored record with an object URL in place of the data URL.
+ */
+export const saveImage = async (image: GeneratedImage): Promise<GeneratedImage> => {
+  const { url, ...record } = image;
+  const blob = dataUrlToBlob(url);
+  const stored: StoredImage = withTagKeys({ ...record, version: RECORD_VERSION, mimeType: blob.type, ...(await measureImage(blob)), blob });
+
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  tx.objectStore(IMAGE_STORE).put(stored);
+  await transactionDone(tx);
+  storeChanged();
+
+  return toGeneratedImage(stored);
+};
+
+export interface GalleryPage {
+  items: GeneratedImage[];
+  total: number; // Items matching the query, across all pages
+  tags?: string[]; // Every tag used in the project, sorted; first page only
+}
+
+/**
+ * Where a page starts: right after this item in the query's sort order.
+ * Any item will do, loaded or not, as the order is total (see compareItems).
+ */
+export type GalleryCursor = Omit<GeneratedImage, 'url'>;
+
+/**
+ * One page of a project in date order, read with a cursor on the
+ * [projectId, createdAt] index so only the page's records are loaded.
+ */
+const readDatePage = async (
+  projectId: string,
+  direction: 'next' | 'prev',
+  after: GalleryCursor | null,
+  limit: number
+): Promise<{ records: StoredImage[]; total: number }> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const index = tx.objectStore(IMAGE_STORE).index('projectCreatedAt');
+  const count = index.count(projectRange(projectId));
+  // Start at `after`'s timestamp; records sharing it are ordered by id.
+  const range = !after
+    ? projectRange(projectId)
+    : direction === 'next'
+      ? IDBKeyRange.bound([projectId, after.createdAt], [projectId, Infinity])
+      : IDBKeyRange.bound([projectId, -Infinity], [projectId, after.createdAt]);
+  const isAfter = (record: StoredImage) =>
+    !after || record.createdAt !== after.createdAt || (direction === 'next' ? record.id > after.id : record.id < after.id);
+  const records: StoredImage[] = [];
+  const request = index.openCursor(range, direction);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (isAfter(cursor.value)) records.push(cursor.value);
+    if (records.length < limit) cursor.continue();
+  };
+  await transactionDone(tx);
+  return { records, total: count.result };
+};
+
+// Every tag used in a project, sorted, read from the tag index alone.
+const listProjectTags = async (projectId: string): Promise<string[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const tags: string[] = [];
+  const request = tx.objectStore(IMAGE_STORE).index('projectTags').openKeyCursor(projectTagRange(projectId), 'nextunique');
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    tags.push((cursor.key as [string, string])[1]);
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  return tags;
+};
+
+/**
+ * Read one page of a project's gallery matching `query`, starting after
+ * `after` (or at the top). Filtering runs over the whole project, so
+ * results never depend on what is loaded; the plain date-sorted view is
+ * paged straight from the index instead.
+ */
+export const queryImages = async (
+  projectId: string,
+  query: GalleryQuery,
+  after: GalleryCursor | null = null,
+  limit: number = GALLERY_PAGE_SIZE
+): Promise<GalleryPage> => {
+  const tags = after ? undefined : await listProjectTags(projectId);
+
+  if (!isFiltered(query) && (query.sort === 'newest' || query.sort === 'oldest')) {
+    const { records, total } = await readDatePage(projectId, query.sort === 'newest' ? 'prev' : 'next', after, limit);
+    return { items: records.map(toGeneratedImage), total, tags };
+  }
+
+  const compare = compareItems(query.sort);
+  const matching = (await scanProject(projectId)).filter(record => matchesQuery(record, query)).sort(compare);
+  const start = after ? matching.findIndex(record => compare(after, record) < 0) : 0;
+  return {
+    items: start < 0 ? [] : matching.slice(start, start + limit).map(toGeneratedImage),
+    total: matching.length,
+    tags,
+  };
+};
+
+/**
+ * Load a whole refinement tree: the root image and every version derived
+ * from it, oldest first.
+ */
+export const listLineage = async (rootId: string): Promise<GeneratedImage[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const store = tx.objectStore(IMAGE_STORE);
+  const [root, descendants] = await Promise.all([
+    requestToPromise(store.get(rootId)) as Promise<StoredImage | undefined>,
+    requestToPromise(store.index('rootId').getAll(rootId)) as Promise<StoredImage[]>,
+  ]);
+
+  return [...(root ? [root] : []), ...descendants]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toGeneratedImage);
+};
+
+/**
+ * The stored pixels of one image, e.g. the input of an edit being re-run.
+ */
+export const getImageBlob = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const record = await requestToPromise(tx.objectStore(IMAGE_STORE).get(id)) as StoredImage | undefined;
+  return record?.blob;
+};
+
+/**
+ * Raw records of a project, blobs included, oldest first.
+ */
+export const listImageRecords = async (projectId: string): Promise<StoredImage[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(IMAGE_STORE).index('projectCreatedAt').getAll(projectRange(projectId))) as StoredImage[];
+  return records.map(({ tagKeys, ...record }) => record);
+};
+
+/**
+ * Copies of `records` for a project, under fresh ids and not yet stored.
+ * Lineage and variant groups are re-linked among the copies; a copy whose
+ * root was not copied along with it becomes an original. Records from
+ * older archives are migrated, and logo references follow `logoIds` when
+ * the logos were copied too.
+ */
+export const copyImageRecords = (
+  records: StoredImage[],
+  projectId: string,
+  logoIds: Map<string, string> = new Map()
+): StoredImage[] => {
+  const ids = new Map(records.map(record => [record.id, createId()]));
+  const logoId = (id: string) => logoIds.get(id) ?? id;
+  const groupIds = new Map<string, string>();
+  const groupId = (id: string) => {
+    if (!groupIds.has(id)) groupIds.set(id, createId());
+    return groupIds.get(id)!;
+  };
+  return records.map(original => {
+    const record = migrateImageRecord(original, original.blob);
+    const input = record.input?.id && {
+      ...record.input,
+      id: record.input.kind === 'logo' ? logoId(record.input.id) : ids.get(record.input.id) ?? record.input.id,
+    };
+    const rootId = record.rootId ? ids.get(record.rootId) : undefined;
+    const group = record.group && { ...record.group, id: groupId(record.group.id) };
+    return withTagKeys({
+      ...record,
+      id: ids.get(record.id)!,
+      projectId,
+      group,
+      rootId,
+      parentId: rootId ? ids.get(record.parentId!) ?? rootId : undefined,
+      input: input || record.input,
+      sources: record.sources?.map(source => ({ ...source, logoId: logoId(source.logoId) })),
+      composite: record.composite && {
+        ...record.composite,
+        logoId: record.composite.logoId && logoId(record.composite.logoId),
+        baseImageId: record.composite.baseImageId && (ids.get(record.composite.baseImageId) ?? record.composite.baseImageId),
+      },
+    });
+  });
+};
+
+/**
+ * Store copies of `records` in a project (see copyImageRecords). Returns
+ * how many were stored.
+ */
+export const addImageRecords = async (records: StoredImage[], projectId: string): Promise<number> => {
+  const copies = copyImageRecords(records, projectId);
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGE_STORE);
+  copies.forEach(copy => store.put(copy));
+  await transactionDone(tx);
+  storeChanged();
+  return copies.length;
+};
+
+export const copyImages = async (ids: string[], projectId: string): Promise<number> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  const store = tx.objectStore(IMAGE_STORE);
+  const records = await Promise.all(ids.map(id => requestToPromise(store.get(id)) as Promise<StoredImage | undefined>));
+  return addImageRecords(records.filter(Boolean).sort((a, b) => a.createdAt - b.createdAt), projectId);
+};
+
+/**
+ * Change the user-editable fields of a stored image.
+ */
+export const updateImage = async (id: string, patch: Pick<GeneratedImage, 'tags' | 'favorite'>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGE_STORE);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (request.result) store.put(withTagKeys({ ...request.result, ...patch }));
+  };
+  await transactionDone(tx);
+  storeChanged();
+};
+
+export const moveImages = async (ids: string[], projectId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGE_STORE);
+  ids.forEach(id => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put(withTagKeys({ ...request.result, projectId }));
+    };
+  });
+  await transactionDone(tx);
+  storeChanged();
+};
+
+export const deleteImages = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGE_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+  storeChanged();
+};
+
+export const clearImages = async (projectId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const request = tx.objectStore(IMAGE_STORE).index('projectCreatedAt').openKeyCursor(projectRange(projectId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    tx.objectStore(IMAGE_STORE).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await transactionDone(tx);
+  storeChanged();
+};
+
+/**
+ * Report how much of the origin's storage quota is in use.
+ * Returns null where the Storage API is unavailable.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usedBytes: usage, quotaBytes: quota };
+};
@@ -1,82 +1,184 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { AspectRatio } from "../types";
+import { AspectRatio, ReferenceImage } from "../types";
+import { getProvider, getDefaultProviderId } from "./providers/registry";
+import { ImageProvider, PromptEnhancement, ProviderImage, ProviderOperation } from "./providers/types";
+import { GenerationError, toGenerationError } from "./errors";
+import { RetryOptions, withRetry } from "./retry";
+import { validateReferences } from "./referenceRoles";
+import { checkBudgets, estimateCost, recordUsage } from "./usageLog";
 
-// Initialize the client once
-// The API key is injected automatically into process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Entry point the UI uses for generation. Requests are routed to the
+ * selected image provider (Gemini by default, or the offline mock), with
+ * timeout, cancellation and retries for transient failures. Every failure
+ * is rethrown as a `GenerationError`. Each call is logged to the usage log
+ * and refused up front when a blocking budget has been reached.
+ */
+
+export interface GenerationOptions extends RetryOptions {
+  /** Project the call is billed to in the usage log. */
+  projectId?: string;
+}
+
+// What a successful call produced, for the usage log. `model` is the one
+// that actually ran (e.g. the server's stub), when the result names it.
+interface CallSummary {
+  images: number;
+  model?: string;
+}
+
+/**
+ * Run one provider call through the budget check, retries and usage log.
+ * The budget check goes by the model the provider declares; a successful
+ * call is logged and priced under the model its result reports.
+ * Logging failures are reported but never fail the generation itself.
+ */
+const tracked = async <T>(
+  provider: ImageProvider,
+  operation: ProviderOperation,
+  options: GenerationOptions,
+  summarize: (result: T) => CallSummary,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const declaredModel = provider.models[operation];
+  if (estimateCost(declaredModel, 1) > 0) {
+    const budget = await checkBudgets(options.projectId);
+    if (budget?.action === 'block') {
+      throw new GenerationError('budget', `Budget reached: ${budget.exceeded.join('; ')}.`);
+    }
+  }
+
+  const startedAt = performance.now();
+  const log = (status: 'success' | 'failed' | 'cancelled', { images, model = declaredModel }: CallSummary, reason?: string) => {
+    recordUsage({
+      createdAt: Date.now(),
+      projectId: options.projectId,
+      providerId: provider.id,
+      model,
+      operation,
+      status,
+      reason,
+      latencyMs: performance.now() - startedAt,
+      images,
+    }).catch(err => console.error("Failed to log usage:", err));
+  };
+
+  try {
+    const result = await withRetry(run, {
+      onRetry: (error, attempt, delayMs) =>
+        console.warn(`Generation attempt ${attempt} failed (${error.kind}), retrying in ${Math.round(delayMs)}ms`),
+      ...options,
+    });
+    log('success', summarize(result));
+    return result;
+  } catch (error) {
+    const generationError = toGenerationError(error);
+    log(generationError.kind === 'cancelled' ? 'cancelled' : 'failed', { images: 0 }, `${generationError.kind}: ${generationError.message}`);
+    throw generationError;
+  }
+};
 
 /**
- * Edit/Transform an image using Gemini 2.5 Flash Image.
- * This is used for the "Mockup" feature where the user's logo (image) 
- * is transformed into a product shot based on the prompt.
+ * Transform the user's logo into a product shot based on the prompt.
  */
 export const generateMockup = async (
   base64Image: string, 
   mimeType: string, 
-  prompt: string
-): Promise<string> => {
+  prompt: string,
+  providerId: string = getDefaultProviderId(),
+  options: GenerationOptions = {}
+): Promise<ProviderImage> => {
+  const provider = getProvider(providerId);
+  if (!provider.capabilities.edit) {
+    throw new GenerationError('unknown', `${provider.name} does not support image editing`);
+  }
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Image,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: prompt,
-          },
-        ],
-      },
-      config: {
-        responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    // Extract image from response
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts && parts[0]?.inlineData) {
-      const base64ImageBytes = parts[0].inlineData.data;
-      return `data:image/png;base64,${base64ImageBytes}`;
+    return await tracked(provider, 'edit', options, image => ({ images: 1, model: image.model }), signal => provider.editImage(base64Image, mimeType, prompt, signal));
+  } catch (error) {
+    const generationError = toGenerationError(error);
+    if (generationError.kind !== 'cancelled') {
+      console.error("Mockup generation failed:", generationError);
     }
-    
-    throw new Error("No image generated in response");
+    throw generationError;
+  }
+};
+
+/**
+ * Build one mockup from several role-tagged reference images (logos, a
+ * base product photo, style references), sent together in one request.
+ */
+export const generateComposite = async (
+  references: ReferenceImage[],
+  prompt: string,
+  providerId: string = getDefaultProviderId(),
+  options: GenerationOptions = {}
+): Promise<ProviderImage> => {
+  const provider = getProvider(providerId);
+  if (!provider.capabilities.compose) {
+    throw new GenerationError('unknown', `${provider.name} does not support multi-image mockups`);
+  }
+  const [problem] = validateReferences(references.map(r => r.role), provider.capabilities.maxReferenceImages);
+  if (problem) {
+    throw new GenerationError('unknown', problem);
+  }
+  try {
+    return await tracked(provider, 'compose', options, image => ({ images: 1, model: image.model }), signal => provider.composeImage(references, prompt, signal));
   } catch (error) {
-    console.error("Mockup generation failed:", error);
-    throw error;
+    const generationError = toGenerationError(error);
+    if (generationError.kind !== 'cancelled') {
+      console.error("Composite generation failed:", generationError);
+    }
+    throw generationError;
   }
 };
 
 /**
- * Generate a high-quality image from scratch using Imagen 4.0.
+ * Generate high-quality images from scratch. Returns between one and
+ * `numberOfImages` candidates (some may be dropped by safety filtering).
  */
 export const generateImage = async (
   prompt: string,
-  aspectRatio: AspectRatio = AspectRatio.SQUARE
-): Promise<string> => {
+  aspectRatio: AspectRatio = AspectRatio.SQUARE,
+  numberOfImages: number = 1,
+  providerId: string = getDefaultProviderId(),
+  options: GenerationOptions = {}
+): Promise<ProviderImage[]> => {
+  const provider = getProvider(providerId);
+  if (!provider.capabilities.textToImage) {
+    throw new GenerationError('unknown', `${provider.name} does not support text-to-image generation`);
+  }
+  const count = Math.min(Math.max(1, Math.round(numberOfImages)), provider.capabilities.maxImagesPerRequest);
   try {
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
-      prompt: prompt,
-      config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/jpeg',
-        aspectRatio: aspectRatio,
-      },
-    });
-
-    const generatedImages = response.generatedImages;
-    if (generatedImages && generatedImages.length > 0) {
-      const base64ImageBytes = generatedImages[0].image.imageBytes;
-      return `data:image/jpeg;base64,${base64ImageBytes}`;
+    return await tracked(provider, 'textToImage', options, results => ({ images: results.length, model: results[0]?.model }), signal => provider.generateImage(prompt, aspectRatio, count, signal));
+  } catch (error) {
+    const generationError = toGenerationError(error);
+    if (generationError.kind !== 'cancelled') {
+      console.error("Image generation failed:", generationError);
     }
+    throw generationError;
+  }
+};
 
-    throw new Error("No image generated");
+/**
+ * Rewrite a draft text-to-image prompt with the provider's text model.
+ * Returns a recommended prompt and alternatives; nothing is generated.
+ */
+export const enhancePrompt = async (
+  draft: string,
+  providerId: string = getDefaultProviderId(),
+  options: GenerationOptions = {}
+): Promise<PromptEnhancement> => {
+  const provider = getProvider(providerId);
+  if (!provider.capabilities.enhancePrompt) {
+    throw new GenerationError('unknown', `${provider.name} does not support prompt enhancement`);
+  }
+  try {
+    // Text calls are short; don't keep the user waiting on a long retry cycle.
+    return await tracked(provider, 'enhance', { retries: 1, timeoutMs: 30000, ...options }, enhancement => ({ images: 0, model: enhancement.model }), signal => provider.enhancePrompt(draft.trim(), signal));
   } catch (error) {
-    console.error("Image generation failed:", error);
-    throw error;
+    const generationError = toGenerationError(error);
+    if (generationError.kind !== 'cancelled') {
+      console.error("Prompt enhancement failed:", generationError);
+    }
+    throw generationError;
   }
-};
\ No newline at end of file
+};
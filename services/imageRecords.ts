@@ -0,0 +1,62 @@
+import { AppMode, GeneratedImage, GenerationSettings, ImageInput } from "../types";
+import { itemAspectRatio } from "../utils/gallery";
+
+/**
+ * Versioning for gallery records. Bump RECORD_VERSION whenever the shape of
+ * `GeneratedImage` changes in a way old records can't satisfy, and add a
+ * step to `migrateImageRecord` that upgrades records from the previous one.
+ *
+ *   1 — id, prompt, type and whatever optional fields existed (unversioned)
+ *   2 — adds mimeType, input and settings, so a result can be reproduced
+ */
+
+export const RECORD_VERSION = 2;
+
+type ImageRecord = Omit<GeneratedImage, 'url'>;
+
+// Everything was generated through Gemini before providers were pluggable.
+const LEGACY_PROVIDER_ID = 'gemini';
+
+/**
+ * Best reconstruction of the request behind a version 1 record. The
+ * composer inputs weren't kept, so the stored prompt is restored verbatim.
+ */
+const legacySettings = (record: ImageRecord): GenerationSettings | undefined => {
+  if (record.type === 'composite') return undefined;
+  const base = {
+    providerId: record.providerId ?? LEGACY_PROVIDER_ID,
+    prompt: record.prompt,
+    composition: { subject: record.prompt, modifiers: {}, avoid: [] },
+  };
+  if (record.type === 'generation') {
+    return {
+      ...base,
+      mode: AppMode.IMAGE_GEN,
+      aspectRatio: record.group?.aspectRatio ?? itemAspectRatio(record),
+      numberOfImages: record.group?.size ?? 1,
+    };
+  }
+  if (record.sources) return { ...base, mode: AppMode.COMPOSITE };
+  return { ...base, mode: AppMode.MOCKUP, presetId: record.presetId, promptMode: 'replace' };
+};
+
+const legacyInput = (record: ImageRecord): ImageInput | undefined =>
+  record.parentId ? { kind: 'image', id: record.parentId } : undefined;
+
+/**
+ * Upgrade a stored record to RECORD_VERSION. Records that are already
+ * current are returned unchanged. `blob` is the stored image, when known.
+ */
+export const migrateImageRecord = <T extends ImageRecord>(record: T, blob?: Blob): T => {
+  let next: T = record;
+  const version = record.version ?? 1;
+  if (version < 2) {
+    next = {
+      ...next,
+      mimeType: next.mimeType ?? (blob?.type || undefined),
+      input: next.input ?? legacyInput(next),
+      settings: next.settings ?? legacySettings(next),
+    };
+  }
+  return version === RECORD_VERSION ? next : { ...next, version: RECORD_VERSION };
+};
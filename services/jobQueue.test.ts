@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { createJobQueue, JobQueue } from './jobQueue';
+
+// Resolve once no job is pending or running.
+const settled = <T>(queue: JobQueue<T>) =>
+  new Promise<void>(resolve => {
+    const check = () => {
+      if (queue.getJobs().some(job => job.status === 'pending' || job.status === 'running')) return;
+      unsubscribe();
+      resolve();
+    };
+    const unsubscribe = queue.subscribe(check);
+    check();
+  });
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+describe('createJobQueue', () => {
+  it('never runs more jobs at once than the concurrency allows', async () => {
+    let running = 0;
+    let peak = 0;
+    const queue = createJobQueue<number, number>({
+      concurrency: 2,
+      run: async n => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return n;
+      },
+    });
+    queue.enqueue([1, 2, 3, 4, 5].map(n => ({ label: String(n), input: n })));
+    await settled(queue);
+
+    expect(peak).toBe(2);
+    expect(queue.getJobs().map(job => job.status)).toEqual(['done', 'done', 'done', 'done', 'done']);
+  });
+
+  it('marks failed jobs and runs them again on retry', async () => {
+    let attempts = 0;
+    const errors: string[] = [];
+    const queue = createJobQueue<string, string>({
+      concurrency: 1,
+      run: async input => {
+        attempts++;
+        if (attempts === 1) throw new Error('quota');
+        return input;
+      },
+      onError: error => errors.push(error.message),
+    });
+    queue.enqueue([{ label: 'a', input: 'a' }]);
+    await settled(queue);
+    const [job] = queue.getJobs();
+    expect(job.status).toBe('failed');
+    expect(job.error?.message).toBe('quota');
+    expect(errors).toEqual(['quota']);
+
+    queue.retry(job.id);
+    await settled(queue);
+    expect(queue.getJobs()[0].status).toBe('done');
+    expect(attempts).toBe(2);
+  });
+
+  it('ignores a retry of a job that has not failed', async () => {
+    let attempts = 0;
+    const queue = createJobQueue<string, string>({ concurrency: 1, run: async input => { attempts++; return input; } });
+    queue.enqueue([{ label: 'a', input: 'a' }]);
+    await settled(queue);
+
+    queue.retry(queue.getJobs()[0].id);
+    await settled(queue);
+    expect(attempts).toBe(1);
+  });
+
+  it('hands the kept result to onDone again when saving it failed', async () => {
+    let runs = 0;
+    let diskFull = true;
+    const saved: number[] = [];
+    const queue = createJobQueue<number, number>({
+      concurrency: 1,
+      run: async n => { runs++; return n * 10; },
+      onDone: async result => {
+        if (diskFull) {
+          diskFull = false;
+          throw new Error('disk full');
+        }
+        saved.push(result);
+      },
+    });
+    queue.enqueue([{ label: 'a', input: 4 }]);
+    await settled(queue);
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'failed', error: new Error('disk full') });
+
+    queue.retry(queue.getJobs()[0].id);
+    await settled(queue);
+    expect(queue.getJobs()[0].status).toBe('done');
+    expect(runs).toBe(1);
+    expect(saved).toEqual([40]);
+  });
+
+  it('drops a cancelled job and discards its result', async () => {
+    const gate = deferred();
+    const done: number[] = [];
+    const queue = createJobQueue<number, number>({
+      concurrency: 1,
+      run: async n => { await gate.promise; return n; },
+      onDone: result => { done.push(result); },
+    });
+    queue.enqueue([{ label: 'a', input: 1 }, { label: 'b', input: 2 }]);
+    queue.cancel(queue.getJobs()[0].id);
+    gate.resolve();
+    await settled(queue);
+
+    expect(queue.getJobs().map(job => job.input)).toEqual([2]);
+    expect(done).toEqual([2]);
+  });
+
+  it('clears finished jobs when a new batch starts', async () => {
+    const queue = createJobQueue<number, number>({ concurrency: 1, run: async n => n });
+    queue.enqueue([{ label: 'a', input: 1 }]);
+    await settled(queue);
+    queue.enqueue([{ label: 'b', input: 2 }]);
+    await settled(queue);
+
+    expect(queue.getJobs().map(job => job.input)).toEqual([2]);
+  });
+});
@@ -0,0 +1,155 @@
+import { createId } from "../utils/id";
+
+/**
+ * Minimal in-memory job queue with bounded concurrency.
+ * Framework-agnostic: React components subscribe via `useJobQueue`.
+ */
+
+export type JobStatus = 'pending' | 'running' | 'failed' | 'done';
+
+export interface Job<TInput> {
+  id: string;
+  label: string;
+  input: TInput;
+  status: JobStatus;
+  error?: Error;
+  createdAt: number;
+}
+
+export interface JobQueueOptions<TInput, TResult> {
+  concurrency: number;
+  run: (input: TInput, signal: AbortSignal) => Promise<TResult>;
+  /** A failure here fails the job, but retrying it only calls `onDone` again with the same result. */
+  onDone?: (result: TResult, job: Job<TInput>) => void | Promise<void>;
+  onError?: (error: Error, job: Job<TInput>) => void;
+}
+
+export interface JobQueue<TInput> {
+  getJobs: () => Job<TInput>[];
+  subscribe: (listener: () => void) => () => void;
+  enqueue: (items: { label: string; input: TInput }[]) => void;
+  /** Remove a job; a running job is aborted and its result discarded. */
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  retry: (id: string) => void;
+  retryFailed: () => void;
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+}
+
+export const createJobQueue = <TInput, TResult>(
+  options: JobQueueOptions<TInput, TResult>
+): JobQueue<TInput> => {
+  let jobs: Job<TInput>[] = [];
+  let concurrency = Math.max(1, options.concurrency);
+  const controllers = new Map<string, AbortController>();
+  // Results whose `onDone` failed, so retrying such a job hands the same
+  // result to `onDone` again instead of running the job a second time.
+  const undelivered = new Map<string, TResult>();
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  const update = (id: string, patch: Partial<Job<TInput>>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const start = (job: Job<TInput>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', error: undefined });
+
+    Promise.resolve()
+      .then(() => (undelivered.has(job.id) ? undelivered.get(job.id)! : options.run(job.input, controller.signal)))
+      .then(async result => {
+        if (controller.signal.aborted) return;
+        undelivered.set(job.id, result);
+        await options.onDone?.(result, job);
+        undelivered.delete(job.id);
+        update(job.id, { status: 'done' });
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        const error = err instanceof Error ? err : new Error(String(err));
+        update(job.id, { status: 'failed', error });
+        options.onError?.(error, job);
+      })
+      .finally(() => {
+        controllers.delete(job.id);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    let running = jobs.filter(job => job.status === 'running').length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.status !== 'pending') continue;
+      running++;
+      start(job);
+    }
+    emit();
+  };
+
+  const cancel = (id: string) => {
+    controllers.get(id)?.abort();
+    controllers.delete(id);
+    undelivered.delete(id);
+    jobs = jobs.filter(job => job.id !== id);
+    pump();
+  };
+
+  return {
+    getJobs: () => jobs,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    enqueue: (items) => {
+      // Starting a fresh batch: drop the completed jobs of the previous one.
+      if (!jobs.some(job => job.status === 'pending' || job.status === 'running')) {
+        jobs = jobs.filter(job => job.status !== 'done');
+      }
+      const now = Date.now();
+      jobs = [
+        ...jobs,
+        ...items.map(({ label, input }) => ({ id: createId(), label, input, status: 'pending' as const, createdAt: now })),
+      ];
+      pump();
+    },
+
+    cancel,
+
+    cancelAll: () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+      jobs = jobs.filter(job => job.status === 'done' || job.status === 'failed');
+      pump();
+    },
+
+    retry: (id) => {
+      // A stale Retry (e.g. from a toast) must not start a job that is already running or done.
+      if (jobs.find(job => job.id === id)?.status !== 'failed') return;
+      update(id, { status: 'pending', error: undefined });
+      pump();
+    },
+
+    retryFailed: () => {
+      jobs = jobs.map(job => (job.status === 'failed' ? { ...job, status: 'pending', error: undefined } : job));
+      pump();
+    },
+
+    clearFinished: () => {
+      jobs = jobs.filter(job => job.status === 'pending' || job.status === 'running');
+      undelivered.forEach((_, id) => { if (!jobs.some(job => job.id === id)) undelivered.delete(id); });
+      emit();
+    },
+
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+  };
+};
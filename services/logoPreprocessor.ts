@@ -0,0 +1,306 @@
+import { AspectRatio } from "../types";
+import { blobToDataUrl } from "../utils/dataUrl";
+
+/**
+ * Local, canvas-based cleanup of an uploaded logo before it is sent to a
+ * provider: decode any browser-readable format, downscale, knock out a flat
+ * background, trim empty margins and pad to an aspect ratio. Output is
+ * PNG so transparency survives; with preprocessing disabled, an upload in
+ * a format providers accept is passed through byte for byte instead.
+ */
+
+export type BackgroundRemoval = 'none' | 'color-key' | 'flood-fill';
+
+export interface PreprocessOptions {
+  enabled: boolean;
+  /** Longest edge in pixels; larger images are downscaled. */
+  maxDimension: number;
+  trimMargins: boolean;
+  background: BackgroundRemoval;
+  /** Colour distance (0-100) still treated as background. */
+  tolerance: number;
+  padToAspect: AspectRatio | 'none';
+  /** Breathing room around the logo when padding, as % of the longest edge. */
+  paddingPercent: number;
+}
+
+export interface PreprocessResult {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  /** Human-readable list of the steps that changed the image. */
+  steps: string[];
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  maxDimension: 1536,
+  trimMargins: true,
+  background: 'none',
+  tolerance: 12,
+  padToAspect: 'none',
+  paddingPercent: 8,
+};
+
+/**
+ * For co-brand references, which are often product photos: converted and
+ * downscaled like logos, but never trimmed, keyed out or padded.
+ */
+export const REFERENCE_PREPROCESS_OPTIONS: PreprocessOptions = {
+  ...DEFAULT_PREPROCESS_OPTIONS,
+  trimMargins: false,
+  background: 'none',
+  padToAspect: 'none',
+};
+
+// Formats every provider accepts as-is; anything else is re-encoded.
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+// Alpha at or below this counts as empty when trimming.
+const EMPTY_ALPHA = 8;
+// Size used for SVGs that declare no intrinsic dimensions.
+const DEFAULT_SVG_SIZE = 1024;
+
+const isHeic = (file: Blob) => /image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test((file as File).name ?? '');
+
+const loadImageElement = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error("This image could not be decoded.")); };
+    img.src = url;
+  });
+
+/**
+ * Decode an upload to something drawable. SVGs go through an <img> (they
+ * may lack intrinsic size); everything else tries createImageBitmap first.
+ */
+const decode = async (file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number }> => {
+  try {
+    if (file.type === 'image/svg+xml') throw new Error('svg');
+    const bitmap = await createImageBitmap(file);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height };
+  } catch {
+    try {
+      const img = await loadImageElement(file);
+      return {
+        source: img,
+        width: img.naturalWidth || DEFAULT_SVG_SIZE,
+        height: img.naturalHeight || DEFAULT_SVG_SIZE,
+      };
+    } catch (err) {
+      if (isHeic(file)) {
+        throw new Error("This browser can't decode HEIC/HEIF images. Convert the logo to PNG or JPEG first.");
+      }
+      throw err;
+    }
+  }
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return { canvas, ctx };
+};
+
+type Rgb = [number, number, number];
+
+const MAX_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+const distance = (data: Uint8ClampedArray, offset: number, [r, g, b]: Rgb) => {
+  const dr = data[offset] - r;
+  const dg = data[offset + 1] - g;
+  const db = data[offset + 2] - b;
+  return (Math.sqrt(dr * dr + dg * dg + db * db) / MAX_DISTANCE) * 100;
+};
+
+/**
+ * Guess the background colour from the most common colour along the
+ * border (quantized so JPEG noise doesn't split the vote). Returns null
+ * when the border is mostly transparent already.
+ */
+const detectBackground = ({ data, width, height }: ImageData): Rgb | null => {
+  const votes = new Map<number, { count: number; sum: Rgb }>();
+  let transparent = 0;
+  const vote = (x: number, y: number) => {
+    const o = (y * width + x) * 4;
+    if (data[o + 3] <= EMPTY_ALPHA) {
+      transparent++;
+      return;
+    }
+    const key = ((data[o] >> 4) << 8) | ((data[o + 1] >> 4) << 4) | (data[o + 2] >> 4);
+    const entry = votes.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    entry.count++;
+    entry.sum = [entry.sum[0] + data[o], entry.sum[1] + data[o + 1], entry.sum[2] + data[o + 2]];
+    votes.set(key, entry);
+  };
+  for (let x = 0; x < width; x++) { vote(x, 0); vote(x, height - 1); }
+  for (let y = 0; y < height; y++) { vote(0, y); vote(width - 1, y); }
+
+  let best: { count: number; sum: Rgb } | null = null;
+  votes.forEach(entry => { if (!best || entry.count > best.count) best = entry; });
+  if (!best) return null;
+  const { count, sum } = best as { count: number; sum: Rgb };
+  if (transparent >= count) return null;
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+};
+
+/**
+ * Make background pixels transparent. Pixels just outside the tolerance
+ * get partial alpha so anti-aliased edges don't keep a halo.
+ */
+const removeBackground = (image: ImageData, mode: BackgroundRemoval, tolerance: number, bg: Rgb) => {
+  const { data, width, height } = image;
+  const feather = Math.max(2, tolerance * 0.5);
+
+  const applyAlpha = (o: number) => {
+    const d = distance(data, o, bg);
+    if (d <= tolerance) {
+      data[o + 3] = 0;
+    } else if (d <= tolerance + feather) {
+      data[o + 3] = Math.min(data[o + 3], Math.round(((d - tolerance) / feather) * 255));
+    }
+  };
+
+  if (mode === 'color-key') {
+    for (let o = 0; o < data.length; o += 4) applyAlpha(o);
+    return;
+  }
+
+  // Flood fill from every border pixel, so background-coloured areas
+  // enclosed by the logo (e.g. the inside of a white "O") are preserved.
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const seed = (x: number, y: number) => {
+    const i = y * width + x;
+    if (!visited[i]) { visited[i] = 1; stack.push(i); }
+  };
+  for (let x = 0; x < width; x++) { seed(x, 0); seed(x, height - 1); }
+  for (let y = 0; y < height; y++) { seed(0, y); seed(width - 1, y); }
+
+  while (stack.length) {
+    const i = stack.pop()!;
+    const o = i * 4;
+    if (distance(data, o, bg) > tolerance + feather) continue;
+    applyAlpha(o);
+    if (distance(data, o, bg) > tolerance) continue; // Feathered edge: stop spreading here.
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x > 0) seed(x - 1, y);
+    if (x < width - 1) seed(x + 1, y);
+    if (y > 0) seed(x, y - 1);
+    if (y < height - 1) seed(x, y + 1);
+  }
+};
+
+/**
+ * Bounding box of the non-empty pixels, or null if the image is empty.
+ * Without transparency, pixels matching the background colour are empty.
+ */
+const contentBounds = (image: ImageData, tolerance: number, bg: Rgb | null) => {
+  const { data, width, height } = image;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const empty = data[o + 3] <= EMPTY_ALPHA || (bg !== null && distance(data, o, bg) <= tolerance);
+      if (empty) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+export const preprocessLogo = async (
+  file: Blob,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessResult> => {
+  const { source, width: originalWidth, height: originalHeight } = await decode(file);
+  const steps: string[] = [];
+
+  if (!options.enabled && PASSTHROUGH_TYPES.includes(file.type)) {
+    if (typeof ImageBitmap !== 'undefined' && source instanceof ImageBitmap) source.close();
+    return {
+      dataUrl: await blobToDataUrl(file),
+      mimeType: file.type,
+      width: originalWidth,
+      height: originalHeight,
+      originalWidth,
+      originalHeight,
+      steps,
+    };
+  }
+
+  if (!PASSTHROUGH_TYPES.includes(file.type)) {
+    steps.push(`Converted ${file.type || 'unknown format'} to PNG`);
+  }
+
+  const scale = options.enabled && options.maxDimension > 0
+    ? Math.min(1, options.maxDimension / Math.max(originalWidth, originalHeight))
+    : 1;
+  let width = Math.max(1, Math.round(originalWidth * scale));
+  let height = Math.max(1, Math.round(originalHeight * scale));
+  if (scale < 1) steps.push(`Downscaled ${originalWidth}×${originalHeight} → ${width}×${height}`);
+
+  let { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  if (typeof ImageBitmap !== 'undefined' && source instanceof ImageBitmap) source.close();
+
+  if (options.enabled) {
+    let image = ctx.getImageData(0, 0, width, height);
+    const bg = detectBackground(image);
+
+    if (options.background !== 'none' && bg) {
+      removeBackground(image, options.background, options.tolerance, bg);
+      ctx.putImageData(image, 0, 0);
+      steps.push(options.background === 'color-key' ? 'Removed background (color key)' : 'Removed background (flood fill)');
+    }
+
+    if (options.trimMargins) {
+      image = ctx.getImageData(0, 0, width, height);
+      const bounds = contentBounds(image, options.tolerance, options.background === 'none' ? bg : null);
+      if (bounds && (bounds.width < width || bounds.height < height)) {
+        const trimmed = createCanvas(bounds.width, bounds.height);
+        trimmed.ctx.drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+        ({ canvas, ctx } = trimmed);
+        width = bounds.width;
+        height = bounds.height;
+        steps.push(`Trimmed margins to ${width}×${height}`);
+      }
+    }
+
+    if (options.padToAspect !== 'none') {
+      const [aw, ah] = options.padToAspect.split(':').map(Number);
+      const margin = Math.round(Math.max(width, height) * (options.paddingPercent / 100));
+      const innerW = width + margin * 2;
+      const innerH = height + margin * 2;
+      const targetW = Math.round(Math.max(innerW, (innerH * aw) / ah));
+      const targetH = Math.round(Math.max(innerH, (innerW * ah) / aw));
+      const padded = createCanvas(targetW, targetH);
+      padded.ctx.drawImage(canvas, Math.round((targetW - width) / 2), Math.round((targetH - height) / 2));
+      ({ canvas, ctx } = padded);
+      width = targetW;
+      height = targetH;
+      steps.push(`Padded to ${options.padToAspect} (${width}×${height})`);
+    }
+  }
+
+  return {
+    dataUrl: canvas.toDataURL('image/png'),
+    mimeType: 'image/png',
+    width,
+    height,
+    originalWidth,
+    originalHeight,
+    steps,
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { MockupPreset } from '../types';
+import { BUILT_IN_PRESETS, exportPresets, extractPlaceholders, fillTemplate, mergePresets, parsePresetFile } from './presetLibrary';
+
+const custom = (id: string, promptTemplate = 'A {color} billboard.'): MockupPreset =>
+  ({ id, name: `Preset ${id}`, icon: '🪧', promptTemplate });
+
+describe('extractPlaceholders / fillTemplate', () => {
+  it('lists each placeholder once, in order of appearance', () => {
+    expect(extractPlaceholders('A {color} {item} with a {color} trim')).toEqual(['color', 'item']);
+  });
+
+  it('fills known placeholders and leaves blank or unknown ones visible', () => {
+    expect(fillTemplate('A {color} {item} on {surface}', { color: ' navy ', item: '  ' })).toBe('A navy {item} on {surface}');
+  });
+});
+
+describe('mergePresets', () => {
+  it('adds new presets and replaces user presets with the same id', () => {
+    const merged = mergePresets([BUILT_IN_PRESETS[0], custom('a')], [custom('a', 'Updated.'), custom('b')]);
+    expect(merged.map(preset => [preset.id, preset.promptTemplate])).toEqual([
+      [BUILT_IN_PRESETS[0].id, BUILT_IN_PRESETS[0].promptTemplate],
+      ['a', 'Updated.'],
+      ['b', 'A {color} billboard.'],
+    ]);
+  });
+
+  it('imports a preset that collides with a built-in as a copy', () => {
+    const merged = mergePresets([BUILT_IN_PRESETS[0]], [custom(BUILT_IN_PRESETS[0].id, 'Imported.')]);
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toBe(BUILT_IN_PRESETS[0]);
+    expect(merged[1].id).not.toBe(BUILT_IN_PRESETS[0].id);
+    expect(merged[1].promptTemplate).toBe('Imported.');
+  });
+});
+
+describe('exportPresets / parsePresetFile', () => {
+  it('round-trips the user presets and leaves the built-ins out', () => {
+    expect(parsePresetFile(exportPresets([...BUILT_IN_PRESETS, custom('a')]))).toEqual([custom('a')]);
+  });
+
+  it('rejects files with incomplete presets', () => {
+    const json = JSON.stringify({ format: 'mockupai-presets', version: 1, presets: [custom('a'), { id: 'b' }] });
+    expect(() => parsePresetFile(json)).toThrow('Some presets in the file are missing required fields.');
+  });
+
+  it('rejects newer file versions', () => {
+    const json = JSON.stringify({ format: 'mockupai-presets', version: 2, presets: [] });
+    expect(() => parsePresetFile(json)).toThrow('Unsupported preset file version 2.');
+  });
+});
@@ -0,0 +1,144 @@
+import { MockupPreset } from "../types";
+import { createId } from "../utils/id";
+
+/**
+ * Mockup preset catalog: the built-in presets plus user-defined ones,
+ * persisted to localStorage and shareable as a versioned JSON file.
+ */
+
+export const BUILT_IN_PRESETS: MockupPreset[] = [
+  { id: 'mug', name: 'Ceramic Mug', icon: '☕', builtIn: true, promptTemplate: 'Place this logo realistically on a clean white ceramic coffee mug sitting on a wooden table. Professional product photography.' },
+  { id: 'tshirt', name: 'T-Shirt', icon: '👕', builtIn: true, promptTemplate: 'A high quality photo of a folded black cotton t-shirt with this design printed on the center chest. Studio lighting.' },
+  { id: 'hoodie', name: 'Hoodie', icon: '🧥', builtIn: true, promptTemplate: 'A model wearing a grey streetwear hoodie featuring this logo prominently on the front. Urban setting.' },
+  { id: 'tote', name: 'Tote Bag', icon: '👜', builtIn: true, promptTemplate: 'A canvas tote bag hanging on a coat rack with this logo printed on the side. Natural lighting.' },
+  { id: 'sticker', name: 'Laptop Sticker', icon: '💻', builtIn: true, promptTemplate: 'A die-cut vinyl sticker of this image stuck on a silver laptop cover. Close up macro shot.' },
+  { id: 'sign', name: 'Neon Sign', icon: '✨', builtIn: true, promptTemplate: 'A glowing neon sign on a brick wall in the shape and style of this image. Night time atmosphere.' },
+];
+
+const STORAGE_KEY = 'mockupai.presets';
+const FILE_FORMAT = 'mockupai-presets';
+export const PRESET_FILE_VERSION = 1;
+
+interface PresetFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: MockupPreset[];
+}
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Names of the `{placeholder}` fields in a prompt template, in order of
+ * first appearance.
+ */
+export const extractPlaceholders = (template: string): string[] => {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+};
+
+/**
+ * Substitute placeholder values into a template. Unknown placeholders are
+ * left untouched so a missing value is visible in the final prompt.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER_PATTERN, (whole, name: string) => values[name]?.trim() || whole);
+
+const isPreset = (value: unknown): value is MockupPreset => {
+  const preset = value as MockupPreset;
+  return typeof preset === 'object' && preset !== null
+    && typeof preset.id === 'string'
+    && typeof preset.name === 'string'
+    && typeof preset.icon === 'string'
+    && typeof preset.promptTemplate === 'string';
+};
+
+/**
+ * Restore the saved catalog. Built-ins always come from code (so fixes to
+ * their templates reach existing users) but keep their saved position;
+ * built-ins added in a newer release are appended.
+ */
+export const loadPresets = (): MockupPreset[] => {
+  let saved: MockupPreset[] = [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed?.version === PRESET_FILE_VERSION && Array.isArray(parsed.presets)) {
+      saved = parsed.presets.filter(isPreset);
+    }
+  } catch (err) {
+    console.error("Failed to read saved presets:", err);
+  }
+
+  const builtIns = new Map(BUILT_IN_PRESETS.map(preset => [preset.id, preset]));
+  const merged = saved
+    .filter(preset => !preset.builtIn || builtIns.has(preset.id))
+    .map(preset => (preset.builtIn ? builtIns.get(preset.id)! : preset));
+  const missing = BUILT_IN_PRESETS.filter(preset => !merged.some(p => p.id === preset.id));
+  return [...merged, ...missing];
+};
+
+export const savePresets = (presets: MockupPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: PRESET_FILE_VERSION, presets }));
+};
+
+/**
+ * Serialize the user-defined presets for sharing. Built-ins ship with
+ * every copy of the app, so they are not included.
+ */
+export const exportPresets = (presets: MockupPreset[]): string => {
+  const file: PresetFile = {
+    format: FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: presets.filter(preset => !preset.builtIn),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parse and validate a preset file. Throws with a user-facing message
+ * when the file is not a preset catalog this version understands.
+ */
+export const parsePresetFile = (json: string): MockupPreset[] => {
+  let file: Partial<PresetFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (file?.format !== FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error("The file is not a MockupAI preset catalog.");
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    throw new Error(`Unsupported preset file version ${file.version}.`);
+  }
+  const presets = file.presets.filter(isPreset);
+  if (presets.length !== file.presets.length) {
+    throw new Error("Some presets in the file are missing required fields.");
+  }
+  return presets.map(({ id, name, icon, promptTemplate }) => ({ id, name, icon, promptTemplate }));
+};
+
+/**
+ * Merge imported presets into the catalog. A preset whose id matches an
+ * existing user preset replaces it; one that collides with a built-in is
+ * imported as a copy under a new id.
+ */
+export const mergePresets = (current: MockupPreset[], incoming: MockupPreset[]): MockupPreset[] => {
+  const result = [...current];
+  for (const preset of incoming) {
+    const index = result.findIndex(p => p.id === preset.id);
+    if (index === -1) {
+      result.push(preset);
+    } else if (result[index].builtIn) {
+      result.push({ ...preset, id: createId() });
+    } else {
+      result[index] = preset;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,109 @@
+import { Project } from "../types";
+import { createId } from "../utils/id";
+import { ZipEntry, createZip, readZip } from "../utils/zip";
+import { StoredImage, copyImageRecords, listImageRecords } from "./galleryStore";
+import { StoredLogo, addProject, copyLogoRecords, listLogoRecords } from "./projectStore";
+
+/**
+ * Whole-project archives for handing work over: a ZIP holding the original
+ * image and logo files plus a `project.json` with their records. Unlike an
+ * export, files are not re-encoded, so an import restores them exactly.
+ */
+
+const FILE_FORMAT = 'mockupai-project';
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+interface ArchiveFile<T> {
+  file: string;
+  mimeType: string;
+  record: T;
+}
+
+interface ProjectManifest {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Project;
+  logos: ArchiveFile<Omit<StoredLogo, 'blob'>>[];
+  items: ArchiveFile<Omit<StoredImage, 'blob'>>[];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// "image/svg+xml" -> "svg"; good enough for names inside the archive.
+const extension = (mimeType: string) => mimeType.split('/')[1]?.split('+')[0] || 'bin';
+
+const toArchiveFile = async <T extends { id: string; blob: Blob }>(
+  folder: string,
+  { blob, ...record }: T,
+  entries: ZipEntry[]
+): Promise<ArchiveFile<Omit<T, 'blob'>>> => {
+  const file = `${folder}/${record.id}.${extension(blob.type)}`;
+  entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+  return { file, mimeType: blob.type, record };
+};
+
+export const exportProjectArchive = async (project: Project): Promise<Blob> => {
+  const [logos, items] = await Promise.all([listLogoRecords(project.id), listImageRecords(project.id)]);
+  const entries: ZipEntry[] = [];
+
+  const manifest: ProjectManifest = {
+    format: FILE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project,
+    logos: await Promise.all(logos.map(logo => toArchiveFile('logos', logo, entries))),
+    items: await Promise.all(items.map(item => toArchiveFile('images', item, entries))),
+  };
+  entries.unshift({ name: 'project.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+
+  return createZip(entries);
+};
+
+/**
+ * Restore an archive as a new project (imports never merge into an
+ * existing one). Throws with a user-facing message if the file is not a
+ * project archive.
+ */
+export const importProjectArchive = async (file: Blob, existingNames: string[]): Promise<Project> => {
+  let files: Map<string, Uint8Array>;
+  let manifest: ProjectManifest;
+  try {
+    files = new Map((await readZip(file)).map(entry => [entry.name, entry.data]));
+    manifest = JSON.parse(decoder.decode(files.get('project.json')));
+  } catch {
+    throw new Error("That file isn't a project archive.");
+  }
+  if (manifest?.format !== FILE_FORMAT || !manifest.project) {
+    throw new Error("That file isn't a project archive.");
+  }
+  if (manifest.version !== PROJECT_ARCHIVE_VERSION) {
+    throw new Error(`Unsupported project archive version ${manifest.version}.`);
+  }
+
+  const withBlob = <T>({ file: name, mimeType, record }: ArchiveFile<T>) => {
+    const data = files.get(name);
+    if (!data) throw new Error(`The archive is missing ${name}.`);
+    return { ...record, blob: new Blob([data], { type: mimeType }) };
+  };
+  const logos: StoredLogo[] = (manifest.logos ?? []).map(withBlob);
+  const items: StoredImage[] = (manifest.items ?? []).map(withBlob);
+
+  let name = manifest.project.name;
+  for (let n = 2; existingNames.includes(name); n++) {
+    name = `${manifest.project.name} (${n})`;
+  }
+
+  const project: Project = {
+    id: createId(),
+    name,
+    createdAt: Date.now(),
+    selectedPresets: manifest.project.selectedPresets ?? [],
+  };
+  const { copies: logoCopies, ids: logoIds } = copyLogoRecords(logos, project.id);
+  project.activeLogoId = manifest.project.activeLogoId && logoIds.get(manifest.project.activeLogoId);
+  await addProject(project, logoCopies, copyImageRecords(items, project.id, logoIds));
+
+  return project;
+};
@@ -0,0 +1,119 @@
+import { Project, ProjectLogo } from "../types";
+import { createId } from "../utils/id";
+import { IMAGE_STORE, LOGO_STORE, PROJECT_STORE, openDatabase, requestToPromise, transactionDone } from "./db";
+import type { StoredImage } from "./galleryStore";
+
+/**
+ * Persistent storage for projects and the logos uploaded to them.
+ * Logo files are kept as Blobs; like gallery items, loaded logos carry an
+ * object URL the caller must revoke.
+ */
+
+export interface StoredLogo extends Omit<ProjectLogo, 'url'> {
+  blob: Blob;
+}
+
+const toProjectLogo = ({ blob, ...record }: StoredLogo): ProjectLogo => ({
+  ...record,
+  url: URL.createObjectURL(blob),
+});
+
+/**
+ * Every project, oldest first.
+ */
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECT_STORE, 'readonly');
+  const projects = await requestToPromise(tx.objectStore(PROJECT_STORE).getAll()) as Project[];
+  return projects.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECT_STORE, 'readwrite');
+  tx.objectStore(PROJECT_STORE).put(project);
+  await transactionDone(tx);
+};
+
+const deleteByIndex = (store: IDBObjectStore, index: string, range: IDBKeyRange) => {
+  const request = store.index(index).openKeyCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+/**
+ * Delete a project together with its gallery items and logos.
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECT_STORE, IMAGE_STORE, LOGO_STORE], 'readwrite');
+  deleteByIndex(tx.objectStore(IMAGE_STORE), 'projectCreatedAt', IDBKeyRange.bound([id, -Infinity], [id, Infinity]));
+  deleteByIndex(tx.objectStore(LOGO_STORE), 'projectId', IDBKeyRange.only(id));
+  tx.objectStore(PROJECT_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Raw logo records of a project, blobs included, oldest first.
+ */
+export const listLogoRecords = async (projectId: string): Promise<StoredLogo[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LOGO_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(LOGO_STORE).index('projectId').getAll(projectId)) as StoredLogo[];
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * A project's logos, newest first.
+ */
+export const listLogos = async (projectId: string): Promise<ProjectLogo[]> =>
+  (await listLogoRecords(projectId)).reverse().map(toProjectLogo);
+
+export const getLogoFile = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LOGO_STORE, 'readonly');
+  const record = await requestToPromise(tx.objectStore(LOGO_STORE).get(id)) as StoredLogo | undefined;
+  return record?.blob ?? null;
+};
+
+export const saveLogo = async (projectId: string, file: Blob, name: string): Promise<ProjectLogo> => {
+  const stored: StoredLogo = { id: createId(), projectId, name, createdAt: Date.now(), blob: file };
+  const db = await openDatabase();
+  const tx = db.transaction(LOGO_STORE, 'readwrite');
+  tx.objectStore(LOGO_STORE).put(stored);
+  await transactionDone(tx);
+  return toProjectLogo(stored);
+};
+
+/**
+ * Copies of logo records for a project, under fresh ids and not yet
+ * stored, with a map from the original ids to the new ones.
+ */
+export const copyLogoRecords = (records: StoredLogo[], projectId: string): { copies: StoredLogo[]; ids: Map<string, string> } => {
+  const ids = new Map(records.map(record => [record.id, createId()]));
+  return { copies: records.map(record => ({ ...record, id: ids.get(record.id)!, projectId })), ids };
+};
+
+/**
+ * Store a new project together with its logos and gallery items in one
+ * transaction, so a failed import leaves nothing half-written behind.
+ */
+export const addProject = async (project: Project, logos: StoredLogo[], images: StoredImage[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECT_STORE, LOGO_STORE, IMAGE_STORE], 'readwrite');
+  logos.forEach(logo => tx.objectStore(LOGO_STORE).put(logo));
+  images.forEach(image => tx.objectStore(IMAGE_STORE).put(image));
+  tx.objectStore(PROJECT_STORE).put(project);
+  await transactionDone(tx);
+};
+
+export const deleteLogo = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(LOGO_STORE, 'readwrite');
+  tx.objectStore(LOGO_STORE).delete(id);
+  await transactionDone(tx);
+};
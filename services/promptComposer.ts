@@ -0,0 +1,120 @@
+import { PromptComposition, PromptModifierCategory } from "../types";
+
+/**
+ * Prompt composer: the chip catalog and the deterministic compiler that
+ * turns a composition (optionally on top of a preset prompt) into the
+ * final prompt string.
+ */
+
+export interface PromptModifierGroup {
+  category: PromptModifierCategory;
+  label: string;
+  options: { label: string; phrase: string }[];
+}
+
+// Order here is the order clauses appear in the compiled prompt.
+export const PROMPT_MODIFIER_GROUPS: PromptModifierGroup[] = [
+  {
+    category: 'style',
+    label: 'Style',
+    options: [
+      { label: 'Photoreal', phrase: 'photorealistic photograph' },
+      { label: 'Flat illustration', phrase: 'flat vector illustration' },
+      { label: '3D render', phrase: 'polished 3D render' },
+      { label: 'Watercolor', phrase: 'soft watercolor painting' },
+      { label: 'Line art', phrase: 'clean black ink line art' },
+    ],
+  },
+  {
+    category: 'lighting',
+    label: 'Lighting',
+    options: [
+      { label: 'Studio', phrase: 'soft even studio lighting' },
+      { label: 'Golden hour', phrase: 'warm golden hour sunlight' },
+      { label: 'Dramatic', phrase: 'dramatic high-contrast lighting' },
+      { label: 'Neon', phrase: 'colorful neon glow' },
+      { label: 'Overcast', phrase: 'diffuse overcast daylight' },
+    ],
+  },
+  {
+    category: 'camera',
+    label: 'Camera',
+    options: [
+      { label: 'Macro', phrase: 'macro lens, extreme close-up' },
+      { label: '35mm', phrase: '35mm lens, natural perspective' },
+      { label: '85mm portrait', phrase: '85mm lens, shallow depth of field' },
+      { label: 'Wide angle', phrase: 'wide-angle lens' },
+      { label: 'Top-down', phrase: 'top-down flat lay shot' },
+    ],
+  },
+  {
+    category: 'background',
+    label: 'Background',
+    options: [
+      { label: 'Plain white', phrase: 'plain white seamless background' },
+      { label: 'Gradient', phrase: 'subtle color gradient background' },
+      { label: 'Lifestyle', phrase: 'real-world lifestyle setting' },
+      { label: 'Blurred', phrase: 'softly blurred background' },
+    ],
+  },
+  {
+    category: 'mood',
+    label: 'Mood',
+    options: [
+      { label: 'Minimal', phrase: 'calm, minimal mood' },
+      { label: 'Playful', phrase: 'bright, playful mood' },
+      { label: 'Luxury', phrase: 'elegant, premium mood' },
+      { label: 'Moody', phrase: 'dark, moody atmosphere' },
+    ],
+  },
+];
+
+export const EMPTY_COMPOSITION: PromptComposition = { subject: '', modifiers: {}, avoid: [] };
+
+const sentence = (text: string): string => {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (!trimmed) return '';
+  const capitalized = trimmed[0].toUpperCase() + trimmed.slice(1);
+  return /[.!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+};
+
+/**
+ * Avoid-list entries trimmed and de-duplicated case-insensitively, keeping
+ * the first spelling of each.
+ */
+export const normalizeAvoidList = (avoid: string[]): string[] => {
+  const seen = new Set<string>();
+  return avoid
+    .map(term => term.trim().replace(/\s+/g, ' '))
+    .filter(term => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const hasModifiers = (composition: PromptComposition): boolean =>
+  Object.values(composition.modifiers).some(Boolean) || normalizeAvoidList(composition.avoid).length > 0;
+
+/**
+ * Compile a composition into the final prompt. The same composition and
+ * base always produce the same string: clauses follow the group order
+ * above, whatever order the chips were picked in.
+ *
+ * `base` is the preset prompt being augmented; when given, the subject is
+ * added as extra detail after it rather than standing on its own.
+ */
+export const compilePrompt = (composition: PromptComposition, base = ''): string => {
+  const parts = [sentence(base), sentence(composition.subject)];
+
+  for (const group of PROMPT_MODIFIER_GROUPS) {
+    const phrase = composition.modifiers[group.category];
+    if (phrase) parts.push(sentence(`${group.label}: ${phrase}`));
+  }
+
+  const avoid = normalizeAvoidList(composition.avoid);
+  if (avoid.length > 0) parts.push(sentence(`Avoid: ${avoid.join(', ')}`));
+
+  return parts.filter(Boolean).join(' ');
+};
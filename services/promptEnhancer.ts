@@ -0,0 +1,17 @@
+import { PromptEnhancement } from "./providers/types";
+
+/**
+ * Offline stand-in for the text model behind Enhance, shared by the mock
+ * provider and the server's stub upstream. Like the mock images, the same
+ * draft always gets the same suggestions.
+ */
+export const placeholderEnhancement = (draft: string): Omit<PromptEnhancement, 'model'> => {
+  const subject = draft.trim().replace(/[.!?]+$/, '');
+  return {
+    prompt: `${subject}, photographed as a professional editorial image. Sharp focus on the main subject, soft natural key light with gentle fill, balanced rule-of-thirds composition, rich but true-to-life colours, shallow depth of field, fine detail.`,
+    alternatives: [
+      `${subject}, cinematic wide shot at golden hour, warm backlight and long shadows, anamorphic lens look, subtle film grain.`,
+      `${subject}, clean studio shot on a seamless neutral backdrop, even softbox lighting, crisp edges, minimal styling.`,
+    ],
+  };
+};
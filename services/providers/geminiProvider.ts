@@ -0,0 +1,124 @@
+import { AspectRatio } from "../../types";
+import {
+  API_ROUTES,
+  CompositeRequestBody,
+  EnhanceRequestBody,
+  EnhanceResponseBody,
+  ErrorResponseBody,
+  GenerateRequestBody,
+  HealthResponseBody,
+  ImagesResponseBody,
+  MockupRequestBody,
+} from "../api";
+import { GenerationError } from "../errors";
+import { ImageProvider, ProviderImage } from "./types";
+
+const EDIT_MODEL = 'gemini-2.5-flash-image';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Gemini through the studio server (see server/index.ts), which holds the
+ * API key. The browser only ever talks to the server's `/api` endpoints.
+ */
+
+// Whether the server has a usable upstream; null until `checkServer` answers.
+let serverConfigured: boolean | null = null;
+let serverCheck: Promise<boolean> | null = null;
+
+/**
+ * Ask the studio server whether it can reach Gemini, and which image types
+ * its upstream returns. The request is made once; later calls share its
+ * answer.
+ */
+export const checkServer = (): Promise<boolean> => {
+  serverCheck ??= fetch(API_ROUTES.health)
+    .then(response => (response.ok ? response.json() as Promise<HealthResponseBody> : null))
+    .then(health => {
+      if (health?.outputMimeType) geminiProvider.capabilities.outputMimeType = health.outputMimeType;
+      return Boolean(health?.configured);
+    })
+    .catch(() => false)
+    .then(configured => {
+      serverConfigured = configured;
+      return configured;
+    });
+  return serverCheck;
+};
+
+type RequestBody = MockupRequestBody | CompositeRequestBody | GenerateRequestBody | EnhanceRequestBody;
+
+const post = async <T extends object>(route: string, body: RequestBody, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(route, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const payload = await response.json().catch(() => null) as T | ErrorResponseBody | null;
+  if (payload && 'error' in payload) {
+    throw new GenerationError(payload.error.kind, payload.error.message);
+  }
+  if (!response.ok || !payload) {
+    // Not an answer from the studio server (e.g. it isn't running behind the proxy).
+    throw Object.assign(new Error(`Server responded with ${response.status} ${response.statusText}`), { status: response.status });
+  }
+  return payload as T;
+};
+
+// The server answers with at least one image; anything else is a broken response, not a result.
+const requireImages = ({ images }: ImagesResponseBody): ProviderImage[] => {
+  if (!Array.isArray(images) || images.length === 0) {
+    throw new GenerationError('empty', "The server's response contained no image");
+  }
+  return images;
+};
+
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Gemini 2.5 Flash Image for mockups, Imagen 4 for image generation, Gemini 2.5 Flash for prompt enhancement. Runs through the studio server, which holds the API key.',
+  capabilities: {
+    edit: true,
+    textToImage: true,
+    compose: true,
+    enhancePrompt: true,
+    maxReferenceImages: 4,
+    aspectRatios: Object.values(AspectRatio),
+    maxImagesPerRequest: 4,
+    // What Gemini returns; replaced by the server's answer once `checkServer` has run.
+    outputMimeType: {
+      edit: 'image/png',
+      textToImage: 'image/jpeg',
+    },
+  },
+  models: {
+    edit: EDIT_MODEL,
+    compose: EDIT_MODEL,
+    textToImage: IMAGE_MODEL,
+    enhance: TEXT_MODEL,
+  },
+
+  // Optimistic until the server has answered; callers that pick a default wait for `checkAvailability`.
+  isAvailable: () => serverConfigured !== false,
+  checkAvailability: checkServer,
+
+  async editImage(base64Image, mimeType, prompt, signal) {
+    const [image] = requireImages(await post<ImagesResponseBody>(API_ROUTES.mockup, { base64Image, mimeType, prompt }, signal));
+    return image;
+  },
+
+  async composeImage(references, prompt, signal) {
+    const [image] = requireImages(await post<ImagesResponseBody>(API_ROUTES.composite, { references, prompt }, signal));
+    return image;
+  },
+
+  async generateImage(prompt, aspectRatio, numberOfImages, signal) {
+    return requireImages(await post<ImagesResponseBody>(API_ROUTES.generate, { prompt, aspectRatio, numberOfImages }, signal));
+  },
+
+  async enhancePrompt(draft, signal) {
+    const { enhancement } = await post<EnhanceResponseBody>(API_ROUTES.enhance, { draft }, signal);
+    return enhancement;
+  },
+};
@@ -0,0 +1,203 @@
+import { AspectRatio } from "../../types";
+import { placeholderEnhancement } from "../promptEnhancer";
+import { sleep } from "../retry";
+import { ImageProvider, ProviderImage } from "./types";
+
+/**
+ * Offline provider that renders deterministic placeholder images on a canvas.
+ * The same prompt (and input image) always yields the same picture, so the
+ * studio can be developed and tested without an API key or network.
+ */
+
+const MOCK_MODEL = 'mock-canvas-v1';
+const MOCK_TEXT_MODEL = 'mock-text-v1';
+const LONG_EDGE = 1024;
+// Simulated round trip so loading states are visible during development.
+const MOCK_LATENCY_MS = 600;
+
+// FNV-1a, good enough to derive stable colours from a prompt.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const canvasSize = (aspectRatio: AspectRatio): { width: number; height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: LONG_EDGE, height: Math.round((LONG_EDGE * h) / w) }
+    : { width: Math.round((LONG_EDGE * w) / h), height: LONG_EDGE };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode input image"));
+    img.src = src;
+  });
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+      if (lines.length === maxLines) break;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  if (lines.length === maxLines) lines[maxLines - 1] = lines[maxLines - 1].replace(/\s*\S*$/, ' …');
+  return lines;
+};
+
+const renderPlaceholder = async (
+  prompt: string,
+  aspectRatio: AspectRatio,
+  seed: string,
+  label: string,
+  inputImages: string[] = []
+): Promise<string> => {
+  const { width, height } = canvasSize(aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const hue = hashString(seed) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 55%, 22%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 50) % 360}, 65%, 38%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+  ctx.lineWidth = 1;
+  for (let x = 0; x < width; x += 64) {
+    ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, height); ctx.stroke();
+  }
+  for (let y = 0; y < height; y += 64) {
+    ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(width, y); ctx.stroke();
+  }
+
+  // Input images sit side by side on white cards above the caption.
+  const hasInput = inputImages.length > 0;
+  if (hasInput) {
+    const images = await Promise.all(inputImages.map(loadImage));
+    const gap = 32;
+    const box = Math.min(Math.min(width, height) * 0.45, (width * 0.9 - gap * (images.length - 1)) / images.length);
+    const left = (width - (box * images.length + gap * (images.length - 1))) / 2;
+    images.forEach((img, i) => {
+      const scale = Math.min(box / img.width, box / img.height);
+      const w = img.width * scale;
+      const h = img.height * scale;
+      const cx = left + i * (box + gap) + box / 2;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.fillRect(cx - box / 2 - 16, height * 0.38 - box / 2 - 16, box + 32, box + 32);
+      ctx.drawImage(img, cx - w / 2, height * 0.38 - h / 2, w, h);
+    });
+  }
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.font = '600 28px Inter, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText(label, width / 2, hasInput ? height * 0.72 : height * 0.35);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.font = '400 22px Inter, sans-serif';
+  const lines = wrapText(ctx, prompt, width * 0.8, 4);
+  const top = (hasInput ? height * 0.72 : height * 0.35) + 44;
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, top + i * 32));
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  ctx.font = '500 16px Inter, sans-serif';
+  ctx.textAlign = 'right';
+  ctx.fillText(`${MOCK_MODEL} · ${aspectRatio}`, width - 24, height - 24);
+
+  return canvas.toDataURL('image/png');
+};
+
+const toResult = (dataUrl: string): ProviderImage => ({
+  dataUrl,
+  mimeType: 'image/png',
+  providerId: 'mock',
+  model: MOCK_MODEL,
+  modelLabel: 'Mock',
+});
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  description: 'Deterministic canvas placeholders. No API key or network needed.',
+  capabilities: {
+    edit: true,
+    textToImage: true,
+    compose: true,
+    enhancePrompt: true,
+    maxReferenceImages: 4,
+    aspectRatios: Object.values(AspectRatio),
+    maxImagesPerRequest: 4,
+    outputMimeType: {
+      edit: 'image/png',
+      textToImage: 'image/png',
+    },
+  },
+  models: {
+    edit: MOCK_MODEL,
+    compose: MOCK_MODEL,
+    textToImage: MOCK_MODEL,
+    enhance: MOCK_TEXT_MODEL,
+  },
+
+  isAvailable: () => typeof document !== 'undefined',
+
+  async editImage(base64Image, mimeType, prompt, signal) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const dataUrl = await renderPlaceholder(
+      prompt,
+      AspectRatio.SQUARE,
+      `${prompt}|${base64Image.length}|${base64Image.slice(0, 256)}`,
+      'MOCK MOCKUP',
+      [`data:${mimeType};base64,${base64Image}`]
+    );
+    return toResult(dataUrl);
+  },
+
+  async composeImage(references, prompt, signal) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const seed = [prompt, ...references.map(r => `${r.role}:${r.base64Image.length}:${r.base64Image.slice(0, 64)}`)].join('|');
+    const dataUrl = await renderPlaceholder(
+      prompt,
+      AspectRatio.SQUARE,
+      seed,
+      `MOCK CO-BRAND · ${references.length} REFS`,
+      references.map(r => `data:${r.mimeType};base64,${r.base64Image}`)
+    );
+    return toResult(dataUrl);
+  },
+
+  async generateImage(prompt, aspectRatio, numberOfImages, signal) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const results: ProviderImage[] = [];
+    for (let i = 0; i < numberOfImages; i++) {
+      // Seed each variant separately so candidates differ but stay reproducible.
+      const seed = i === 0 ? prompt : `${prompt}#${i}`;
+      const label = numberOfImages > 1 ? `MOCK IMAGE ${i + 1}/${numberOfImages}` : 'MOCK IMAGE';
+      results.push(toResult(await renderPlaceholder(prompt, aspectRatio, seed, label)));
+    }
+    return results;
+  },
+
+  async enhancePrompt(draft, signal) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return { ...placeholderEnhancement(draft), model: MOCK_TEXT_MODEL };
+  },
+};
@@ -0,0 +1,46 @@
+import { ImageProvider } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+/**
+ * Registry of image providers the UI can choose from.
+ * Built-in providers register themselves below; additional backends can
+ * call `registerProvider` at startup.
+ */
+
+const providers = new Map<string, ImageProvider>();
+
+export const registerProvider = (provider: ImageProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const listProviders = (): ImageProvider[] => Array.from(providers.values());
+
+export const getProvider = (id: string): ImageProvider => {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown image provider "${id}"`);
+  }
+  return provider;
+};
+
+export const hasProvider = (id: string): boolean => providers.has(id);
+
+/**
+ * Settles once every provider's `isAvailable` is accurate, i.e. when the
+ * default provider can be trusted.
+ */
+export const checkProviders = async (): Promise<void> => {
+  await Promise.all(listProviders().map(provider => provider.checkAvailability?.()));
+};
+
+/**
+ * Prefer the real Gemini backend when a key is configured, otherwise fall
+ * back to the offline mock so the studio is usable out of the box. Call
+ * after `checkProviders` has settled.
+ */
+export const getDefaultProviderId = (): string =>
+  geminiProvider.isAvailable() ? geminiProvider.id : mockProvider.id;
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
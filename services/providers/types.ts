@@ -0,0 +1,72 @@
+import { AspectRatio, ReferenceImage } from "../../types";
+
+export interface ImageProviderCapabilities {
+  /** Can transform an input image according to a prompt (Logo Mockup mode). */
+  edit: boolean;
+  /** Can render an image from a text prompt alone (Image Gen mode). */
+  textToImage: boolean;
+  /** Can combine several role-tagged reference images in one request (Co-brand mode). */
+  compose: boolean;
+  /** Can rewrite a draft prompt with a text model (Enhance in Image Gen mode). */
+  enhancePrompt: boolean;
+  /** Upper bound for the number of reference images in a compose request. */
+  maxReferenceImages: number;
+  aspectRatios: AspectRatio[];
+  /** Upper bound for `numberOfImages` in a single text-to-image request. */
+  maxImagesPerRequest: number;
+  outputMimeType: {
+    edit: string;
+    textToImage: string;
+  };
+}
+
+/**
+ * A single image returned by a provider, already encoded as a data URL.
+ */
+export interface ProviderImage {
+  dataUrl: string;
+  mimeType: string;
+  providerId: string;
+  /** Model ID that produced the image, e.g. `imagen-4.0-generate-001`. */
+  model: string;
+  /** Short display name for the model, e.g. "Imagen 4". */
+  modelLabel: string;
+}
+
+/**
+ * A draft prompt rewritten by a text model: one recommended version plus a
+ * few alternatives that take it in different directions.
+ */
+export interface PromptEnhancement {
+  prompt: string;
+  alternatives: string[];
+  /** Model ID that wrote the suggestions. */
+  model: string;
+}
+
+/** The kinds of call a provider serves, matching the `ImageProvider` methods. */
+export type ProviderOperation = 'edit' | 'compose' | 'textToImage' | 'enhance';
+
+export interface ImageProvider {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: ImageProviderCapabilities;
+  /** Model ID used for each operation, for usage logging and pricing. */
+  models: Record<ProviderOperation, string>;
+  /** False when the provider cannot be used right now (e.g. missing API key). */
+  isAvailable(): boolean;
+  /**
+   * For providers that find out asynchronously whether they can be used
+   * (e.g. by asking a server): settles once `isAvailable` is accurate.
+   */
+  checkAvailability?(): Promise<boolean>;
+  /**
+   * Providers should honour `signal` and throw `GenerationError` for failures
+   * they can classify (missing key, safety block, empty response).
+   */
+  editImage(base64Image: string, mimeType: string, prompt: string, signal?: AbortSignal): Promise<ProviderImage>;
+  composeImage(references: ReferenceImage[], prompt: string, signal?: AbortSignal): Promise<ProviderImage>;
+  generateImage(prompt: string, aspectRatio: AspectRatio, numberOfImages: number, signal?: AbortSignal): Promise<ProviderImage[]>;
+  enhancePrompt(draft: string, signal?: AbortSignal): Promise<PromptEnhancement>;
+}
@@ -0,0 +1,70 @@
+import { ReferenceRole } from "../types";
+
+/**
+ * Roles a reference image can play in a multi-image mockup. The
+ * `instruction` is what the model is told about each image, so the wording
+ * matters as much as a preset template.
+ */
+
+export interface ReferenceRoleInfo {
+  role: ReferenceRole;
+  label: string;
+  instruction: string;
+  /** How many images of this role one request may contain. */
+  max: number;
+}
+
+export const REFERENCE_ROLES: ReferenceRoleInfo[] = [
+  {
+    role: 'primary-logo',
+    label: 'Primary logo',
+    instruction: 'the main brand logo. Reproduce it exactly, without changing its shapes, colors or text, and give it the most prominent placement.',
+    max: 1,
+  },
+  {
+    role: 'secondary-logo',
+    label: 'Secondary logo',
+    instruction: 'a partner or co-brand logo. Reproduce it exactly and place it alongside the primary logo, visually subordinate to it.',
+    max: 2,
+  },
+  {
+    role: 'base-photo',
+    label: 'Base product photo',
+    instruction: 'the product photo to place the logos onto. Keep the product, camera angle, lighting and background unchanged apart from the applied logos.',
+    max: 1,
+  },
+  {
+    role: 'style-reference',
+    label: 'Style reference',
+    instruction: 'a style reference only. Match its mood, color palette and photographic style, but do not copy its content.',
+    max: 2,
+  },
+];
+
+export const referenceRoleInfo = (role: ReferenceRole): ReferenceRoleInfo =>
+  REFERENCE_ROLES.find(info => info.role === role)!;
+
+/**
+ * Problems that make a reference set unusable, as user-facing messages.
+ * An empty list means the set can be sent.
+ */
+export const validateReferences = (roles: ReferenceRole[], maxImages: number): string[] => {
+  const problems: string[] = [];
+  if (roles.length === 0) problems.push("Add at least one reference image.");
+  if (roles.length > maxImages) problems.push(`Use at most ${maxImages} reference images.`);
+  if (!roles.some(role => role === 'primary-logo' || role === 'secondary-logo')) {
+    problems.push("Mark at least one image as a logo.");
+  }
+  REFERENCE_ROLES.forEach(info => {
+    const count = roles.filter(role => role === info.role).length;
+    if (count > info.max) problems.push(`Only ${info.max} ${info.label.toLowerCase()}${info.max === 1 ? '' : 's'} allowed.`);
+  });
+  return problems;
+};
+
+/**
+ * Default role for the next image added to a reference set: fill the
+ * primary logo slot first, then a partner logo.
+ */
+export const nextReferenceRole = (roles: ReferenceRole[]): ReferenceRole =>
+  roles.includes('primary-logo') ? 'secondary-logo' : 'primary-logo';
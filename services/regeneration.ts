@@ -0,0 +1,95 @@
+import { AppMode, AspectRatio, GeneratedImage, GenerationRequest, GenerationSettings, ImageInput } from "../types";
+import { blobToDataUrl, parseDataUrl } from "../utils/dataUrl";
+import { getImageBlob } from "./galleryStore";
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, REFERENCE_PREPROCESS_OPTIONS, preprocessLogo } from "./logoPreprocessor";
+import { getLogoFile } from "./projectStore";
+
+/**
+ * Rebuilds the request behind a gallery item from its recorded settings,
+ * reloading the input images from the project so the job is self-contained.
+ */
+
+/**
+ * Load an item's input image as sent: project logos go back through the
+ * preprocessing they had, edited gallery images are sent as stored.
+ */
+export const loadInputImage = async (
+  input: ImageInput,
+  preprocess: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<{ dataUrl: string; mimeType: string }> => {
+  const blob = input.id
+    ? await (input.kind === 'logo' ? getLogoFile(input.id) : getImageBlob(input.id))
+    : undefined;
+  if (!blob) {
+    throw new Error(input.kind === 'logo'
+      ? "The logo this was made from is no longer in the project."
+      : "The image this was edited from is no longer in the gallery.");
+  }
+  if (input.kind === 'logo') {
+    const processed = await preprocessLogo(blob, preprocess);
+    return { dataUrl: processed.dataUrl, mimeType: processed.mimeType };
+  }
+  return { dataUrl: await blobToDataUrl(blob), mimeType: blob.type || 'image/png' };
+};
+
+/**
+ * Load a project logo as a co-brand reference, converted to PNG and
+ * downscaled so the server accepts it whatever format was uploaded.
+ */
+export const loadReferenceImage = async (logoId: string, name: string): Promise<{ base64Image: string; mimeType: string }> => {
+  const file = await getLogoFile(logoId);
+  if (!file) throw new Error(`"${name}" is no longer in the project.`);
+  const processed = await preprocessLogo(file, REFERENCE_PREPROCESS_OPTIONS);
+  return { base64Image: parseDataUrl(processed.dataUrl).base64, mimeType: processed.mimeType };
+};
+
+/**
+ * The request that reproduces `item`, with `settings` in place of the
+ * recorded ones (pass the recorded settings, or tweaked copies of them).
+ */
+export const buildRegenerationRequest = async (
+  item: GeneratedImage,
+  settings: GenerationSettings,
+  projectId: string
+): Promise<GenerationRequest> => {
+  const { providerId, prompt } = settings;
+
+  if (settings.mode === AppMode.IMAGE_GEN) {
+    // Tweaked settings may no longer use the enhanced text; same rule as the panel.
+    const { enhancement } = item;
+    return {
+      kind: 'generation',
+      projectId,
+      providerId,
+      prompt,
+      aspectRatio: settings.aspectRatio ?? AspectRatio.SQUARE,
+      numberOfImages: settings.numberOfImages ?? 1,
+      settings,
+      enhancement: enhancement?.enhanced === settings.composition.subject.trim() ? enhancement : undefined,
+    };
+  }
+
+  if (settings.mode === AppMode.COMPOSITE) {
+    const references = await Promise.all((item.sources ?? []).map(async source => ({
+      ...source,
+      ...await loadReferenceImage(source.logoId, source.name),
+    })));
+    return { kind: 'composite', projectId, providerId, prompt, references, settings };
+  }
+
+  if (!item.input) throw new Error("The input image of this mockup wasn't recorded. Use \"Copy settings\" with a logo instead.");
+  const image = await loadInputImage(item.input, settings.preprocess);
+  return {
+    kind: 'mockup',
+    projectId,
+    providerId,
+    base64Image: parseDataUrl(image.dataUrl).base64,
+    mimeType: image.mimeType,
+    prompt,
+    settings,
+    input: { ...item.input, mimeType: image.mimeType },
+    presetId: settings.presetId,
+    parentId: item.parentId,
+    rootId: item.rootId,
+  };
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { GenerationError } from './errors';
+import { withRetry } from './retry';
+
+// Small delays keep the backoff real but the tests fast.
+const FAST = { baseDelayMs: 1, maxDelayMs: 2 };
+
+describe('withRetry', () => {
+  it('retries retryable failures and reports each retry', async () => {
+    let calls = 0;
+    const retries: [string, number][] = [];
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) throw new GenerationError('network', 'connection reset');
+      return 'ok';
+    }, { ...FAST, retries: 2, onRetry: (error, attempt) => retries.push([error.kind, attempt]) });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+    expect(retries).toEqual([['network', 1], ['network', 2]]);
+  });
+
+  it('gives up after the allowed number of retries', async () => {
+    let calls = 0;
+    const run = withRetry(async () => {
+      calls++;
+      throw new GenerationError('quota', 'rate limited');
+    }, { ...FAST, retries: 1 });
+
+    await expect(run).rejects.toMatchObject({ kind: 'quota' });
+    expect(calls).toBe(2);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    let calls = 0;
+    const run = withRetry(async () => {
+      calls++;
+      throw new Error('API key not valid');
+    }, { ...FAST, retries: 3 });
+
+    await expect(run).rejects.toMatchObject({ kind: 'auth' });
+    expect(calls).toBe(1);
+  });
+
+  it('turns a slow attempt into a timeout and aborts its signal', async () => {
+    let aborted = false;
+    const run = withRetry(signal => new Promise<never>(() => {
+      signal.addEventListener('abort', () => { aborted = true; });
+    }), { retries: 0, timeoutMs: 10 });
+
+    await expect(run).rejects.toMatchObject({ kind: 'timeout' });
+    expect(aborted).toBe(true);
+  });
+
+  it('reports cancellation as soon as the caller aborts, even if the operation ignores it', async () => {
+    const controller = new AbortController();
+    const run = withRetry(() => new Promise<never>(() => {}), { signal: controller.signal });
+    controller.abort();
+
+    await expect(run).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+
+  it('stops waiting between attempts when cancelled', async () => {
+    const controller = new AbortController();
+    const run = withRetry(async () => {
+      throw new GenerationError('network', 'unavailable');
+    }, {
+      baseDelayMs: 60000,
+      maxDelayMs: 60000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(),
+    });
+
+    await expect(run).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+});
@@ -0,0 +1,95 @@
+import { GenerationError, toGenerationError } from "./errors";
+
+/**
+ * Timeout, cancellation and exponential-backoff retry around a single
+ * provider call.
+ */
+
+export interface RetryOptions {
+  /** Extra attempts after the first one, for retryable errors only. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Per-attempt time limit. */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /** Called before waiting out the delay of each retry; `attempt` is the one that failed, from 1. */
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+const cancelledError = () => new GenerationError('cancelled', "The request was cancelled.");
+
+/**
+ * Resolve after `ms`, or reject as cancelled as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Run one attempt with its own AbortSignal that fires on timeout or when
+ * the caller's signal aborts. Settles immediately on abort even if the
+ * operation ignores its signal.
+ */
+const attempt = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parent?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onParentAbort = () => controller.abort();
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), aborted]);
+  } catch (err) {
+    if (timedOut) {
+      throw new GenerationError('timeout', `No response after ${Math.round(timeoutMs / 1000)}s.`, err);
+    }
+    if (parent?.aborted) throw cancelledError();
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onParentAbort);
+  }
+};
+
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const { retries = 2, baseDelayMs = 1000, maxDelayMs = 10000, timeoutMs = 90000, signal, onRetry } = options;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    if (signal?.aborted) throw cancelledError();
+    try {
+      return await attempt(operation, timeoutMs, signal);
+    } catch (err) {
+      const error = toGenerationError(err);
+      if (!error.retryable || attemptNumber >= retries || signal?.aborted) throw error;
+      // Full jitter keeps parallel batch jobs from retrying in lockstep.
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attemptNumber) * (0.5 + Math.random() / 2);
+      onRetry?.(error, attemptNumber + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
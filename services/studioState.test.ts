@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode, AspectRatio, MockupPreset } from '../types';
+import { DEFAULT_PREPROCESS_OPTIONS } from './logoPreprocessor';
+import { SETUP_FILE_VERSION, StudioState, decodeStudioState, encodeStudioState, exportSetup, parseSetupFile } from './studioState';
+
+const STATE: StudioState = {
+  mode: AppMode.IMAGE_GEN,
+  providerId: 'gemini',
+  composition: {
+    subject: 'A café storefront & sign',
+    modifiers: { style: 'watercolor', lighting: 'golden hour' },
+    avoid: ['text', 'watermarks'],
+  },
+  presetIds: ['mug', 'custom-1'],
+  promptMode: 'replace',
+  templateValues: { color: 'navy blue' },
+  aspectRatio: AspectRatio.WIDE,
+  numberOfImages: 3,
+};
+
+describe('encodeStudioState / decodeStudioState', () => {
+  it('round-trips a state through the location hash', () => {
+    expect(decodeStudioState(`#${encodeStudioState(STATE)}`)).toEqual(STATE);
+  });
+
+  it('leaves empty fields out of the link', () => {
+    const hash = encodeStudioState({
+      ...STATE,
+      composition: { subject: ' ', modifiers: {}, avoid: [] },
+      presetIds: [],
+      promptMode: 'augment',
+      templateValues: { color: '' },
+      numberOfImages: 1,
+    });
+    expect(hash).toBe('mode=image&provider=gemini&ratio=16%3A9');
+  });
+
+  it('returns null for a hash without a known mode', () => {
+    expect(decodeStudioState('')).toBeNull();
+    expect(decodeStudioState('#mode=video&ratio=1:1')).toBeNull();
+  });
+
+  it('replaces malformed values with the defaults', () => {
+    const state = decodeStudioState('#mode=mockup&ratio=2:1&n=-4&promptMode=other&lighting=&presets=,mug,');
+    expect(state).toMatchObject({
+      mode: AppMode.MOCKUP,
+      providerId: '',
+      aspectRatio: AspectRatio.SQUARE,
+      numberOfImages: 1,
+      promptMode: 'augment',
+      presetIds: ['mug'],
+      composition: { subject: '', modifiers: {}, avoid: [] },
+    });
+  });
+});
+
+const PRESETS: MockupPreset[] = [
+  { id: 'mug', name: 'Ceramic Mug', icon: '☕', builtIn: true, promptTemplate: 'A mug.' },
+  { id: 'custom-1', name: 'Billboard', icon: '🪧', promptTemplate: 'A {color} billboard.' },
+  { id: 'custom-2', name: 'Unused', icon: '📦', promptTemplate: 'A box.' },
+];
+
+describe('exportSetup / parseSetupFile', () => {
+  it('bundles only the user-defined presets the state selects', () => {
+    const logo = { name: 'acme.png', dataUrl: 'data:image/png;base64,AAAA' };
+    const setup = parseSetupFile(exportSetup(STATE, PRESETS, logo, DEFAULT_PREPROCESS_OPTIONS));
+
+    expect(setup.state).toEqual(STATE);
+    expect(setup.presets).toEqual([{ id: 'custom-1', name: 'Billboard', icon: '🪧', promptTemplate: 'A {color} billboard.' }]);
+    expect(setup.logo).toEqual(logo);
+    expect(setup.preprocess).toEqual(DEFAULT_PREPROCESS_OPTIONS);
+  });
+
+  it('rejects files that are not setups', () => {
+    expect(() => parseSetupFile('{')).toThrow('The file is not valid JSON.');
+    expect(() => parseSetupFile('{"format":"mockupai-presets","state":{}}')).toThrow('The file is not a MockupAI setup.');
+    expect(() => parseSetupFile(JSON.stringify({ format: 'mockupai-setup', version: SETUP_FILE_VERSION + 1, state: {} })))
+      .toThrow(`Unsupported setup file version ${SETUP_FILE_VERSION + 1}.`);
+  });
+
+  it('drops a logo that is not an image data URL and presets missing fields', () => {
+    const setup = parseSetupFile(JSON.stringify({
+      format: 'mockupai-setup',
+      version: SETUP_FILE_VERSION,
+      state: { mode: AppMode.MOCKUP },
+      presets: [{ id: 'x', name: 'No template', icon: '?' }],
+      logo: { name: 'evil.html', dataUrl: 'data:text/html,<script></script>' },
+    }));
+
+    expect(setup.logo).toBeUndefined();
+    expect(setup.presets).toEqual([]);
+    expect(setup.preprocess).toBeUndefined();
+  });
+
+  it('validates preprocessing options field by field', () => {
+    const setup = parseSetupFile(JSON.stringify({
+      format: 'mockupai-setup',
+      version: SETUP_FILE_VERSION,
+      state: {},
+      preprocess: {
+        enabled: false,
+        maxDimension: 100000,
+        trimMargins: 'yes',
+        background: 'flood-fill',
+        tolerance: 250,
+        padToAspect: AspectRatio.PORTRAIT,
+        paddingPercent: 20,
+      },
+    }));
+
+    expect(setup.preprocess).toEqual({
+      ...DEFAULT_PREPROCESS_OPTIONS,
+      enabled: false,
+      background: 'flood-fill',
+      padToAspect: AspectRatio.PORTRAIT,
+      paddingPercent: 20,
+    });
+  });
+
+  it('keeps a maximum dimension of 0, meaning the original size', () => {
+    const setup = parseSetupFile(JSON.stringify({
+      format: 'mockupai-setup',
+      version: SETUP_FILE_VERSION,
+      state: {},
+      preprocess: { maxDimension: 0 },
+    }));
+
+    expect(setup.preprocess?.maxDimension).toBe(0);
+  });
+});
@@ -0,0 +1,232 @@
+import { AppMode, AspectRatio, MockupPreset, PromptComposition, PromptModifierCategory } from "../types";
+import { BackgroundRemoval, DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions } from "./logoPreprocessor";
+import { PROMPT_MODIFIER_GROUPS } from "./promptComposer";
+
+/**
+ * The sidebar settings as one value, so a session can be kept in the URL
+ * (and moved through with back/forward) or handed to a colleague as a
+ * setup file together with the logo.
+ */
+
+export interface StudioState {
+  mode: AppMode;
+  providerId: string;
+  composition: PromptComposition;
+  // Mockups
+  presetIds: string[];
+  promptMode: 'augment' | 'replace';
+  templateValues: Record<string, string>;
+  // Image generation
+  aspectRatio: AspectRatio;
+  numberOfImages: number;
+}
+
+/** Everything a setup file restores: the settings plus what they depend on. */
+export interface SharedSetup {
+  state: StudioState;
+  presets: MockupPreset[]; // User-defined presets the state selects
+  logo?: { name: string; dataUrl: string }; // The original upload, before preprocessing
+  preprocess?: PreprocessOptions;
+}
+
+interface SetupFile extends SharedSetup {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+const FILE_FORMAT = 'mockupai-setup';
+export const SETUP_FILE_VERSION = 1;
+
+// Short, readable names for the modes in links.
+const MODE_PARAMS: Record<AppMode, string> = {
+  [AppMode.MOCKUP]: 'mockup',
+  [AppMode.IMAGE_GEN]: 'image',
+  [AppMode.COMPOSITE]: 'cobrand',
+  [AppMode.PLACE]: 'place',
+};
+
+const TEMPLATE_VALUE_PREFIX = 'v.';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && Boolean(item.trim())) : [];
+
+const BACKGROUND_MODES: BackgroundRemoval[] = ['none', 'color-key', 'flood-fill'];
+
+// Largest `maxDimension` a file may ask for; 0 (keep the original size) is also allowed.
+const MAX_PREPROCESS_DIMENSION = 4096;
+
+const numberIn = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : fallback;
+
+/** Validate preprocessing options from a file, field by field; bad fields get their defaults. */
+const toPreprocessOptions = (raw: Record<string, unknown>): PreprocessOptions => {
+  const defaults = DEFAULT_PREPROCESS_OPTIONS;
+  const maxDimension = raw.maxDimension === 0 ? 0 : Math.round(numberIn(raw.maxDimension, 64, MAX_PREPROCESS_DIMENSION, defaults.maxDimension));
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : defaults.enabled,
+    maxDimension,
+    trimMargins: typeof raw.trimMargins === 'boolean' ? raw.trimMargins : defaults.trimMargins,
+    background: BACKGROUND_MODES.includes(raw.background as BackgroundRemoval) ? raw.background as BackgroundRemoval : defaults.background,
+    tolerance: numberIn(raw.tolerance, 0, 100, defaults.tolerance),
+    padToAspect: raw.padToAspect === 'none' || Object.values(AspectRatio).includes(raw.padToAspect as AspectRatio)
+      ? raw.padToAspect as PreprocessOptions['padToAspect']
+      : defaults.padToAspect,
+    paddingPercent: numberIn(raw.paddingPercent, 0, 50, defaults.paddingPercent),
+  };
+};
+
+/**
+ * Validate a state from outside the app (a link or a file). Anything
+ * missing or malformed falls back to the defaults of a fresh session;
+ * `providerId` is left empty when absent, meaning "keep the current one".
+ * `numberOfImages` is only checked to be positive; the provider's limit
+ * applies when the state is applied.
+ */
+const toStudioState = (raw: Record<string, unknown>): StudioState => {
+  const composition = isRecord(raw.composition) ? raw.composition : {};
+  const modifiers: PromptComposition['modifiers'] = {};
+  if (isRecord(composition.modifiers)) {
+    for (const group of PROMPT_MODIFIER_GROUPS) {
+      const phrase = composition.modifiers[group.category];
+      if (typeof phrase === 'string' && phrase.trim()) modifiers[group.category] = phrase;
+    }
+  }
+  const templateValues: Record<string, string> = {};
+  if (isRecord(raw.templateValues)) {
+    Object.entries(raw.templateValues).forEach(([name, value]) => {
+      if (typeof value === 'string') templateValues[name] = value;
+    });
+  }
+  const numberOfImages = Number(raw.numberOfImages);
+
+  return {
+    mode: Object.values(AppMode).includes(raw.mode as AppMode) ? raw.mode as AppMode : AppMode.MOCKUP,
+    providerId: typeof raw.providerId === 'string' ? raw.providerId : '',
+    composition: {
+      subject: typeof composition.subject === 'string' ? composition.subject : '',
+      modifiers,
+      avoid: stringList(composition.avoid),
+    },
+    presetIds: stringList(raw.presetIds),
+    promptMode: raw.promptMode === 'replace' ? 'replace' : 'augment',
+    templateValues,
+    aspectRatio: Object.values(AspectRatio).includes(raw.aspectRatio as AspectRatio) ? raw.aspectRatio as AspectRatio : AspectRatio.SQUARE,
+    numberOfImages: Number.isInteger(numberOfImages) && numberOfImages >= 1 ? numberOfImages : 1,
+  };
+};
+
+/**
+ * The state as URL parameters, for use as the location hash. Empty fields
+ * are left out to keep links short.
+ */
+export const encodeStudioState = (state: StudioState): string => {
+  const params = new URLSearchParams();
+  params.set('mode', MODE_PARAMS[state.mode]);
+  params.set('provider', state.providerId);
+  if (state.presetIds.length) params.set('presets', state.presetIds.join(','));
+  if (state.promptMode === 'replace') params.set('promptMode', 'replace');
+  Object.entries(state.templateValues).forEach(([name, value]) => {
+    if (value.trim()) params.set(`${TEMPLATE_VALUE_PREFIX}${name}`, value);
+  });
+  if (state.composition.subject.trim()) params.set('prompt', state.composition.subject);
+  PROMPT_MODIFIER_GROUPS.forEach(({ category }) => {
+    const phrase = state.composition.modifiers[category];
+    if (phrase) params.set(category, phrase);
+  });
+  state.composition.avoid.filter(term => term.trim()).forEach(term => params.append('avoid', term));
+  params.set('ratio', state.aspectRatio);
+  if (state.numberOfImages > 1) params.set('n', String(state.numberOfImages));
+  return params.toString();
+};
+
+/**
+ * Read a state back from a location hash. Returns null when the hash
+ * doesn't hold one, so a plain visit keeps the saved session.
+ */
+export const decodeStudioState = (hash: string): StudioState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const modeParam = params.get('mode');
+  const mode = (Object.keys(MODE_PARAMS) as AppMode[]).find(key => MODE_PARAMS[key] === modeParam);
+  if (!mode) return null;
+
+  const modifiers: Record<string, string> = {};
+  PROMPT_MODIFIER_GROUPS.forEach(({ category }) => {
+    const phrase = params.get(category);
+    if (phrase) modifiers[category as PromptModifierCategory] = phrase;
+  });
+  const templateValues: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(TEMPLATE_VALUE_PREFIX)) templateValues[key.slice(TEMPLATE_VALUE_PREFIX.length)] = value;
+  });
+
+  return toStudioState({
+    mode,
+    providerId: params.get('provider') ?? undefined,
+    composition: { subject: params.get('prompt') ?? '', modifiers, avoid: params.getAll('avoid') },
+    presetIds: (params.get('presets') ?? '').split(','),
+    promptMode: params.get('promptMode'),
+    templateValues,
+    aspectRatio: params.get('ratio'),
+    numberOfImages: params.get('n') ?? 1,
+  });
+};
+
+/**
+ * Serialize a setup for sharing. Built-in presets ship with every copy of
+ * the app, so only the user-defined presets the state selects are bundled.
+ */
+export const exportSetup = (
+  state: StudioState,
+  presets: MockupPreset[],
+  logo?: SharedSetup['logo'],
+  preprocess?: PreprocessOptions
+): string => {
+  const file: SetupFile = {
+    format: FILE_FORMAT,
+    version: SETUP_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    state,
+    presets: presets
+      .filter(preset => !preset.builtIn && state.presetIds.includes(preset.id))
+      .map(({ id, name, icon, promptTemplate }) => ({ id, name, icon, promptTemplate })),
+    logo,
+    preprocess,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parse and validate a setup file. Throws with a user-facing message when
+ * the file is not a setup this version understands.
+ */
+export const parseSetupFile = (json: string): SharedSetup => {
+  let file: Partial<SetupFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (file?.format !== FILE_FORMAT || !isRecord(file.state)) {
+    throw new Error("The file is not a MockupAI setup.");
+  }
+  if (typeof file.version !== 'number' || file.version > SETUP_FILE_VERSION) {
+    throw new Error(`Unsupported setup file version ${file.version}.`);
+  }
+  const logo = isRecord(file.logo) && typeof file.logo.dataUrl === 'string' && file.logo.dataUrl.startsWith('data:image/')
+    ? { name: typeof file.logo.name === 'string' ? file.logo.name : 'logo', dataUrl: file.logo.dataUrl }
+    : undefined;
+  const presets = (Array.isArray(file.presets) ? file.presets : []).filter((preset): preset is MockupPreset =>
+    isRecord(preset) && typeof preset.id === 'string' && typeof preset.name === 'string'
+    && typeof preset.icon === 'string' && typeof preset.promptTemplate === 'string');
+
+  return {
+    state: toStudioState(file.state),
+    presets: presets.map(({ id, name, icon, promptTemplate }) => ({ id, name, icon, promptTemplate })),
+    logo,
+    preprocess: isRecord(file.preprocess) ? toPreprocessOptions(file.preprocess) : undefined,
+  };
+};
@@ -0,0 +1,91 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_BUDGETS, UsageEntry, checkBudgets, clearUsage, estimateCost, recordUsage, summarizeUsage, usageToCsv } from './usageLog';
+
+const call = (overrides: Partial<Omit<UsageEntry, 'id' | 'cost'>> = {}): Omit<UsageEntry, 'id' | 'cost'> => ({
+  createdAt: Date.now(),
+  projectId: 'p1',
+  providerId: 'gemini',
+  model: 'imagen-4.0-generate-001',
+  operation: 'textToImage',
+  status: 'success',
+  latencyMs: 1000,
+  images: 1,
+  ...overrides,
+});
+
+describe('estimateCost', () => {
+  it('prices each image at the model rate', () => {
+    expect(estimateCost('imagen-4.0-generate-001', 4, { 'imagen-4.0-generate-001': 0.04 })).toBeCloseTo(0.16);
+  });
+
+  it('treats unknown models as free', () => {
+    expect(estimateCost('upstream-stub', 3, {})).toBe(0);
+  });
+});
+
+describe('recordUsage', () => {
+  beforeEach(() => clearUsage());
+
+  it('bills a successful enhancement as one unit and a failed one as nothing', async () => {
+    const success = await recordUsage(call({ model: 'gemini-2.5-flash', operation: 'enhance', images: 0 }));
+    const failed = await recordUsage(call({ model: 'gemini-2.5-flash', operation: 'enhance', images: 0, status: 'failed' }));
+    expect(success.cost).toBeCloseTo(0.002);
+    expect(failed.cost).toBe(0);
+  });
+});
+
+describe('checkBudgets', () => {
+  beforeEach(() => clearUsage());
+
+  it('is null while every limit is off', async () => {
+    await recordUsage(call({ images: 100 }));
+    expect(await checkBudgets('p1', DEFAULT_BUDGETS)).toBeNull();
+  });
+
+  it('reports each limit that has been reached, with its action', async () => {
+    await recordUsage(call({ images: 2 }));
+    await recordUsage(call({ images: 1, projectId: 'p2' }));
+
+    const status = await checkBudgets('p1', { daily: 0.2, monthly: 0.12, perProject: 0.08, action: 'block' });
+    expect(status?.action).toBe('block');
+    expect(status?.exceeded).toHaveLength(2);
+    expect(status?.exceeded[0]).toMatch(/this month's spend/);
+    expect(status?.exceeded[1]).toMatch(/this project's spend/);
+  });
+
+  it("counts only today's spend against the daily limit", async () => {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    await recordUsage(call({ images: 5, createdAt: yesterday.getTime() }));
+
+    const status = await checkBudgets('p1', { daily: 0.1, monthly: null, perProject: null, action: 'warn' });
+    expect(status).toBeNull();
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('leaves cancelled calls out of the average latency', () => {
+    const entries = [
+      { ...call({ latencyMs: 1000 }), id: 'a', cost: 0.04 },
+      { ...call({ latencyMs: 3000, status: 'failed', images: 0 }), id: 'b', cost: 0 },
+      { ...call({ latencyMs: 90000, status: 'cancelled', images: 0 }), id: 'c', cost: 0 },
+    ];
+    expect(summarizeUsage(entries)).toEqual({ calls: 3, failures: 1, images: 1, cost: 0.04, averageLatencyMs: 2000 });
+  });
+});
+
+describe('usageToCsv', () => {
+  it('quotes cells containing commas, quotes or line breaks', () => {
+    const entry = {
+      ...call({ createdAt: Date.UTC(2025, 0, 2), status: 'failed', images: 0, reason: 'safety: Blocked, "IMAGE_SAFETY"\nretry' }),
+      id: 'a',
+      cost: 0,
+    };
+    const [, row] = usageToCsv([entry], { p1: 'Acme, Inc.' }).split('\r\n');
+    expect(row).toBe(
+      '2025-01-02T00:00:00.000Z,"Acme, Inc.",gemini,imagen-4.0-generate-001,textToImage,failed,'
+      + '"safety: Blocked, ""IMAGE_SAFETY""\nretry",1000,0,0.0000'
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import { formatUsd } from "../utils/format";
+import { createId } from "../utils/id";
+import { USAGE_STORE, openDatabase, requestToPromise, transactionDone } from "./db";
+import { ProviderOperation } from "./providers/types";
+
+/**
+ * Local log of every provider call, with estimated cost, plus the pricing
+ * table and soft budgets it is checked against. Nothing leaves the browser;
+ * costs are estimates from the configured prices, not billing data.
+ */
+
+export type UsageStatus = 'success' | 'failed' | 'cancelled';
+
+export interface UsageEntry {
+  id: string;
+  createdAt: number;
+  projectId?: string;
+  providerId: string;
+  model: string;
+  operation: ProviderOperation;
+  status: UsageStatus;
+  reason?: string; // Error kind and message, for failed calls
+  latencyMs: number; // Including retries
+  images: number;
+  cost: number; // Estimated USD at the prices in effect when the call was logged
+}
+
+/** USD per output image (per call for text models), keyed by model ID. */
+export type ModelPricing = Record<string, number>;
+
+/**
+ * Spending limits in USD. A null limit is off. Once any limit is reached,
+ * new calls are either flagged or refused, depending on `action`.
+ */
+export interface UsageBudgets {
+  daily: number | null;
+  monthly: number | null;
+  perProject: number | null; // Lifetime spend of each project
+  action: 'warn' | 'block';
+}
+
+export interface UsageSummary {
+  calls: number;
+  failures: number;
+  images: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+export interface BudgetStatus {
+  exceeded: string[]; // Human-readable description of each limit that was reached
+  action: UsageBudgets['action'];
+}
+
+const PRICING_STORAGE_KEY = 'mockupai.pricing';
+const BUDGETS_STORAGE_KEY = 'mockupai.budgets';
+
+export const DEFAULT_PRICING: ModelPricing = {
+  'gemini-2.5-flash-image': 0.039,
+  'imagen-4.0-generate-001': 0.04,
+  'gemini-2.5-flash': 0.002, // A prompt enhancement: a few hundred tokens in, ~1k out
+  'mock-canvas-v1': 0,
+  'mock-text-v1': 0,
+};
+
+export const DEFAULT_BUDGETS: UsageBudgets = {
+  daily: null,
+  monthly: null,
+  perProject: null,
+  action: 'warn',
+};
+
+export const loadPricing = (): ModelPricing => {
+  try {
+    const raw = localStorage.getItem(PRICING_STORAGE_KEY);
+    return raw ? { ...DEFAULT_PRICING, ...JSON.parse(raw) } : DEFAULT_PRICING;
+  } catch {
+    return DEFAULT_PRICING;
+  }
+};
+
+export const savePricing = (pricing: ModelPricing) => {
+  localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(pricing));
+};
+
+export const loadBudgets = (): UsageBudgets => {
+  try {
+    const raw = localStorage.getItem(BUDGETS_STORAGE_KEY);
+    return raw ? { ...DEFAULT_BUDGETS, ...JSON.parse(raw) } : DEFAULT_BUDGETS;
+  } catch {
+    return DEFAULT_BUDGETS;
+  }
+};
+
+export const saveBudgets = (budgets: UsageBudgets) => {
+  localStorage.setItem(BUDGETS_STORAGE_KEY, JSON.stringify(budgets));
+};
+
+export const estimateCost = (model: string, images: number, pricing: ModelPricing = loadPricing()): number =>
+  (pricing[model] ?? 0) * images;
+
+// Text calls produce no images; a successful one is billed as one unit.
+const billedUnits = (entry: Omit<UsageEntry, 'id' | 'cost'>): number =>
+  entry.operation === 'enhance' ? Number(entry.status === 'success') : entry.images;
+
+/**
+ * Append one call to the log, pricing it at the current rates.
+ */
+export const recordUsage = async (entry: Omit<UsageEntry, 'id' | 'cost'>): Promise<UsageEntry> => {
+  const stored: UsageEntry = { ...entry, id: createId(), cost: estimateCost(entry.model, billedUnits(entry)) };
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).put(stored);
+  await transactionDone(tx);
+  return stored;
+};
+
+/**
+ * Logged calls made at or after `since` (all of them by default), newest first.
+ */
+export const listUsage = async (since: number = -Infinity): Promise<UsageEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readonly');
+  const entries = await requestToPromise(
+    tx.objectStore(USAGE_STORE).index('createdAt').getAll(IDBKeyRange.lowerBound(since))
+  ) as UsageEntry[];
+  return entries.reverse();
+};
+
+export const clearUsage = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).clear();
+  await transactionDone(tx);
+};
+
+export const summarizeUsage = (entries: UsageEntry[]): UsageSummary => {
+  const completed = entries.filter(entry => entry.status !== 'cancelled');
+  return {
+    calls: entries.length,
+    failures: entries.filter(entry => entry.status === 'failed').length,
+    images: entries.reduce((sum, entry) => sum + entry.images, 0),
+    cost: entries.reduce((sum, entry) => sum + entry.cost, 0),
+    averageLatencyMs: completed.length
+      ? completed.reduce((sum, entry) => sum + entry.latencyMs, 0) / completed.length
+      : 0,
+  };
+};
+
+/**
+ * Summaries per key (e.g. per day or per project), in order of first appearance.
+ */
+export const groupUsage = (entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): [string, UsageSummary][] => {
+  const groups = new Map<string, UsageEntry[]>();
+  entries.forEach(entry => {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+  return Array.from(groups, ([key, group]) => [key, summarizeUsage(group)]);
+};
+
+/** Local calendar day of a timestamp, as YYYY-MM-DD. */
+export const usageDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const startOfDay = (now: Date) => new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+const startOfMonth = (now: Date) => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+/**
+ * Which budgets the spend so far has reached. Returns null when every
+ * limit is off or still has room.
+ */
+export const checkBudgets = async (projectId?: string, budgets: UsageBudgets = loadBudgets()): Promise<BudgetStatus | null> => {
+  if (budgets.daily === null && budgets.monthly === null && budgets.perProject === null) return null;
+
+  const now = new Date();
+  const entries = await listUsage(budgets.perProject === null ? startOfMonth(now) : -Infinity);
+  const spent = (list: UsageEntry[]) => list.reduce((sum, entry) => sum + entry.cost, 0);
+  const exceeded: string[] = [];
+
+  const today = spent(entries.filter(entry => entry.createdAt >= startOfDay(now)));
+  if (budgets.daily !== null && today >= budgets.daily) {
+    exceeded.push(`today's spend ${formatUsd(today)} of ${formatUsd(budgets.daily)}`);
+  }
+  const month = spent(entries.filter(entry => entry.createdAt >= startOfMonth(now)));
+  if (budgets.monthly !== null && month >= budgets.monthly) {
+    exceeded.push(`this month's spend ${formatUsd(month)} of ${formatUsd(budgets.monthly)}`);
+  }
+  if (budgets.perProject !== null && projectId) {
+    const project = spent(entries.filter(entry => entry.projectId === projectId));
+    if (project >= budgets.perProject) {
+      exceeded.push(`this project's spend ${formatUsd(project)} of ${formatUsd(budgets.perProject)}`);
+    }
+  }
+
+  return exceeded.length ? { exceeded, action: budgets.action } : null;
+};
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The log as CSV, one row per call. `projectNames` turns project IDs into
+ * names for readers outside the app.
+ */
+export const usageToCsv = (entries: UsageEntry[], projectNames: Record<string, string> = {}): string => {
+  const header = ['timestamp', 'project', 'provider', 'model', 'operation', 'status', 'reason', 'latency_ms', 'images', 'estimated_cost_usd'];
+  const rows = entries.map(entry => [
+    new Date(entry.createdAt).toISOString(),
+    entry.projectId ? projectNames[entry.projectId] ?? entry.projectId : '',
+    entry.providerId,
+    entry.model,
+    entry.operation,
+    entry.status,
+    entry.reason,
+    Math.round(entry.latencyMs),
+    entry.images,
+    entry.cost.toFixed(4),
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\r\n');
+};
@@ -1,21 +1,211 @@
+import type { PreprocessOptions } from './services/logoPreprocessor';
+
 export enum AppMode {
   MOCKUP = 'MOCKUP',
-  IMAGE_GEN = 'IMAGE_GEN'
+  IMAGE_GEN = 'IMAGE_GEN',
+  COMPOSITE = 'COMPOSITE',
+  PLACE = 'PLACE'
 }
 
+/**
+ * A gallery item. Stored records carry a schema `version`; older records are
+ * upgraded by `migrateImageRecord` when the database or an archive is opened.
+ */
 export interface GeneratedImage {
+  version?: number; // Record schema version; absent on records from before versioning
   id: string;
-  url: string;
+  url: string; // data URL when freshly generated, object URL once loaded from the gallery store
+  prompt: string;
+  createdAt: number;
+  type: 'mockup' | 'generation' | 'composite'; // 'composite' is placed locally, without AI
+  projectId?: string; // Owning project. Absent on items saved before projects existed
+  presetId?: string; // Mockup preset the prompt came from, if any
+  // Provider that produced the image. Absent on items saved before providers existed.
+  providerId?: string;
+  model?: string;
+  modelLabel?: string;
+  // Set when the image is one of several candidates from a single request.
+  group?: GenerationGroup;
+  // Refinement lineage: the image this one was edited from, and the first
+  // image of that chain. Both are absent on original generations.
+  parentId?: string;
+  rootId?: string;
+  // Pixel size, measured when the image is saved. Absent on older items.
+  width?: number;
+  height?: number;
+  tags?: string[];
+  favorite?: boolean;
+  // Reference images a multi-image mockup was composed from.
+  sources?: ImageSource[];
+  // How a locally composited image was assembled.
+  composite?: CompositeRecord;
+  mimeType?: string; // Of the stored image
+  // The image the provider was given, for mockups and edits.
+  input?: ImageInput;
+  // Everything the sidebar was set to when the request was made, so the
+  // image can be regenerated or loaded back into the panel.
+  settings?: GenerationSettings;
+  // Set when the prompt was rewritten by Enhance before generating.
+  enhancement?: PromptEnhancementRecord;
+}
+
+/**
+ * The user's draft and the enhanced text they accepted (possibly after
+ * editing it) in its place. `enhanced` is part of the final `prompt`.
+ */
+export interface PromptEnhancementRecord {
+  original: string;
+  enhanced: string;
+  model: string;
+}
+
+/**
+ * Reference to the input image of a generation. Points at a project logo,
+ * or at the gallery item an edit was made from.
+ */
+export interface ImageInput {
+  kind: 'logo' | 'image';
+  id?: string; // Absent when the upload couldn't be kept with the project
+  mimeType?: string; // As sent to the provider; unknown on migrated records
+}
+
+/**
+ * The request parameters behind a generated image. `prompt` is exactly
+ * what the provider received; the rest restores the panel that built it.
+ */
+export interface GenerationSettings {
+  mode: AppMode.MOCKUP | AppMode.IMAGE_GEN | AppMode.COMPOSITE;
+  providerId: string;
+  prompt: string;
+  composition: PromptComposition;
+  // Mockups
+  presetId?: string;
+  promptMode?: 'augment' | 'replace';
+  templateValues?: Record<string, string>;
+  preprocess?: PreprocessOptions; // Applied to the input logo before sending
+  // Image generation
+  aspectRatio?: AspectRatio;
+  numberOfImages?: number;
+}
+
+/** Canvas composite operations offered for placing a logo. */
+export type BlendMode =
+  | 'source-over'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'soft-light'
+  | 'hard-light'
+  | 'darken'
+  | 'lighten'
+  | 'color-burn';
+
+/** A point on the base image, as fractions of its width and height. */
+export interface NormalizedPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Where and how the logo sits on the base image. In 'transform' mode the
+ * centre, scale and rotation apply; in 'perspective' mode the four corners
+ * (top-left, top-right, bottom-right, bottom-left of the logo) do.
+ */
+export interface Placement {
+  mode: 'transform' | 'perspective';
+  x: number;
+  y: number;
+  scale: number; // Logo width as a fraction of the base width
+  rotation: number; // Degrees, clockwise
+  corners: [NormalizedPoint, NormalizedPoint, NormalizedPoint, NormalizedPoint];
+  blendMode: BlendMode;
+  opacity: number; // 0–1
+}
+
+export interface CompositeRecord {
+  baseName: string;
+  baseImageId?: string; // Gallery item used as the base, if any
+  logoId?: string; // Project logo that was placed
+  placement: Placement;
+}
+
+/**
+ * What a reference image is for in a multi-image (co-branded) mockup.
+ */
+export type ReferenceRole = 'primary-logo' | 'secondary-logo' | 'base-photo' | 'style-reference';
+
+/**
+ * A reference image as recorded on the gallery item: the project logo it
+ * came from and the role it played.
+ */
+export interface ImageSource {
+  role: ReferenceRole;
+  logoId: string;
+  name: string;
+}
+
+/**
+ * A reference image as sent to a provider.
+ */
+export interface ReferenceImage extends ImageSource {
+  base64Image: string;
+  mimeType: string;
+}
+
+/**
+ * Links the variants returned by one request to the prompt and settings
+ * that produced them.
+ */
+export interface GenerationGroup {
+  id: string;
+  index: number; // Position of this variant within the request, from 0
+  size: number; // Number of variants the request returned
   prompt: string;
+  aspectRatio: AspectRatio;
+}
+
+/**
+ * A client or brand workspace. Owns its uploaded logos, preset selection
+ * and gallery items.
+ */
+export interface Project {
+  id: string;
+  name: string;
   createdAt: number;
-  type: 'mockup' | 'generation';
+  selectedPresets: string[];
+  activeLogoId?: string; // Logo loaded into the mockup panel when the project opens
+}
+
+/**
+ * An original logo upload kept with its project. `url` is an object URL
+ * owned by whoever loaded the record.
+ */
+export interface ProjectLogo {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: number;
+  url: string;
 }
 
 export interface MockupPreset {
   id: string;
   name: string;
   icon: string; // Emoji icon
-  promptTemplate: string;
+  promptTemplate: string; // May contain {placeholder} fields filled in before generation
+  builtIn?: boolean; // Shipped with the app; read-only but can be duplicated
+}
+
+export type PromptModifierCategory = 'style' | 'lighting' | 'camera' | 'background' | 'mood';
+
+/**
+ * Structured prompt built in the composer. Compiled into the plain prompt
+ * string that is sent to the provider and stored on the image.
+ */
+export interface PromptComposition {
+  subject: string;
+  modifiers: Partial<Record<PromptModifierCategory, string>>; // At most one chip per category
+  avoid: string[];
 }
 
 export enum AspectRatio {
@@ -24,4 +214,41 @@ export enum AspectRatio {
   LANDSCAPE = '4:3',
   WIDE = '16:9',
   TALL = '9:16'
-}
\ No newline at end of file
+}
+
+/**
+ * Everything needed to (re)run one generation through the job queue.
+ */
+export type GenerationRequest =
+  | {
+      kind: 'mockup';
+      projectId: string;
+      providerId: string;
+      base64Image: string;
+      mimeType: string;
+      prompt: string;
+      settings: GenerationSettings;
+      input: ImageInput;
+      presetId?: string;
+      // Set when refining an existing gallery image.
+      parentId?: string;
+      rootId?: string;
+    }
+  | {
+      kind: 'composite';
+      projectId: string;
+      providerId: string;
+      prompt: string;
+      settings: GenerationSettings;
+      references: ReferenceImage[];
+    }
+  | {
+      kind: 'generation';
+      projectId: string;
+      providerId: string;
+      prompt: string;
+      settings: GenerationSettings;
+      aspectRatio: AspectRatio;
+      numberOfImages: number;
+      enhancement?: PromptEnhancementRecord;
+    };
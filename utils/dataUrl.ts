@@ -0,0 +1,40 @@
+/**
+ * Split a `data:<mime>;base64,<payload>` URL into its parts.
+ */
+export const parseDataUrl = (dataUrl: string): { mimeType: string; base64: string } => {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error("Invalid data URL");
+  }
+  return { mimeType: match[1] || 'application/octet-stream', base64: match[2] };
+};
+
+/**
+ * Decode a base64 data URL into a Blob so it can be stored in IndexedDB
+ * without keeping the (33% larger) string around.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const { mimeType, base64 } = parseDataUrl(dataUrl);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Read any fetchable image URL (object URL, data URL) back into a data URL.
+ */
+export const urlToDataUrl = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  return blobToDataUrl(await response.blob());
+};
@@ -0,0 +1,18 @@
+/**
+ * Trigger a browser download for a URL (data URL or object URL).
+ */
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Give the browser a moment to start the download before releasing it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
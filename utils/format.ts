@@ -0,0 +1,27 @@
+/**
+ * Human-readable byte size, e.g. 1536 -> "1.5 KB".
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/**
+ * Dollar amount for cost estimates. Small amounts keep enough precision to
+ * be non-zero, e.g. 0.039 -> "$0.039".
+ */
+export const formatUsd = (amount: number): string =>
+  `$${amount > 0 && amount < 1 ? amount.toFixed(3) : amount.toFixed(2)}`;
+
+/**
+ * Short duration, e.g. 850 -> "850 ms", 12400 -> "12.4 s".
+ */
+export const formatDuration = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
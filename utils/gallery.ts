@@ -0,0 +1,126 @@
+import { AspectRatio, GeneratedImage } from '../types';
+
+export type GalleryEntry =
+  | { kind: 'single'; item: GeneratedImage }
+  | { kind: 'group'; groupId: string; items: GeneratedImage[] };
+
+/**
+ * Collapse variants from the same request into one entry, placed where the
+ * first of them appears. Groups reduced to a single survivor render as a
+ * normal card.
+ */
+export const groupGalleryItems = (items: GeneratedImage[]): GalleryEntry[] => {
+  const groups = new Map<string, GeneratedImage[]>();
+  items.forEach(item => {
+    if (!item.group) return;
+    groups.set(item.group.id, [...(groups.get(item.group.id) ?? []), item]);
+  });
+
+  const entries: GalleryEntry[] = [];
+  const emitted = new Set<string>();
+  items.forEach(item => {
+    const members = item.group ? groups.get(item.group.id)! : [item];
+    if (members.length < 2) {
+      entries.push({ kind: 'single', item });
+    } else if (!emitted.has(item.group!.id)) {
+      emitted.add(item.group!.id);
+      entries.push({
+        kind: 'group',
+        groupId: item.group!.id,
+        items: [...members].sort((a, b) => a.group!.index - b.group!.index),
+      });
+    }
+  });
+  return entries;
+};
+
+// Queries only look at record fields, so they work on stored records too.
+type ImageFields = Omit<GeneratedImage, 'url'>;
+
+export type GallerySort = 'newest' | 'oldest' | 'favorites' | 'prompt';
+
+/**
+ * Search, filter and sort settings for the gallery. Empty strings mean
+ * "any"; dates are `YYYY-MM-DD` values from date inputs, both inclusive.
+ */
+export interface GalleryQuery {
+  text: string;
+  type: 'all' | GeneratedImage['type'];
+  presetId: string;
+  aspectRatio: AspectRatio | '';
+  from: string;
+  to: string;
+  tags: string[];
+  favoritesOnly: boolean;
+  sort: GallerySort;
+}
+
+export const DEFAULT_GALLERY_QUERY: GalleryQuery = {
+  text: '',
+  type: 'all',
+  presetId: '',
+  aspectRatio: '',
+  from: '',
+  to: '',
+  tags: [],
+  favoritesOnly: false,
+  sort: 'newest',
+};
+
+/** True when the query narrows the gallery (sorting alone does not count). */
+export const isFiltered = (query: GalleryQuery): boolean =>
+  Boolean(query.text.trim() || query.presetId || query.aspectRatio || query.from || query.to)
+  || query.type !== 'all' || query.tags.length > 0 || query.favoritesOnly;
+
+const RATIO_VALUES = Object.values(AspectRatio).map(ratio => {
+  const [w, h] = ratio.split(':').map(Number);
+  return { ratio, value: w / h };
+});
+
+/**
+ * The aspect ratio an item was rendered at: the closest standard ratio to
+ * its measured size, or the requested one for items saved before sizes
+ * were recorded.
+ */
+export const itemAspectRatio = (item: ImageFields): AspectRatio | undefined => {
+  if (!item.width || !item.height) return item.group?.aspectRatio;
+  const value = item.width / item.height;
+  return RATIO_VALUES.reduce((best, r) => (Math.abs(r.value - value) < Math.abs(best.value - value) ? r : best)).ratio;
+};
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export const matchesQuery = (item: ImageFields, query: GalleryQuery): boolean => {
+  if (query.type !== 'all' && item.type !== query.type) return false;
+  if (query.presetId && item.presetId !== query.presetId) return false;
+  if (query.favoritesOnly && !item.favorite) return false;
+  if (query.aspectRatio && itemAspectRatio(item) !== query.aspectRatio) return false;
+  if (query.from && item.createdAt < startOfDay(query.from)) return false;
+  if (query.to && item.createdAt >= startOfDay(query.to) + 24 * 60 * 60 * 1000) return false;
+  if (query.tags.some(tag => !item.tags?.includes(tag))) return false;
+
+  // Every search word must appear in the prompt or the tags.
+  const haystack = [item.prompt, ...(item.tags ?? [])].join(' ').toLowerCase();
+  return query.text.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+// Final tie-break, in the order IndexedDB walks equal index keys, so the
+// sort is total and a page can start right after any item.
+const byId = (a: ImageFields, b: ImageFields): number => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+export const compareItems = (sort: GallerySort) => (a: ImageFields, b: ImageFields): number => {
+  switch (sort) {
+    case 'oldest':
+      return a.createdAt - b.createdAt || byId(a, b);
+    case 'favorites':
+      return Number(Boolean(b.favorite)) - Number(Boolean(a.favorite)) || b.createdAt - a.createdAt || byId(b, a);
+    case 'prompt':
+      return a.prompt.localeCompare(b.prompt) || b.createdAt - a.createdAt || byId(b, a);
+    default:
+      return b.createdAt - a.createdAt || byId(b, a);
+  }
+};
+
+/** Tags as typed by the user: trimmed, lower-cased, de-duplicated. */
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set<string>(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
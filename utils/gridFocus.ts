@@ -0,0 +1,41 @@
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/** Focus the first control inside `element`. Returns whether there was one. */
+export const focusFirstControl = (element: Element | null | undefined): boolean => {
+  const control = element?.querySelector<HTMLElement>(FOCUSABLE);
+  control?.focus();
+  return Boolean(control);
+};
+
+// Cards sharing the first card's top edge make up the first row.
+const columnCount = (cards: HTMLElement[]) => {
+  const top = cards[0]?.offsetTop;
+  return Math.max(1, cards.filter(card => card.offsetTop === top).length);
+};
+
+/**
+ * Arrow keys, Home and End move focus between the cards of a CSS grid
+ * (the container's children), whatever its current column count. Focus
+ * lands on the target card's first control. Returns whether `key` was
+ * handled, so the caller can prevent the default scroll.
+ */
+export const moveGridFocus = (container: HTMLElement, key: string): boolean => {
+  const cards = Array.from(container.children) as HTMLElement[];
+  const current = cards.findIndex(card => card.contains(document.activeElement));
+  if (current === -1) return false;
+
+  const columns = columnCount(cards);
+  const targets: Record<string, number> = {
+    ArrowLeft: current - 1,
+    ArrowRight: current + 1,
+    ArrowUp: current - columns,
+    ArrowDown: current + columns,
+    Home: 0,
+    End: cards.length - 1,
+  };
+  if (!(key in targets)) return false;
+  const target = targets[key];
+  if (target < 0 || target >= cards.length || target === current) return true;
+  focusFirstControl(cards[target]);
+  return true;
+};
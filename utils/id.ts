@@ -0,0 +1,6 @@
+/**
+ * Time-ordered unique id. `Date.now()` alone collides when several
+ * generations finish within the same millisecond.
+ */
+export const createId = (): string =>
+  `${Date.now().toString()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords } from './textDiff';
+
+const join = (parts: { text: string }[]) => parts.map(part => part.text).join('');
+
+describe('diffWords', () => {
+  it('marks added and removed words and merges neighbouring parts', () => {
+    expect(diffWords('a red mug on a table', 'a navy mug on a wooden table')).toEqual([
+      { type: 'same', text: 'a ' },
+      { type: 'removed', text: 'red' },
+      { type: 'added', text: 'navy' },
+      { type: 'same', text: ' mug on a ' },
+      { type: 'added', text: 'wooden ' },
+      { type: 'same', text: 'table' },
+    ]);
+  });
+
+  it('joins back into both strings', () => {
+    const before = 'A logo  on a\tmug.';
+    const after = 'A bold logo on a mug, studio lit.';
+    const parts = diffWords(before, after);
+
+    expect(join(parts.filter(part => part.type !== 'added'))).toBe(before);
+    expect(join(parts.filter(part => part.type !== 'removed'))).toBe(after);
+  });
+
+  it('falls back to a plain replacement for very long texts', () => {
+    const before = 'word '.repeat(600);
+    const after = 'other '.repeat(600);
+    expect(diffWords(before, after)).toEqual([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  });
+
+  it('handles empty input', () => {
+    expect(diffWords('', 'new prompt')).toEqual([{ type: 'added', text: 'new prompt' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
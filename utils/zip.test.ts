@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zip';
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+describe('createZip / readZip', () => {
+  it('round-trips binary data and UTF-8 names', async () => {
+    const modified = new Date(2025, 4, 17, 14, 30, 10);
+    const binary = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const text = new TextEncoder().encode('{"format":"mockupai-project"}');
+
+    const entries = await readZip(createZip([
+      { name: 'images/café – 1.png', data: binary, modified },
+      { name: 'project.json', data: text, modified },
+    ]));
+
+    expect(entries.map(entry => entry.name)).toEqual(['images/café – 1.png', 'project.json']);
+    expect(entries[0].data).toEqual(binary);
+    expect(entries[1].data).toEqual(text);
+    expect(entries[0].modified).toEqual(modified);
+  });
+
+  it('reads an empty archive', async () => {
+    expect(await readZip(createZip([]))).toEqual([]);
+  });
+
+  it('reads deflated entries written by other tools', async () => {
+    const original = new TextEncoder().encode('mockup '.repeat(200));
+    const compressed = await deflateRaw(original);
+    const bytes = new Uint8Array(await createZip([{ name: 'notes.txt', data: compressed }]).arrayBuffer());
+
+    // Mark the entry as deflated in the local and central headers.
+    const view = new DataView(bytes.buffer);
+    const centralOffset = view.getUint32(bytes.length - 22 + 16, true);
+    view.setUint16(8, 8, true);
+    view.setUint16(centralOffset + 10, 8, true);
+
+    const [entry] = await readZip(new Blob([bytes]));
+    expect(entry.data).toEqual(original);
+  });
+
+  it('rejects data that is not a ZIP archive', async () => {
+    await expect(readZip(new Blob(['not a zip file']))).rejects.toThrow('Not a ZIP archive');
+    await expect(readZip(new Blob([]))).rejects.toThrow('Not a ZIP archive');
+  });
+});